@@ -0,0 +1,634 @@
+import express from "express";
+import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { AuthService } from "../services/authService";
+import { ChatService, ConversationAccessError } from "../services/chatService";
+import { getSharedPersonaService, Persona } from "../services/personaService";
+import { authenticateToken, requireRole } from "../middleware/auth";
+import { validateBody } from "../middleware/validation";
+import { NotFoundError } from "../errors";
+
+const router = express.Router();
+const authService = new AuthService();
+const chatService = new ChatService();
+const personaService = getSharedPersonaService();
+
+// Every admin route requires an authenticated administrator
+router.use(authenticateToken, requireRole("admin"));
+
+/**
+ * @swagger
+ * /api/admin/users:
+ *   get:
+ *     summary: List users
+ *     description: Returns every registered user. Requires the admin role.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of users
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 users:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/User'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Admin role required
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.get("/users", async (req, res, next) => {
+  const tracer = trace.getTracer("admin-api");
+
+  return tracer.startActiveSpan("handle-list-users", async (span) => {
+    try {
+      const users = await authService.listUsers();
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return res.status(200).json({ users });
+    } catch (error) {
+      next(error);
+    } finally {
+      span.end();
+    }
+  });
+});
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/conversations:
+ *   get:
+ *     summary: List a user's conversations
+ *     description: Returns the conversations owned by any user. Requires the admin role.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of conversations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 conversations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ConversationSummary'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Admin role required
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.get("/users/:userId/conversations", async (req, res, next) => {
+  const tracer = trace.getTracer("admin-api");
+
+  return tracer.startActiveSpan(
+    "handle-list-user-conversations",
+    async (span) => {
+      try {
+        span.setAttribute("target_user.id", req.params.userId);
+
+        const conversations = await chatService.listConversations({
+          userId: req.params.userId,
+        });
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return res.status(200).json({ conversations });
+      } catch (error) {
+        next(error);
+      } finally {
+        span.end();
+      }
+    }
+  );
+});
+
+/**
+ * @swagger
+ * /api/admin/users/{userId}/conversations/{id}:
+ *   get:
+ *     summary: Get a user's conversation
+ *     description: Returns any user's conversation with its message history. Requires the admin role.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The conversation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Conversation'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Admin role required
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Conversation not found for this user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.get("/users/:userId/conversations/:id", async (req, res, next) => {
+  const tracer = trace.getTracer("admin-api");
+
+  return tracer.startActiveSpan(
+    "handle-get-user-conversation",
+    async (span) => {
+      try {
+        span.setAttribute("target_user.id", req.params.userId);
+        span.setAttribute("conversation.id", req.params.id);
+
+        // Look the conversation up on behalf of its owner
+        const conversation = await chatService
+          .getConversation(req.params.id, { userId: req.params.userId })
+          .catch((error) => {
+            if (error instanceof ConversationAccessError) {
+              return undefined;
+            }
+            throw error;
+          });
+
+        if (!conversation) {
+          throw new NotFoundError("Conversation not found");
+        }
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return res.status(200).json(conversation);
+      } catch (error) {
+        next(error);
+      } finally {
+        span.end();
+      }
+    }
+  );
+});
+
+/**
+ * @swagger
+ * /api/admin/feedback:
+ *   get:
+ *     summary: Feedback report
+ *     description: Ratings across all conversations by persona, with the most recent feedback and the trace of each rated response. Requires the admin role.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The feedback report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FeedbackReport'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Admin role required
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.get("/feedback", async (req, res, next) => {
+  const tracer = trace.getTracer("admin-api");
+
+  return tracer.startActiveSpan("handle-feedback-report", async (span) => {
+    try {
+      const report = await chatService.getFeedbackReport();
+
+      span.setAttribute("feedback.count", report.total);
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return res.status(200).json(report);
+    } catch (error) {
+      next(error);
+    } finally {
+      span.end();
+    }
+  });
+});
+
+/**
+ * @swagger
+ * /api/admin/personas:
+ *   get:
+ *     summary: List personas
+ *     description: Returns every persona with its prompt and model settings. Requires the admin role.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of personas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 personas:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Persona'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Admin role required
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *   post:
+ *     summary: Create a persona
+ *     description: Adds a persona conversations can be started with. Requires the admin role.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Persona'
+ *     responses:
+ *       201:
+ *         description: The created persona
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Persona'
+ *       400:
+ *         description: Invalid persona
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Admin role required
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       409:
+ *         description: A persona with this ID already exists
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.get("/personas", async (req, res, next) => {
+  const tracer = trace.getTracer("admin-api");
+
+  return tracer.startActiveSpan("handle-list-personas", async (span) => {
+    try {
+      const personas = await personaService.list();
+
+      span.setAttribute("persona.count", personas.length);
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return res.status(200).json({ personas });
+    } catch (error) {
+      next(error);
+    } finally {
+      span.end();
+    }
+  });
+});
+
+router.post("/personas", validateBody("Persona"), async (req, res, next) => {
+  const tracer = trace.getTracer("admin-api");
+
+  return tracer.startActiveSpan("handle-create-persona", async (span) => {
+    try {
+      const persona = req.body as Persona;
+
+      span.setAttribute("persona.id", persona.id);
+
+      const created = await personaService.create(persona);
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return res.status(201).json(created);
+    } catch (error) {
+      next(error);
+    } finally {
+      span.end();
+    }
+  });
+});
+
+/**
+ * @swagger
+ * /api/admin/personas/{id}:
+ *   get:
+ *     summary: Get a persona
+ *     description: Returns a persona with its prompt and model settings. Requires the admin role.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The persona
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Persona'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Admin role required
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Persona not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *   put:
+ *     summary: Update a persona
+ *     description: Replaces a persona's settings. Conversations already started keep their system prompt. Requires the admin role.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PersonaUpdate'
+ *     responses:
+ *       200:
+ *         description: The updated persona
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Persona'
+ *       400:
+ *         description: Invalid persona
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Admin role required
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Persona not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *   delete:
+ *     summary: Delete a persona
+ *     description: Deletes a persona. Its conversations continue with the default persona. Requires the admin role.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Persona deleted
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Admin role required
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Persona not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       409:
+ *         description: The default persona cannot be deleted
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.get("/personas/:id", async (req, res, next) => {
+  const tracer = trace.getTracer("admin-api");
+
+  return tracer.startActiveSpan("handle-get-persona", async (span) => {
+    try {
+      span.setAttribute("persona.id", req.params.id);
+
+      const persona = await personaService.get(req.params.id);
+
+      if (!persona) {
+        throw new NotFoundError("Persona not found");
+      }
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return res.status(200).json(persona);
+    } catch (error) {
+      next(error);
+    } finally {
+      span.end();
+    }
+  });
+});
+
+router.put(
+  "/personas/:id",
+  validateBody("PersonaUpdate"),
+  async (req, res, next) => {
+    const tracer = trace.getTracer("admin-api");
+
+    return tracer.startActiveSpan("handle-update-persona", async (span) => {
+      try {
+        span.setAttribute("persona.id", req.params.id);
+
+        // The ID in the path wins over any ID in the body
+        const persona: Persona = { ...req.body, id: req.params.id };
+
+        const updated = await personaService.update(persona);
+
+        if (!updated) {
+          throw new NotFoundError("Persona not found");
+        }
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return res.status(200).json(updated);
+      } catch (error) {
+        next(error);
+      } finally {
+        span.end();
+      }
+    });
+  }
+);
+
+router.delete("/personas/:id", async (req, res, next) => {
+  const tracer = trace.getTracer("admin-api");
+
+  return tracer.startActiveSpan("handle-delete-persona", async (span) => {
+    try {
+      span.setAttribute("persona.id", req.params.id);
+
+      if (!(await personaService.delete(req.params.id))) {
+        throw new NotFoundError("Persona not found");
+      }
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return res.status(204).send();
+    } catch (error) {
+      next(error);
+    } finally {
+      span.end();
+    }
+  });
+});
+
+export default router;
@@ -1,7 +1,11 @@
 import express from "express";
 import { trace, SpanStatusCode } from "@opentelemetry/api";
-import { log } from "../config/logger";
 import { AuthService } from "../services/authService";
+import { validateCredentials } from "../utils/credentialPolicy";
+import { authenticateToken } from "../middleware/auth";
+import { validateBody } from "../middleware/validation";
+import { AuthError, ValidationError } from "../errors";
+import { CredentialsRequest, LogoutRequest, RefreshRequest } from "./schemas";
 
 const router = express.Router();
 const authService = new AuthService();
@@ -17,169 +21,285 @@ const authService = new AuthService();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - username
- *               - password
- *             properties:
- *               username:
- *                 type: string
- *                 description: The user's username
- *               password:
- *                 type: string
- *                 description: The user's password
+ *             $ref: '#/components/schemas/LoginRequest'
  *     responses:
  *       200:
  *         description: Successful login
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 token:
- *                   type: string
- *                   description: JWT token for authentication
+ *               $ref: '#/components/schemas/AuthTokens'
+ *       400:
+ *         description: Request validation failed
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
  *       401:
  *         description: Invalid credentials
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       429:
+ *         description: Too many login attempts or account temporarily locked
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until another attempt is allowed
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
  *       500:
  *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
  */
-router.post("/login", async (req, res) => {
+router.post("/login", validateBody("LoginRequest"), async (req, res, next) => {
   const tracer = trace.getTracer("auth-api");
 
   return tracer.startActiveSpan("handle-login", async (span) => {
     try {
-      const { username, password } = req.body;
-
-      // Validation
-      if (!username || !password) {
-        span.setStatus({ code: SpanStatusCode.ERROR });
-        span.setAttribute("error.type", "validation_error");
-        log.warn("Login attempt with missing credentials");
-
-        span.end();
-        return res
-          .status(400)
-          .json({ error: "Username and password are required" });
-      }
+      const { username, password } = req.body as CredentialsRequest;
 
       // Attempt login
-      const token = await authService.login(username, password);
-
-      if (!token) {
-        span.setStatus({ code: SpanStatusCode.ERROR });
-        span.setAttribute("error.type", "authentication_failed");
+      const tokens = await authService.login(
+        username,
+        password,
+        req.ip ?? req.socket.remoteAddress ?? "unknown"
+      );
 
-        span.end();
-        return res.status(401).json({ error: "Invalid credentials" });
+      if (!tokens) {
+        throw new AuthError("Invalid credentials", "invalid_credentials");
       }
 
       span.setStatus({ code: SpanStatusCode.OK });
-      span.end();
 
-      return res.status(200).json({ token });
+      return res.status(200).json(tokens);
     } catch (error) {
-      span.setStatus({ code: SpanStatusCode.ERROR });
-      span.setAttribute(
-        "error.type",
-        error instanceof Error ? error.name : "unknown"
-      );
-      span.setAttribute(
-        "error.message",
-        error instanceof Error ? error.message : "Unknown error"
-      );
-
-      log.error("Login request error", { error });
-
+      next(error);
+    } finally {
       span.end();
-      return res.status(500).json({ error: "Authentication failed" });
     }
   });
 });
 
 /**
  * @swagger
- * /api/auth/register:
+ * /api/auth/refresh:
  *   post:
- *     summary: Register a new user
- *     description: Create a new user account
+ *     summary: Refresh an access token
+ *     description: Exchange a refresh token for a new access token. The refresh token is rotated and the old one can't be used again; reusing it revokes every token from the same login.
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - username
- *               - password
- *             properties:
- *               username:
- *                 type: string
- *                 description: The user's username
- *               password:
- *                 type: string
- *                 description: The user's password
+ *             $ref: '#/components/schemas/RefreshRequest'
  *     responses:
- *       201:
- *         description: User created
+ *       200:
+ *         description: New tokens issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthTokens'
  *       400:
- *         description: Invalid input or user already exists
+ *         description: Missing refresh token
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ *       401:
+ *         description: Invalid, expired or reused refresh token
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
  *       500:
  *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
  */
-router.post("/register", async (req, res) => {
-  const tracer = trace.getTracer("auth-api");
+router.post(
+  "/refresh",
+  validateBody("RefreshRequest"),
+  async (req, res, next) => {
+    const tracer = trace.getTracer("auth-api");
 
-  return tracer.startActiveSpan("handle-register", async (span) => {
-    try {
-      const { username, password } = req.body;
+    return tracer.startActiveSpan("handle-refresh", async (span) => {
+      try {
+        const { refreshToken } = req.body as RefreshRequest;
+
+        const tokens = await authService.refresh(refreshToken);
+
+        if (!tokens) {
+          throw new AuthError("Invalid refresh token", "invalid_refresh_token");
+        }
 
-      // Validation
-      if (!username || !password) {
-        span.setStatus({ code: SpanStatusCode.ERROR });
-        span.setAttribute("error.type", "validation_error");
-        log.warn("Registration attempt with missing fields");
+        span.setStatus({ code: SpanStatusCode.OK });
 
+        return res.status(200).json(tokens);
+      } catch (error) {
+        next(error);
+      } finally {
         span.end();
-        return res
-          .status(400)
-          .json({ error: "Username and password are required" });
       }
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out
+ *     description: Revoke the current access token and, if given, the refresh token
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LogoutRequest'
+ *     responses:
+ *       204:
+ *         description: Logged out
+ *       400:
+ *         description: Request validation failed
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.post(
+  "/logout",
+  authenticateToken,
+  validateBody("LogoutRequest"),
+  async (req, res, next) => {
+    const tracer = trace.getTracer("auth-api");
+
+    return tracer.startActiveSpan("handle-logout", async (span) => {
+      try {
+        const { refreshToken } = req.body as LogoutRequest;
 
-      // Attempt registration
-      const success = await authService.register(username, password);
+        await authService.logout(req.user!, refreshToken);
 
-      if (!success) {
-        span.setStatus({ code: SpanStatusCode.ERROR });
-        span.setAttribute("error.type", "registration_failed");
+        span.setStatus({ code: SpanStatusCode.OK });
 
+        return res.status(204).send();
+      } catch (error) {
+        next(error);
+      } finally {
         span.end();
-        return res
-          .status(400)
-          .json({ error: "Registration failed. User may already exist." });
       }
+    });
+  }
+);
 
-      span.setStatus({ code: SpanStatusCode.OK });
-      span.end();
+/**
+ * @swagger
+ * /api/auth/register:
+ *   post:
+ *     summary: Register a new user
+ *     description: Create a new user account
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RegisterRequest'
+ *     responses:
+ *       201:
+ *         description: User created
+ *       400:
+ *         description: Invalid input, credential policy violation or user already exists
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                 details:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       field:
+ *                         type: string
+ *                         enum: [username, password]
+ *                       message:
+ *                         type: string
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ */
+router.post(
+  "/register",
+  validateBody("RegisterRequest"),
+  async (req, res, next) => {
+    const tracer = trace.getTracer("auth-api");
 
-      return res.status(201).json({ message: "User registered successfully" });
-    } catch (error) {
-      span.setStatus({ code: SpanStatusCode.ERROR });
-      span.setAttribute(
-        "error.type",
-        error instanceof Error ? error.name : "unknown"
-      );
-      span.setAttribute(
-        "error.message",
-        error instanceof Error ? error.message : "Unknown error"
-      );
+    return tracer.startActiveSpan("handle-register", async (span) => {
+      try {
+        const { username, password } = req.body as CredentialsRequest;
 
-      log.error("Registration request error", { error });
+        // Enforce the credential policy
+        const violations = validateCredentials(username, password);
 
-      span.end();
-      return res.status(500).json({ error: "Registration failed" });
-    }
-  });
-});
+        if (violations.length > 0) {
+          throw new ValidationError(
+            "Credentials do not meet the policy requirements",
+            violations,
+            "policy_violation"
+          );
+        }
+
+        // Attempt registration
+        const success = await authService.register(username, password);
+
+        if (!success) {
+          throw new ValidationError(
+            "Registration failed. User may already exist.",
+            undefined,
+            "registration_failed"
+          );
+        }
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return res
+          .status(201)
+          .json({ message: "User registered successfully" });
+      } catch (error) {
+        next(error);
+      } finally {
+        span.end();
+      }
+    });
+  }
+);
 
 export default router;
@@ -1,11 +1,29 @@
 import express from "express";
-import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { trace, Span, SpanStatusCode } from "@opentelemetry/api";
 import { log } from "../config/logger";
-import { ChatService } from "../services/chatService";
+import { recordChatRequest } from "../config/metrics";
+import { ChatService, ChatStreamEvent } from "../services/chatService";
+import { UsageService } from "../services/usageService";
+import { getSharedPersonaService } from "../services/personaService";
 import { authenticateToken } from "../middleware/auth";
+import {
+  AppError,
+  NotFoundError,
+  recordSpanError,
+  toProblemDetails,
+} from "../errors";
+import { validateBody } from "../middleware/validation";
+import {
+  ChatRequest,
+  EditMessageRequest,
+  FeedbackRequest,
+  RenameConversationRequest,
+} from "./schemas";
 
 const router = express.Router();
 const chatService = new ChatService();
+const usageService = new UsageService();
+const personaService = getSharedPersonaService();
 
 /**
  * @swagger
@@ -20,103 +38,1255 @@ const chatService = new ChatService();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - message
- *             properties:
- *               message:
- *                 type: string
- *                 description: The user's message
- *               conversationId:
- *                 type: string
- *                 description: Optional conversation ID for continuing a conversation
+ *             $ref: '#/components/schemas/ChatRequest'
  *     responses:
  *       200:
  *         description: Successful response
  *         content:
  *           application/json:
  *             schema:
+ *               $ref: '#/components/schemas/ChatResponse'
+ *       400:
+ *         description: Bad request or unknown persona
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Conversation belongs to another user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       429:
+ *         description: Token quota exceeded
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the quota resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       503:
+ *         description: LLM provider unavailable or circuit breaker open
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the request is worth retrying
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.post(
+  "/chat",
+  authenticateToken,
+  validateBody("ChatRequest"),
+  async (req, res, next) => {
+    const tracer = trace.getTracer("chatbot-api");
+
+    return tracer.startActiveSpan("handle-chat-request", async (span) => {
+      const start = Date.now();
+
+      try {
+        const { message, conversationId, persona } = req.body as ChatRequest;
+
+        span.setAttribute("message.length", message.length);
+        span.setAttribute("conversation.id", conversationId || "new");
+
+        // Process the chat message
+        const result = await chatService.processMessage(
+          message,
+          conversationId,
+          req.user!,
+          persona
+        );
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return res.status(200).json(result);
+      } catch (error) {
+        next(error);
+      } finally {
+        recordChatRequest(Date.now() - start, {
+          "http.route": "/api/chatbot/chat",
+          "http.status_code": res.statusCode,
+        });
+        span.end();
+      }
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /api/chatbot/chat/stream:
+ *   post:
+ *     summary: Send a message and stream the chatbot response
+ *     description: Process a user message and stream the response as Server-Sent Events
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ChatRequest'
+ *     responses:
+ *       200:
+ *         description: Stream of `token` events followed by a final `done` event carrying the response and citations
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Bad request or unknown persona
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Conversation belongs to another user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       429:
+ *         description: Token quota exceeded
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the quota resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       503:
+ *         description: LLM provider unavailable or circuit breaker open
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the request is worth retrying
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.post(
+  "/chat/stream",
+  authenticateToken,
+  validateBody("ChatRequest"),
+  async (req, res, next) => {
+    const tracer = trace.getTracer("chatbot-api");
+
+    return tracer.startActiveSpan(
+      "handle-chat-stream-request",
+      async (span) => {
+        const start = Date.now();
+
+        try {
+          const { message, conversationId, persona } = req.body as ChatRequest;
+
+          span.setAttribute("message.length", message.length);
+          span.setAttribute("conversation.id", conversationId || "new");
+
+          await sendEventStream(req, res, next, span, (signal) =>
+            chatService.processMessageStream(
+              message,
+              conversationId,
+              req.user!,
+              persona,
+              signal
+            )
+          );
+        } finally {
+          recordChatRequest(Date.now() - start, {
+            "http.route": "/api/chatbot/chat/stream",
+            "http.status_code": res.statusCode,
+          });
+          span.end();
+        }
+      }
+    );
+  }
+);
+
+/**
+ * Forward each event of a chat stream to the client as a Server-Sent Event.
+ * The stream is aborted if the client goes away, e.g. when the user stops
+ * the response.
+ */
+async function sendEventStream(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction,
+  span: Span,
+  stream: (signal: AbortSignal) => AsyncGenerator<ChatStreamEvent>
+): Promise<void> {
+  // Abort the upstream request if the client goes away mid-stream
+  const abortController = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      abortController.abort();
+    }
+  });
+
+  try {
+    for await (const event of stream(abortController.signal)) {
+      // Headers are sent with the first event so earlier failures
+      // (e.g. forbidden conversations) still get a proper status code
+      if (!res.headersSent) {
+        res.status(200).set({
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        });
+        res.flushHeaders();
+      }
+
+      writeEvent(res, event.type, event);
+    }
+
+    span.setStatus({ code: SpanStatusCode.OK });
+    res.end();
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      span.setAttribute("stream.cancelled", true);
+      log.info("Chat stream cancelled by client");
+      return;
+    }
+
+    if (!res.headersSent) {
+      return next(error);
+    }
+
+    // The status has already been sent, so the failure is reported as the
+    // last event of the stream
+    recordSpanError(span, error);
+    log.error("Chat stream failed after it started", { error });
+
+    writeEvent(res, "error", toProblemDetails(error, req.originalUrl));
+    res.end();
+  }
+}
+
+/**
+ * Write a single Server-Sent Event to the response
+ */
+function writeEvent(res: express.Response, event: string, data: object) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * @swagger
+ * /api/chatbot/personas:
+ *   get:
+ *     summary: List personas
+ *     description: Lists the personas a new conversation can be started with
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Available personas
+ *         content:
+ *           application/json:
+ *             schema:
  *               type: object
  *               properties:
- *                 response:
- *                   type: string
- *                   description: The chatbot's response
- *                 conversationId:
- *                   type: string
- *                   description: Conversation ID for future reference
- *       400:
- *         description: Bad request
+ *                 personas:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PersonaSummary'
  *       401:
  *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
  *       500:
  *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
  */
-router.post("/chat", authenticateToken, async (req, res) => {
+router.get("/personas", authenticateToken, async (req, res, next) => {
   const tracer = trace.getTracer("chatbot-api");
 
-  return tracer.startActiveSpan("handle-chat-request", async (span) => {
+  return tracer.startActiveSpan("handle-list-personas", async (span) => {
     try {
-      const { message, conversationId } = req.body;
-
-      // Validation
-      if (!message) {
-        span.setStatus({ code: SpanStatusCode.ERROR });
-        span.setAttribute("error.type", "validation_error");
-        log.warn("Missing required field: message");
-        return res.status(400).json({ error: "Message is required" });
-      }
+      // Prompts and model settings are only visible to administrators
+      const personas = (await personaService.list()).map(
+        ({ id, name, description }) => ({ id, name, description })
+      );
 
-      span.setAttribute("message.length", message.length);
-      span.setAttribute("conversation.id", conversationId || "new");
+      span.setAttribute("persona.count", personas.length);
+      span.setStatus({ code: SpanStatusCode.OK });
 
-      // Process the chat message
-      const result = await chatService.processMessage(message, conversationId);
+      return res.status(200).json({ personas });
+    } catch (error) {
+      next(error);
+    } finally {
+      span.end();
+    }
+  });
+});
 
+/**
+ * @swagger
+ * /api/chatbot/usage:
+ *   get:
+ *     summary: Get token usage
+ *     description: Reports the authenticated user's token consumption against their daily and monthly quotas
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Token usage per period
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UsageReport'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.get("/usage", authenticateToken, (req, res, next) => {
+  const tracer = trace.getTracer("chatbot-api");
+
+  return tracer.startActiveSpan("handle-get-usage", (span) => {
+    try {
+      const usage = usageService.getUsage(req.user!);
+
+      span.setAttribute("usage.daily_used", usage.daily.used);
+      span.setAttribute("usage.monthly_used", usage.monthly.used);
       span.setStatus({ code: SpanStatusCode.OK });
 
-      return res.status(200).json(result);
+      return res.status(200).json(usage);
     } catch (error) {
-      span.setStatus({ code: SpanStatusCode.ERROR });
-      span.setAttribute(
-        "error.type",
-        error instanceof Error ? error.name : "unknown"
-      );
-      span.setAttribute(
-        "error.message",
-        error instanceof Error ? error.message : "Unknown error"
+      next(error);
+    } finally {
+      span.end();
+    }
+  });
+});
+
+/**
+ * @swagger
+ * /api/chatbot/conversations:
+ *   get:
+ *     summary: List conversations
+ *     description: Returns stored conversations, most recently updated first
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of conversations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 conversations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ConversationSummary'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.get("/conversations", authenticateToken, async (req, res, next) => {
+  const tracer = trace.getTracer("chatbot-api");
+
+  return tracer.startActiveSpan("handle-list-conversations", async (span) => {
+    try {
+      const conversations = await chatService.listConversations(req.user!);
+
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      return res.status(200).json({ conversations });
+    } catch (error) {
+      next(error);
+    } finally {
+      span.end();
+    }
+  });
+});
+
+/**
+ * @swagger
+ * /api/chatbot/conversations/{id}:
+ *   get:
+ *     summary: Get a conversation
+ *     description: Returns a conversation with its message history, excluding the system prompt
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The conversation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Conversation'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Conversation belongs to another user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Conversation not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.get("/conversations/:id", authenticateToken, async (req, res, next) => {
+  const tracer = trace.getTracer("chatbot-api");
+
+  return tracer.startActiveSpan("handle-get-conversation", async (span) => {
+    try {
+      span.setAttribute("conversation.id", req.params.id);
+
+      const conversation = await chatService.getConversation(
+        req.params.id,
+        req.user!
       );
 
-      log.error("Error processing chat request", { error });
+      if (!conversation) {
+        throw new NotFoundError("Conversation not found");
+      }
+
+      span.setStatus({ code: SpanStatusCode.OK });
 
-      return res.status(500).json({ error: "Failed to process request" });
+      return res.status(200).json(conversation);
+    } catch (error) {
+      next(error);
     } finally {
       span.end();
     }
   });
 });
 
+/**
+ * @swagger
+ * /api/chatbot/conversations/{id}:
+ *   patch:
+ *     summary: Rename a conversation
+ *     description: Update the title of a conversation
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RenameConversationRequest'
+ *     responses:
+ *       200:
+ *         description: The updated conversation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ConversationSummary'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Conversation belongs to another user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Conversation not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.patch(
+  "/conversations/:id",
+  authenticateToken,
+  validateBody("RenameConversationRequest"),
+  async (req, res, next) => {
+    const tracer = trace.getTracer("chatbot-api");
+
+    return tracer.startActiveSpan(
+      "handle-rename-conversation",
+      async (span) => {
+        try {
+          const { title } = req.body as RenameConversationRequest;
+
+          span.setAttribute("conversation.id", req.params.id);
+
+          const conversation = await chatService.renameConversation(
+            req.params.id,
+            title.trim(),
+            req.user!
+          );
+
+          if (!conversation) {
+            throw new NotFoundError("Conversation not found");
+          }
+
+          span.setStatus({ code: SpanStatusCode.OK });
+
+          return res.status(200).json(conversation);
+        } catch (error) {
+          next(error);
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+);
+
+/**
+ * @swagger
+ * /api/chatbot/conversations/{id}:
+ *   delete:
+ *     summary: Delete a conversation
+ *     description: Permanently delete a conversation and its history
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Conversation deleted
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Conversation belongs to another user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Conversation not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.delete(
+  "/conversations/:id",
+  authenticateToken,
+  async (req, res, next) => {
+    const tracer = trace.getTracer("chatbot-api");
+
+    return tracer.startActiveSpan(
+      "handle-delete-conversation",
+      async (span) => {
+        try {
+          span.setAttribute("conversation.id", req.params.id);
+
+          const deleted = await chatService.deleteConversation(
+            req.params.id,
+            req.user!
+          );
+
+          if (!deleted) {
+            throw new NotFoundError("Conversation not found");
+          }
+
+          span.setStatus({ code: SpanStatusCode.OK });
+
+          return res.status(204).send();
+        } catch (error) {
+          next(error);
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+);
+
+/**
+ * @swagger
+ * /api/chatbot/conversations/{id}/messages/{messageId}/feedback:
+ *   post:
+ *     summary: Rate a response
+ *     description: Give a thumbs up or down, with an optional comment, on an assistant message. Replaces any earlier feedback on the message.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/FeedbackRequest'
+ *     responses:
+ *       201:
+ *         description: The recorded feedback
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FeedbackEntry'
+ *       400:
+ *         description: Request validation failed
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Conversation belongs to another user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Conversation or assistant message not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.post(
+  "/conversations/:id/messages/:messageId/feedback",
+  authenticateToken,
+  validateBody("FeedbackRequest"),
+  async (req, res, next) => {
+    const tracer = trace.getTracer("chatbot-api");
+
+    return tracer.startActiveSpan("handle-message-feedback", async (span) => {
+      try {
+        const { rating, comment } = req.body as FeedbackRequest;
+
+        span.setAttribute("conversation.id", req.params.id);
+        span.setAttribute("message.id", req.params.messageId);
+
+        const feedback = await chatService.recordFeedback(
+          req.params.id,
+          req.params.messageId,
+          { rating, comment },
+          req.user!
+        );
+
+        if (!feedback) {
+          throw new NotFoundError("Message not found");
+        }
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return res.status(201).json(feedback);
+      } catch (error) {
+        next(error);
+      } finally {
+        span.end();
+      }
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /api/chatbot/conversations/{id}/regenerate:
+ *   post:
+ *     summary: Regenerate the last response
+ *     description: Remove the last user message and the response to it, then process the message again. The previous history is restored if this fails.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The new response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChatResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Conversation belongs to another user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Conversation or user message not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       429:
+ *         description: Token quota exceeded
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the quota resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       503:
+ *         description: LLM provider unavailable or circuit breaker open
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the request is worth retrying
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.post(
+  "/conversations/:id/regenerate",
+  authenticateToken,
+  async (req, res, next) => {
+    const tracer = trace.getTracer("chatbot-api");
+
+    return tracer.startActiveSpan("handle-regenerate-request", async (span) => {
+      const start = Date.now();
+
+      try {
+        span.setAttribute("conversation.id", req.params.id);
+
+        const result = await chatService.regenerateResponse(
+          req.params.id,
+          req.user!
+        );
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return res.status(200).json(result);
+      } catch (error) {
+        next(error);
+      } finally {
+        recordChatRequest(Date.now() - start, {
+          "http.route": "/api/chatbot/conversations/:id/regenerate",
+          "http.status_code": res.statusCode,
+        });
+        span.end();
+      }
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /api/chatbot/conversations/{id}/regenerate/stream:
+ *   post:
+ *     summary: Regenerate the last response as a stream
+ *     description: Remove the last user message and the response to it, then process the message again. The previous history is restored if this fails. Cancelling the request restores it too.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Stream of `token` events followed by a final `done` event carrying the response and citations
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Conversation belongs to another user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Conversation or user message not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       429:
+ *         description: Token quota exceeded
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the quota resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       503:
+ *         description: LLM provider unavailable or circuit breaker open
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the request is worth retrying
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.post(
+  "/conversations/:id/regenerate/stream",
+  authenticateToken,
+  async (req, res, next) => {
+    const tracer = trace.getTracer("chatbot-api");
+
+    return tracer.startActiveSpan(
+      "handle-regenerate-stream-request",
+      async (span) => {
+        const start = Date.now();
+
+        try {
+          span.setAttribute("conversation.id", req.params.id);
+
+          await sendEventStream(req, res, next, span, (signal) =>
+            chatService.regenerateResponseStream(
+              req.params.id,
+              req.user!,
+              signal
+            )
+          );
+        } finally {
+          recordChatRequest(Date.now() - start, {
+            "http.route": "/api/chatbot/conversations/:id/regenerate/stream",
+            "http.status_code": res.statusCode,
+          });
+          span.end();
+        }
+      }
+    );
+  }
+);
+
+/**
+ * @swagger
+ * /api/chatbot/conversations/{id}/messages/{messageId}/edit:
+ *   post:
+ *     summary: Edit a message and resend it
+ *     description: Replace a user message and everything after it with the edited message, then process it. The previous history is restored if this fails.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EditMessageRequest'
+ *     responses:
+ *       200:
+ *         description: The new response
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ChatResponse'
+ *       400:
+ *         description: Request validation failed
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Conversation belongs to another user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Conversation or user message not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       429:
+ *         description: Token quota exceeded
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the quota resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       503:
+ *         description: LLM provider unavailable or circuit breaker open
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the request is worth retrying
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.post(
+  "/conversations/:id/messages/:messageId/edit",
+  authenticateToken,
+  validateBody("EditMessageRequest"),
+  async (req, res, next) => {
+    const tracer = trace.getTracer("chatbot-api");
+
+    return tracer.startActiveSpan(
+      "handle-edit-message-request",
+      async (span) => {
+        const start = Date.now();
+
+        try {
+          const { message } = req.body as EditMessageRequest;
+
+          span.setAttribute("message.length", message.length);
+          span.setAttribute("conversation.id", req.params.id);
+          span.setAttribute("message.id", req.params.messageId);
+
+          const result = await chatService.editMessage(
+            req.params.id,
+            req.params.messageId,
+            message,
+            req.user!
+          );
+
+          span.setStatus({ code: SpanStatusCode.OK });
+
+          return res.status(200).json(result);
+        } catch (error) {
+          next(error);
+        } finally {
+          recordChatRequest(Date.now() - start, {
+            "http.route":
+              "/api/chatbot/conversations/:id/messages/:messageId/edit",
+            "http.status_code": res.statusCode,
+          });
+          span.end();
+        }
+      }
+    );
+  }
+);
+
+/**
+ * @swagger
+ * /api/chatbot/conversations/{id}/messages/{messageId}/edit/stream:
+ *   post:
+ *     summary: Edit a message and stream the new response
+ *     description: Replace a user message and everything after it with the edited message, then process it. The previous history is restored if this fails. Cancelling the request restores it too.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EditMessageRequest'
+ *     responses:
+ *       200:
+ *         description: Stream of `token` events followed by a final `done` event carrying the response and citations
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Request validation failed
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationProblem'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       403:
+ *         description: Conversation belongs to another user
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       404:
+ *         description: Conversation or user message not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       429:
+ *         description: Token quota exceeded
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the quota resets
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ *       503:
+ *         description: LLM provider unavailable or circuit breaker open
+ *         headers:
+ *           Retry-After:
+ *             description: Seconds until the request is worth retrying
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.post(
+  "/conversations/:id/messages/:messageId/edit/stream",
+  authenticateToken,
+  validateBody("EditMessageRequest"),
+  async (req, res, next) => {
+    const tracer = trace.getTracer("chatbot-api");
+
+    return tracer.startActiveSpan(
+      "handle-edit-message-stream-request",
+      async (span) => {
+        const start = Date.now();
+
+        try {
+          const { message } = req.body as EditMessageRequest;
+
+          span.setAttribute("message.length", message.length);
+          span.setAttribute("conversation.id", req.params.id);
+          span.setAttribute("message.id", req.params.messageId);
+
+          await sendEventStream(req, res, next, span, (signal) =>
+            chatService.editMessageStream(
+              req.params.id,
+              req.params.messageId,
+              message,
+              req.user!,
+              signal
+            )
+          );
+        } finally {
+          recordChatRequest(Date.now() - start, {
+            "http.route":
+              "/api/chatbot/conversations/:id/messages/:messageId/edit/stream",
+            "http.status_code": res.statusCode,
+          });
+          span.end();
+        }
+      }
+    );
+  }
+);
+
 /**
  * @swagger
  * /api/chatbot/health:
  *   get:
  *     summary: Check chatbot health
- *     description: Returns the health status of the chatbot service
+ *     description: Returns the health status of the chatbot service and the circuit breaker state of its LLM provider
  *     responses:
  *       200:
- *         description: Service is healthy
+ *         description: Service health; `degraded` while the LLM provider is failing
  *       500:
  *         description: Service is unhealthy
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
  */
-router.get("/health", (req, res) => {
+router.get("/health", (req, res, next) => {
   try {
-    // Simple health check that the chatbot service is available
-    const status = chatService.getHealth();
-    return res.status(200).json({ status });
+    // Reports the service as degraded while the LLM circuit is not closed
+    return res.status(200).json(chatService.getHealth());
   } catch (error) {
     log.error("Chatbot health check failed", { error });
-    return res
-      .status(500)
-      .json({ status: "unhealthy", error: "Service unavailable" });
+    next(
+      new AppError("Chatbot health check failed", 500, "health_check_failed")
+    );
   }
 });
 
@@ -0,0 +1,49 @@
+import express from "express";
+import { log } from "../config/logger";
+import { AppError } from "../errors";
+import { createDefaultHealthRegistry } from "../health";
+
+const router = express.Router();
+const healthRegistry = createDefaultHealthRegistry();
+
+/**
+ * @swagger
+ * /health/live:
+ *   get:
+ *     summary: Liveness check
+ *     description: Reports that the process is running and able to serve requests. Dependencies are not checked.
+ *     responses:
+ *       200:
+ *         description: Process is alive
+ */
+router.get(["/", "/live"], (req, res) => {
+  res.status(200).json({ status: "ok" });
+});
+
+/**
+ * @swagger
+ * /health/ready:
+ *   get:
+ *     summary: Readiness check
+ *     description: Checks the LLM provider, conversation store, Key Vault and telemetry exporter and reports each component
+ *     responses:
+ *       200:
+ *         description: Every critical component is up
+ *       503:
+ *         description: A critical component is down, or the checks could not be run
+ */
+router.get("/ready", async (req, res, next) => {
+  try {
+    const report = await healthRegistry.checkReadiness();
+    return res.status(report.status === "ready" ? 200 : 503).json(report);
+  } catch (error) {
+    log.error("Readiness check failed", { error });
+    next(
+      new AppError("Readiness check failed", 503, "readiness_check_failed", {
+        detail: "The readiness checks could not be run.",
+      })
+    );
+  }
+});
+
+export default router;
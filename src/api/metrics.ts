@@ -0,0 +1,36 @@
+import express from "express";
+import { prometheusExporter } from "../config/telemetry";
+import { NotFoundError } from "../errors";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /metrics:
+ *   get:
+ *     summary: Prometheus metrics
+ *     description: Metrics in the Prometheus text format. Only available when OTEL_METRICS_EXPORTER is set to prometheus.
+ *     responses:
+ *       200:
+ *         description: Current metric values
+ *       404:
+ *         description: Prometheus metrics are not enabled
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.get("/", (req, res, next) => {
+  if (!prometheusExporter) {
+    return next(
+      new NotFoundError(
+        "Prometheus metrics are not enabled",
+        "metrics_not_enabled"
+      )
+    );
+  }
+
+  prometheusExporter.getMetricsRequestHandler(req, res);
+});
+
+export default router;
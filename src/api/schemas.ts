@@ -0,0 +1,665 @@
+/**
+ * JSON schemas for the API. Request schemas are enforced by the validation
+ * middleware and, with the response schemas, published as the components of
+ * the OpenAPI spec, so the docs can't drift from what is accepted.
+ *
+ * Request schemas must stay within the subset of JSON Schema that OpenAPI
+ * 3.0 understands.
+ */
+
+// Longest message a user can send in one request
+export const MAX_MESSAGE_LENGTH = 4000;
+
+// Matches strings with at least one non-whitespace character
+export const NOT_BLANK = "\\S";
+
+const PERSONA_ID = {
+  type: "string",
+  pattern: "^[a-z0-9-]{1,64}$",
+} as const;
+
+const CREDENTIALS = {
+  type: "object",
+  required: ["username", "password"],
+  additionalProperties: false,
+  properties: {
+    username: {
+      type: "string",
+      minLength: 1,
+      maxLength: 256,
+      description: "The user's username",
+    },
+    password: {
+      type: "string",
+      minLength: 1,
+      maxLength: 256,
+      description: "The user's password",
+    },
+  },
+} as const;
+
+const PERSONA_FIELDS = {
+  name: {
+    type: "string",
+    pattern: NOT_BLANK,
+    maxLength: 100,
+  },
+  description: {
+    type: "string",
+    maxLength: 500,
+  },
+  systemPrompt: {
+    type: "string",
+    pattern: NOT_BLANK,
+    maxLength: 10000,
+    description: "System prompt new conversations start with",
+  },
+  model: {
+    type: "string",
+    minLength: 1,
+    description: "Model to use instead of the default",
+  },
+  temperature: {
+    type: "number",
+    minimum: 0,
+    maximum: 2,
+  },
+  maxTokens: {
+    type: "integer",
+    minimum: 1,
+    description: "Maximum tokens generated per response",
+  },
+} as const;
+
+export const requestSchemas = {
+  ChatRequest: {
+    type: "object",
+    required: ["message"],
+    additionalProperties: false,
+    properties: {
+      message: {
+        type: "string",
+        minLength: 1,
+        maxLength: MAX_MESSAGE_LENGTH,
+        description: "The message to send to the chatbot",
+      },
+      conversationId: {
+        type: "string",
+        minLength: 1,
+        maxLength: 64,
+        description: "Optional conversation ID for continuing a conversation",
+      },
+      persona: {
+        ...PERSONA_ID,
+        description:
+          "Persona ID for a new conversation; ignored when continuing one",
+      },
+    },
+  },
+  EditMessageRequest: {
+    type: "object",
+    required: ["message"],
+    additionalProperties: false,
+    properties: {
+      message: {
+        type: "string",
+        minLength: 1,
+        maxLength: MAX_MESSAGE_LENGTH,
+        description: "The message to replace the edited one with",
+      },
+    },
+  },
+  RenameConversationRequest: {
+    type: "object",
+    required: ["title"],
+    additionalProperties: false,
+    properties: {
+      title: {
+        type: "string",
+        pattern: NOT_BLANK,
+        maxLength: 200,
+        description: "The new conversation title",
+      },
+    },
+  },
+  FeedbackRequest: {
+    type: "object",
+    required: ["rating"],
+    additionalProperties: false,
+    properties: {
+      rating: {
+        type: "string",
+        enum: ["up", "down"],
+        description: "Whether the response was helpful",
+      },
+      comment: {
+        type: "string",
+        maxLength: 1000,
+        description: "Optional explanation of the rating",
+      },
+    },
+  },
+  LoginRequest: CREDENTIALS,
+  RegisterRequest: CREDENTIALS,
+  RefreshRequest: {
+    type: "object",
+    required: ["refreshToken"],
+    additionalProperties: false,
+    properties: {
+      refreshToken: {
+        type: "string",
+        minLength: 1,
+        maxLength: 512,
+        description: "The refresh token from login or a previous refresh",
+      },
+    },
+  },
+  LogoutRequest: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      refreshToken: {
+        type: "string",
+        minLength: 1,
+        maxLength: 512,
+        description: "The refresh token to revoke",
+      },
+    },
+  },
+  Persona: {
+    type: "object",
+    required: ["id", "name", "systemPrompt", "temperature", "maxTokens"],
+    additionalProperties: false,
+    properties: {
+      id: {
+        ...PERSONA_ID,
+        description: "Persona ID",
+      },
+      ...PERSONA_FIELDS,
+    },
+  },
+  PersonaUpdate: {
+    type: "object",
+    required: ["name", "systemPrompt", "temperature", "maxTokens"],
+    additionalProperties: false,
+    properties: {
+      id: {
+        ...PERSONA_ID,
+        description: "Ignored; the ID is taken from the path",
+      },
+      ...PERSONA_FIELDS,
+    },
+  },
+} as const;
+
+export type RequestSchemaName = keyof typeof requestSchemas;
+
+// Request bodies as seen by handlers once they have passed validation
+export interface ChatRequest {
+  message: string;
+  conversationId?: string;
+  persona?: string;
+}
+
+export interface EditMessageRequest {
+  message: string;
+}
+
+export interface RenameConversationRequest {
+  title: string;
+}
+
+export interface FeedbackRequest {
+  rating: "up" | "down";
+  comment?: string;
+}
+
+export interface CredentialsRequest {
+  username: string;
+  password: string;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+export interface LogoutRequest {
+  refreshToken?: string;
+}
+
+// Documented only; responses are not validated
+export const responseSchemas = {
+  ReadinessReport: {
+    type: "object",
+    properties: {
+      status: {
+        type: "string",
+        enum: ["ready", "not_ready"],
+      },
+      checkedAt: {
+        type: "string",
+        format: "date-time",
+      },
+      components: {
+        type: "object",
+        description: "Result of each check keyed by component name",
+        additionalProperties: {
+          type: "object",
+          properties: {
+            status: {
+              type: "string",
+              enum: ["up", "down"],
+            },
+            critical: {
+              type: "boolean",
+              description:
+                "Whether the service is not ready while this component is down",
+            },
+            durationMs: {
+              type: "integer",
+            },
+            details: {
+              type: "object",
+            },
+            error: {
+              type: "string",
+            },
+          },
+        },
+      },
+    },
+  },
+  ChatbotHealth: {
+    type: "object",
+    properties: {
+      status: {
+        type: "string",
+        enum: ["healthy", "degraded"],
+      },
+      llm: {
+        type: "object",
+        properties: {
+          provider: {
+            type: "string",
+          },
+          status: {
+            type: "string",
+            enum: ["healthy", "degraded", "unavailable"],
+          },
+          circuitBreaker: {
+            type: "object",
+            properties: {
+              state: {
+                type: "string",
+                enum: ["closed", "open", "half-open"],
+              },
+              consecutiveFailures: {
+                type: "integer",
+              },
+              openedAt: {
+                type: "string",
+                format: "date-time",
+              },
+              retryAfterSeconds: {
+                type: "integer",
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  ChatResponse: {
+    type: "object",
+    properties: {
+      response: {
+        type: "string",
+        description: "The chatbot response",
+      },
+      conversationId: {
+        type: "string",
+        description: "Conversation ID for future reference",
+      },
+      userMessageId: {
+        type: "string",
+        description: "ID of the user message, e.g. to edit it",
+      },
+      messageId: {
+        type: "string",
+        description: "ID of the response message, e.g. to give feedback on it",
+      },
+      citations: {
+        type: "array",
+        description: "Catalog entries the response drew on",
+        items: {
+          $ref: "#/components/schemas/Citation",
+        },
+      },
+    },
+  },
+  Citation: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "SKU of the catalog entry",
+      },
+      title: {
+        type: "string",
+        description: "Product name",
+      },
+      source: {
+        type: "string",
+        description: "Catalog file the entry was loaded from",
+      },
+      score: {
+        type: "number",
+        description: "Similarity of the entry to the message",
+      },
+    },
+  },
+  AuthTokens: {
+    type: "object",
+    properties: {
+      token: {
+        type: "string",
+        description: "Short-lived JWT access token",
+      },
+      refreshToken: {
+        type: "string",
+        description: "Refresh token for obtaining new access tokens",
+      },
+      expiresIn: {
+        type: "integer",
+        description: "Access token lifetime in seconds",
+      },
+    },
+  },
+  User: {
+    type: "object",
+    properties: {
+      userId: {
+        type: "string",
+      },
+      username: {
+        type: "string",
+      },
+      role: {
+        type: "string",
+        enum: ["user", "admin"],
+      },
+    },
+  },
+  PeriodUsage: {
+    type: "object",
+    properties: {
+      used: {
+        type: "integer",
+        description: "Tokens used in the current period",
+      },
+      limit: {
+        type: "integer",
+        nullable: true,
+        description: "Token limit for the period; null means unlimited",
+      },
+      remaining: {
+        type: "integer",
+        nullable: true,
+        description: "Tokens left in the period; null means unlimited",
+      },
+      resetsAt: {
+        type: "string",
+        format: "date-time",
+      },
+    },
+  },
+  UsageReport: {
+    type: "object",
+    properties: {
+      daily: {
+        $ref: "#/components/schemas/PeriodUsage",
+      },
+      monthly: {
+        $ref: "#/components/schemas/PeriodUsage",
+      },
+    },
+  },
+  PersonaSummary: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "Persona ID to pass when starting a conversation",
+      },
+      name: {
+        type: "string",
+      },
+      description: {
+        type: "string",
+      },
+    },
+  },
+  ChatMessage: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description:
+          "Message ID; absent for messages sent before IDs were assigned",
+      },
+      role: {
+        type: "string",
+        enum: ["user", "assistant"],
+        description: "Who sent the message",
+      },
+      content: {
+        type: "string",
+        description: "The message text",
+      },
+      traceId: {
+        type: "string",
+        description:
+          "Trace of the completion that generated an assistant message",
+      },
+      spanId: {
+        type: "string",
+        description:
+          "Span of the completion that generated an assistant message",
+      },
+      feedback: {
+        $ref: "#/components/schemas/MessageFeedback",
+      },
+      createdAt: {
+        type: "string",
+        format: "date-time",
+        description:
+          "When the message was sent; absent for messages stored before timestamps",
+      },
+      citations: {
+        type: "array",
+        description: "Catalog entries an assistant message drew on",
+        items: {
+          $ref: "#/components/schemas/Citation",
+        },
+      },
+    },
+  },
+  MessageFeedback: {
+    type: "object",
+    properties: {
+      rating: {
+        type: "string",
+        enum: ["up", "down"],
+      },
+      comment: {
+        type: "string",
+      },
+      createdAt: {
+        type: "string",
+        format: "date-time",
+      },
+    },
+  },
+  FeedbackEntry: {
+    allOf: [
+      { $ref: "#/components/schemas/MessageFeedback" },
+      {
+        type: "object",
+        properties: {
+          conversationId: { type: "string" },
+          messageId: { type: "string" },
+          userId: { type: "string" },
+          personaId: { type: "string" },
+          traceId: {
+            type: "string",
+            description: "Trace of the completion that generated the message",
+          },
+        },
+      },
+    ],
+  },
+  FeedbackReport: {
+    type: "object",
+    properties: {
+      total: { type: "integer" },
+      up: { type: "integer" },
+      down: { type: "integer" },
+      byPersona: {
+        type: "object",
+        description: "Ratings by persona ID",
+        additionalProperties: {
+          type: "object",
+          properties: {
+            up: { type: "integer" },
+            down: { type: "integer" },
+          },
+        },
+      },
+      recent: {
+        type: "array",
+        description: "Most recent feedback, newest first",
+        items: {
+          $ref: "#/components/schemas/FeedbackEntry",
+        },
+      },
+    },
+  },
+  ConversationSummary: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "Conversation ID",
+      },
+      title: {
+        type: "string",
+        description: "Conversation title",
+      },
+      personaId: {
+        type: "string",
+        description: "Persona the conversation runs under",
+      },
+      messageCount: {
+        type: "integer",
+        description: "Number of user and assistant messages",
+      },
+      createdAt: {
+        type: "string",
+        format: "date-time",
+      },
+      updatedAt: {
+        type: "string",
+        format: "date-time",
+      },
+    },
+  },
+  Conversation: {
+    allOf: [
+      {
+        $ref: "#/components/schemas/ConversationSummary",
+      },
+      {
+        type: "object",
+        properties: {
+          messages: {
+            type: "array",
+            items: {
+              $ref: "#/components/schemas/ChatMessage",
+            },
+          },
+        },
+      },
+    ],
+  },
+  Problem: {
+    type: "object",
+    description: "Error response as defined by RFC 7807",
+    properties: {
+      type: {
+        type: "string",
+        description: "URI identifying the problem type",
+        example: "about:blank",
+      },
+      title: {
+        type: "string",
+        description: "Summary of the HTTP status",
+      },
+      status: {
+        type: "integer",
+      },
+      detail: {
+        type: "string",
+        description: "Explanation of this occurrence of the problem",
+      },
+      instance: {
+        type: "string",
+        description: "Path of the request that failed",
+      },
+      code: {
+        type: "string",
+        description: "Machine-readable error code",
+        example: "validation_error",
+      },
+      traceId: {
+        type: "string",
+        description: "ID of the trace recording the request",
+      },
+      retryAfter: {
+        type: "integer",
+        description: "Seconds until the request may be retried (429)",
+      },
+      resetsAt: {
+        type: "string",
+        format: "date-time",
+        description: "When the exceeded token quota resets",
+      },
+    },
+  },
+  ValidationProblem: {
+    allOf: [
+      {
+        $ref: "#/components/schemas/Problem",
+      },
+      {
+        type: "object",
+        properties: {
+          details: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                field: {
+                  type: "string",
+                  description: "Field that failed validation",
+                },
+                message: {
+                  type: "string",
+                },
+              },
+            },
+          },
+        },
+      },
+    ],
+  },
+};
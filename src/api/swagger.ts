@@ -3,6 +3,23 @@
 // Remove module declaration
 // declare module "swagger-jsdoc";
 
+import { requestSchemas, RequestSchemaName, responseSchemas } from "./schemas";
+
+/**
+ * Request body validated against one of the request schemas; bodies whose
+ * schema has no required fields may be omitted
+ */
+const jsonBody = (name: RequestSchemaName) => ({
+  required: "required" in requestSchemas[name],
+  content: {
+    "application/json": {
+      schema: {
+        $ref: `#/components/schemas/${name}`,
+      },
+    },
+  },
+});
+
 const swaggerSpec = {
   openapi: "3.0.0",
   info: {
@@ -29,87 +46,197 @@ const swaggerSpec = {
       post: {
         summary: "Authenticate user and get token",
         description: "Login with username and password to get a JWT token",
-        requestBody: {
-          required: true,
-          content: {
-            "application/json": {
-              schema: {
-                type: "object",
-                required: ["username", "password"],
-                properties: {
-                  username: {
-                    type: "string",
-                    description: "The user's username",
-                  },
-                  password: {
-                    type: "string",
-                    description: "The user's password",
-                  },
+        requestBody: jsonBody("LoginRequest"),
+        responses: {
+          "200": {
+            description: "Successful login",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/AuthTokens",
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Request validation failed",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Invalid credentials",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "429": {
+            description:
+              "Too many login attempts or account temporarily locked",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until another attempt is allowed",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
                 },
               },
             },
           },
         },
+      },
+    },
+    "/auth/refresh": {
+      post: {
+        summary: "Refresh an access token",
+        description:
+          "Exchange a refresh token for a new access token. The refresh token is rotated and the old one can't be used again; reusing it revokes every token from the same login.",
+        requestBody: jsonBody("RefreshRequest"),
         responses: {
           "200": {
-            description: "Successful login",
+            description: "New tokens issued",
             content: {
               "application/json": {
                 schema: {
-                  type: "object",
-                  properties: {
-                    token: {
-                      type: "string",
-                      description: "JWT token for authentication",
-                    },
-                  },
+                  $ref: "#/components/schemas/AuthTokens",
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Missing refresh token",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
                 },
               },
             },
           },
           "401": {
-            description: "Invalid credentials",
+            description: "Invalid, expired or reused refresh token",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
           },
           "500": {
             description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
           },
         },
       },
     },
-    "/auth/register": {
+    "/auth/logout": {
       post: {
-        summary: "Register a new user",
-        description: "Create a new user account",
-        requestBody: {
-          required: true,
-          content: {
-            "application/json": {
-              schema: {
-                type: "object",
-                required: ["username", "password"],
-                properties: {
-                  username: {
-                    type: "string",
-                    description: "The user's username",
-                  },
-                  password: {
-                    type: "string",
-                    description: "The user's password",
-                  },
+        summary: "Log out",
+        description:
+          "Revoke the current access token and, if given, the refresh token",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        requestBody: jsonBody("LogoutRequest"),
+        responses: {
+          "204": {
+            description: "Logged out",
+          },
+          "400": {
+            description: "Request validation failed",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
                 },
               },
             },
           },
         },
+      },
+    },
+    "/auth/register": {
+      post: {
+        summary: "Register a new user",
+        description: "Create a new user account",
+        requestBody: jsonBody("RegisterRequest"),
         responses: {
           "201": {
             description: "User created",
           },
           "400": {
-            description: "Invalid input or user already exists",
+            description:
+              "Invalid input, credential policy violation or user already exists",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
           },
           "500": {
             description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
           },
         },
       },
@@ -124,124 +251,1892 @@ const swaggerSpec = {
             bearerAuth: [],
           },
         ],
-        requestBody: {
-          required: true,
-          content: {
-            "application/json": {
-              schema: {
-                type: "object",
-                required: ["message"],
-                properties: {
-                  message: {
-                    type: "string",
-                    description: "The user's message",
-                  },
-                  conversationId: {
-                    type: "string",
-                    description:
-                      "Optional conversation ID for continuing a conversation",
-                  },
-                },
-              },
-            },
-          },
-        },
+        requestBody: jsonBody("ChatRequest"),
         responses: {
           "200": {
             description: "Successful response",
             content: {
               "application/json": {
                 schema: {
-                  type: "object",
-                  properties: {
-                    response: {
-                      type: "string",
-                      description: "The chatbot's response",
-                    },
-                    conversationId: {
-                      type: "string",
-                      description: "Conversation ID for future reference",
-                    },
-                  },
+                  $ref: "#/components/schemas/ChatResponse",
                 },
               },
             },
           },
           "400": {
-            description: "Bad request",
+            description: "Bad request or unknown persona",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
           },
           "401": {
             description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Conversation belongs to another user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "429": {
+            description: "Token quota exceeded",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the quota resets",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
           },
           "500": {
             description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "503": {
+            description: "LLM provider unavailable or circuit breaker open",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the request is worth retrying",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
           },
         },
       },
     },
-    "/chatbot/health": {
-      get: {
-        summary: "Check chatbot health",
-        description: "Returns the health status of the chatbot service",
+    "/chatbot/chat/stream": {
+      post: {
+        summary: "Send a message and stream the chatbot response",
+        description:
+          "Process a user message and stream the response as Server-Sent Events",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        requestBody: jsonBody("ChatRequest"),
         responses: {
           "200": {
-            description: "Service is healthy",
-          },
-          "500": {
-            description: "Service is unhealthy",
+            description:
+              "Stream of `token` events followed by a final `done` event carrying the response and citations",
+            content: {
+              "text/event-stream": {
+                schema: {
+                  type: "string",
+                },
+              },
+            },
           },
-        },
-      },
-    },
-  },
-  components: {
-    securitySchemes: {
-      bearerAuth: {
-        type: "http",
-        scheme: "bearer",
-        bearerFormat: "JWT",
-      },
-    },
-    schemas: {
-      ChatRequest: {
-        type: "object",
-        required: ["message"],
-        properties: {
-          message: {
-            type: "string",
-            description: "The message to send to the chatbot",
+          "400": {
+            description: "Bad request or unknown persona",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
           },
-          conversationId: {
-            type: "string",
-            description:
-              "Optional conversation ID for continuing a conversation",
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
           },
-        },
-      },
-      ChatResponse: {
-        type: "object",
-        properties: {
-          response: {
-            type: "string",
-            description: "The chatbot response",
+          "403": {
+            description: "Conversation belongs to another user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
           },
-          conversationId: {
-            type: "string",
-            description: "Conversation ID for future reference",
+          "429": {
+            description: "Token quota exceeded",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the quota resets",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
           },
-        },
-      },
-      Error: {
-        type: "object",
-        properties: {
-          error: {
-            type: "string",
-            description: "Error message",
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "503": {
+            description: "LLM provider unavailable or circuit breaker open",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the request is worth retrying",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/chatbot/personas": {
+      get: {
+        summary: "List personas",
+        description:
+          "Lists the personas a new conversation can be started with",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Available personas",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    personas: {
+                      type: "array",
+                      items: {
+                        $ref: "#/components/schemas/PersonaSummary",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/chatbot/usage": {
+      get: {
+        summary: "Get token usage",
+        description:
+          "Reports the authenticated user's token consumption against their daily and monthly quotas",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Token usage per period",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/UsageReport",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/chatbot/conversations": {
+      get: {
+        summary: "List conversations",
+        description:
+          "Returns stored conversations, most recently updated first",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        responses: {
+          "200": {
+            description: "List of conversations",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    conversations: {
+                      type: "array",
+                      items: {
+                        $ref: "#/components/schemas/ConversationSummary",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/chatbot/conversations/{id}": {
+      parameters: [
+        {
+          in: "path",
+          name: "id",
+          required: true,
+          schema: {
+            type: "string",
+          },
+          description: "The conversation ID",
+        },
+      ],
+      get: {
+        summary: "Get a conversation",
+        description:
+          "Returns a conversation with its message history, excluding the system prompt",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The conversation",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/Conversation",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Conversation belongs to another user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Conversation not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+      patch: {
+        summary: "Rename a conversation",
+        description: "Update the title of a conversation",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        requestBody: jsonBody("RenameConversationRequest"),
+        responses: {
+          "200": {
+            description: "The updated conversation",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/ConversationSummary",
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Bad request",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Conversation belongs to another user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Conversation not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        summary: "Delete a conversation",
+        description: "Permanently delete a conversation and its history",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        responses: {
+          "204": {
+            description: "Conversation deleted",
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Conversation belongs to another user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Conversation not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/chatbot/conversations/{id}/messages/{messageId}/feedback": {
+      post: {
+        summary: "Rate a response",
+        description:
+          "Give a thumbs up or down, with an optional comment, on an assistant message. Replaces any earlier feedback on the message.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        parameters: [
+          {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            in: "path",
+            name: "messageId",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: jsonBody("FeedbackRequest"),
+        responses: {
+          "201": {
+            description: "The recorded feedback",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/FeedbackEntry",
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Request validation failed",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Conversation belongs to another user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Conversation or assistant message not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/chatbot/conversations/{id}/regenerate": {
+      post: {
+        summary: "Regenerate the last response",
+        description:
+          "Remove the last user message and the response to it, then process the message again. The previous history is restored if this fails.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        parameters: [
+          {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The new response",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/ChatResponse",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Conversation belongs to another user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Conversation or user message not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "429": {
+            description: "Token quota exceeded",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the quota resets",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "503": {
+            description: "LLM provider unavailable or circuit breaker open",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the request is worth retrying",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/chatbot/conversations/{id}/regenerate/stream": {
+      post: {
+        summary: "Regenerate the last response as a stream",
+        description:
+          "Remove the last user message and the response to it, then process the message again. The previous history is restored if this fails. Cancelling the request restores it too.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        parameters: [
+          {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description:
+              "Stream of `token` events followed by a final `done` event carrying the response and citations",
+            content: {
+              "text/event-stream": {
+                schema: {
+                  type: "string",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Conversation belongs to another user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Conversation or user message not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "429": {
+            description: "Token quota exceeded",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the quota resets",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "503": {
+            description: "LLM provider unavailable or circuit breaker open",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the request is worth retrying",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/chatbot/conversations/{id}/messages/{messageId}/edit": {
+      post: {
+        summary: "Edit a message and resend it",
+        description:
+          "Replace a user message and everything after it with the edited message, then process it. The previous history is restored if this fails.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        parameters: [
+          {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            in: "path",
+            name: "messageId",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: jsonBody("EditMessageRequest"),
+        responses: {
+          "200": {
+            description: "The new response",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/ChatResponse",
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Request validation failed",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Conversation belongs to another user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Conversation or user message not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "429": {
+            description: "Token quota exceeded",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the quota resets",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "503": {
+            description: "LLM provider unavailable or circuit breaker open",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the request is worth retrying",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/chatbot/conversations/{id}/messages/{messageId}/edit/stream": {
+      post: {
+        summary: "Edit a message and stream the new response",
+        description:
+          "Replace a user message and everything after it with the edited message, then process it. The previous history is restored if this fails. Cancelling the request restores it too.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        parameters: [
+          {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            in: "path",
+            name: "messageId",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: jsonBody("EditMessageRequest"),
+        responses: {
+          "200": {
+            description:
+              "Stream of `token` events followed by a final `done` event carrying the response and citations",
+            content: {
+              "text/event-stream": {
+                schema: {
+                  type: "string",
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Request validation failed",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Conversation belongs to another user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Conversation or user message not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "429": {
+            description: "Token quota exceeded",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the quota resets",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "503": {
+            description: "LLM provider unavailable or circuit breaker open",
+            headers: {
+              "Retry-After": {
+                description: "Seconds until the request is worth retrying",
+                schema: {
+                  type: "integer",
+                },
+              },
+            },
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/admin/users": {
+      get: {
+        summary: "List users",
+        description: "Returns every registered user. Requires the admin role.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        responses: {
+          "200": {
+            description: "List of users",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    users: {
+                      type: "array",
+                      items: {
+                        $ref: "#/components/schemas/User",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Admin role required",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/admin/users/{userId}/conversations": {
+      get: {
+        summary: "List a user's conversations",
+        description:
+          "Returns the conversations owned by any user. Requires the admin role.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        parameters: [
+          {
+            in: "path",
+            name: "userId",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "List of conversations",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    conversations: {
+                      type: "array",
+                      items: {
+                        $ref: "#/components/schemas/ConversationSummary",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Admin role required",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/admin/users/{userId}/conversations/{id}": {
+      get: {
+        summary: "Get a user's conversation",
+        description:
+          "Returns any user's conversation with its message history. Requires the admin role.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        parameters: [
+          {
+            in: "path",
+            name: "userId",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The conversation",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/Conversation",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Admin role required",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Conversation not found for this user",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/admin/feedback": {
+      get: {
+        summary: "Feedback report",
+        description:
+          "Ratings across all conversations by persona, with the most recent feedback and the trace of each rated response. Requires the admin role.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The feedback report",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/FeedbackReport",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Admin role required",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/admin/personas": {
+      get: {
+        summary: "List personas",
+        description:
+          "Returns every persona with its prompt and model settings. Requires the admin role.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        responses: {
+          "200": {
+            description: "List of personas",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    personas: {
+                      type: "array",
+                      items: {
+                        $ref: "#/components/schemas/Persona",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Admin role required",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        summary: "Create a persona",
+        description:
+          "Adds a persona conversations can be started with. Requires the admin role.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        requestBody: jsonBody("Persona"),
+        responses: {
+          "201": {
+            description: "The created persona",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/Persona",
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid persona",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Admin role required",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "409": {
+            description: "A persona with this ID already exists",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/admin/personas/{id}": {
+      get: {
+        summary: "Get a persona",
+        description:
+          "Returns a persona with its prompt and model settings. Requires the admin role.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        parameters: [
+          {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The persona",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/Persona",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Admin role required",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Persona not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+      put: {
+        summary: "Update a persona",
+        description:
+          "Replaces a persona's settings. Conversations already started keep their system prompt. Requires the admin role.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        parameters: [
+          {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        requestBody: jsonBody("PersonaUpdate"),
+        responses: {
+          "200": {
+            description: "The updated persona",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/Persona",
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid persona",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/ValidationProblem",
+                },
+              },
+            },
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Admin role required",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Persona not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        summary: "Delete a persona",
+        description:
+          "Deletes a persona. Its conversations continue with the default persona. Requires the admin role.",
+        security: [
+          {
+            bearerAuth: [],
+          },
+        ],
+        parameters: [
+          {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "204": {
+            description: "Persona deleted",
+          },
+          "401": {
+            description: "Unauthorized",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "403": {
+            description: "Admin role required",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Persona not found",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "409": {
+            description: "The default persona cannot be deleted",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Server error",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/chatbot/health": {
+      get: {
+        summary: "Check chatbot health",
+        description:
+          "Returns the health status of the chatbot service and the circuit breaker state of its LLM provider",
+        responses: {
+          "200": {
+            description:
+              "Service health; `degraded` while the LLM provider is failing",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/ChatbotHealth",
+                },
+              },
+            },
+          },
+          "500": {
+            description: "Service is unhealthy",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/metrics": {
+      servers: [
+        {
+          url: "/",
+        },
+      ],
+      get: {
+        summary: "Prometheus metrics",
+        description:
+          "Metrics in the Prometheus text format. Only available when OTEL_METRICS_EXPORTER is set to prometheus.",
+        responses: {
+          "200": {
+            description: "Current metric values",
+            content: {
+              "text/plain": {
+                schema: {
+                  type: "string",
+                },
+              },
+            },
+          },
+          "404": {
+            description: "Prometheus metrics are not enabled",
+            content: {
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/health/live": {
+      servers: [
+        {
+          url: "/",
+        },
+      ],
+      get: {
+        summary: "Liveness check",
+        description:
+          "Reports that the process is running and able to serve requests. Dependencies are not checked.",
+        responses: {
+          "200": {
+            description: "Process is alive",
+          },
+        },
+      },
+    },
+    "/health/ready": {
+      servers: [
+        {
+          url: "/",
+        },
+      ],
+      get: {
+        summary: "Readiness check",
+        description:
+          "Checks the LLM provider, conversation store, Key Vault and telemetry exporter and reports each component",
+        responses: {
+          "200": {
+            description: "Every critical component is up",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/ReadinessReport",
+                },
+              },
+            },
+          },
+          "503": {
+            description:
+              "A critical component is down, or the checks could not be run",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/ReadinessReport",
+                },
+              },
+              "application/problem+json": {
+                schema: {
+                  $ref: "#/components/schemas/Problem",
+                },
+              },
+            },
           },
         },
       },
     },
   },
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        bearerFormat: "JWT",
+      },
+    },
+    schemas: {
+      ...requestSchemas,
+      ...responseSchemas,
+    },
+  },
   security: [
     {
       bearerAuth: [],
@@ -0,0 +1,138 @@
+import {
+  authFetch,
+  getSession,
+  isTokenRejected,
+  needsRefresh,
+  Session,
+  SessionExpiredError,
+} from "../auth";
+
+const session = (overrides: Partial<Session> = {}): Session => ({
+  username: "alice",
+  token: "access-1",
+  refreshToken: "refresh-1",
+  expiresAt: Date.now() + 15 * 60 * 1000,
+  ...overrides,
+});
+
+const problem = (status: number, code: string): Response =>
+  new Response(JSON.stringify({ status, code }), {
+    status,
+    headers: { "Content-Type": "application/problem+json" },
+  });
+
+const tokens = (token: string): Response =>
+  new Response(
+    JSON.stringify({ token, refreshToken: `${token}-refresh`, expiresIn: 900 })
+  );
+
+describe("needsRefresh", () => {
+  const now = Date.parse("2024-01-01T00:00:00Z");
+
+  it("should refresh a token that expires within the margin", () => {
+    expect(needsRefresh(session({ expiresAt: now + 10_000 }), now)).toBe(true);
+    expect(needsRefresh(session({ expiresAt: now - 1 }), now)).toBe(true);
+  });
+
+  it("should keep a token that is still valid", () => {
+    expect(needsRefresh(session({ expiresAt: now + 60_000 }), now)).toBe(false);
+  });
+});
+
+describe("isTokenRejected", () => {
+  it("should treat a 401 as a rejected token", () => {
+    expect(isTokenRejected(401)).toBe(true);
+  });
+
+  it("should treat a 403 with invalid_token as a rejected token", () => {
+    expect(isTokenRejected(403, "invalid_token")).toBe(true);
+  });
+
+  it("should not treat other 403s as a rejected token", () => {
+    expect(isTokenRejected(403, "forbidden")).toBe(false);
+    expect(isTokenRejected(403)).toBe(false);
+    expect(isTokenRejected(404, "invalid_token")).toBe(false);
+  });
+});
+
+describe("authFetch", () => {
+  const originalFetch = globalThis.fetch;
+  let stored: Map<string, string>;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    stored = new Map();
+    fetchMock = jest.fn();
+
+    Object.assign(globalThis, {
+      localStorage: {
+        getItem: (key: string) => stored.get(key) ?? null,
+        setItem: (key: string, value: string) => stored.set(key, value),
+        removeItem: (key: string) => stored.delete(key),
+      },
+      fetch: fetchMock,
+    });
+
+    stored.set("chatbot.session", JSON.stringify(session()));
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(globalThis, "localStorage");
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should refresh once and retry when the token is rejected", async () => {
+    fetchMock
+      .mockResolvedValueOnce(problem(403, "invalid_token"))
+      .mockResolvedValueOnce(tokens("access-2"))
+      .mockResolvedValueOnce(new Response("[]"));
+
+    const response = await authFetch("/api/chatbot/conversations");
+
+    expect(response.status).toBe(200);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "/api/chatbot/conversations",
+      "/api/auth/refresh",
+      "/api/chatbot/conversations",
+    ]);
+    expect(fetchMock.mock.calls[2][1].headers.Authorization).toBe(
+      "Bearer access-2"
+    );
+    expect(getSession()).toMatchObject({ token: "access-2" });
+  });
+
+  it("should sign out when the refresh fails", async () => {
+    fetchMock
+      .mockResolvedValueOnce(problem(403, "invalid_token"))
+      .mockResolvedValueOnce(problem(401, "invalid_refresh_token"));
+
+    await expect(authFetch("/api/chatbot/conversations")).rejects.toThrow(
+      SessionExpiredError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getSession()).toBeNull();
+  });
+
+  it("should sign out when the refreshed token is rejected too", async () => {
+    fetchMock
+      .mockResolvedValueOnce(problem(401, "unauthorized"))
+      .mockResolvedValueOnce(tokens("access-2"))
+      .mockResolvedValueOnce(problem(403, "invalid_token"));
+
+    await expect(authFetch("/api/chatbot/conversations")).rejects.toThrow(
+      SessionExpiredError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(getSession()).toBeNull();
+  });
+
+  it("should return other 403s without refreshing", async () => {
+    fetchMock.mockResolvedValueOnce(problem(403, "forbidden"));
+
+    const response = await authFetch("/api/chatbot/conversations/other");
+
+    expect(response.status).toBe(403);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getSession()).toMatchObject({ token: "access-1" });
+  });
+});
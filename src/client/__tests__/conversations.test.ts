@@ -0,0 +1,45 @@
+import { toChatMessage } from "../conversations";
+
+describe("toChatMessage", () => {
+  it("should keep the time, citations and rating of a stored reply", () => {
+    const citation = {
+      id: "doc-1",
+      title: "Returns policy",
+      source: "catalog",
+      score: 0.82,
+    };
+
+    expect(
+      toChatMessage({
+        id: "message-2",
+        role: "assistant",
+        content: "You can return it within 30 days.",
+        feedback: { rating: "up" },
+        createdAt: "2024-01-01T10:30:00.000Z",
+        citations: [citation],
+      })
+    ).toEqual({
+      id: "message-2",
+      text: "You can return it within 30 days.",
+      sender: "bot",
+      rating: "up",
+      sentAt: new Date("2024-01-01T10:30:00.000Z"),
+      citations: [citation],
+    });
+  });
+
+  it("should leave out the time of messages stored without one", () => {
+    const message = toChatMessage({
+      id: "message-1",
+      role: "user",
+      content: "Can I return this?",
+    });
+
+    expect(message).toMatchObject({
+      sender: "user",
+      text: "Can I return this?",
+    });
+    expect(message.sentAt).toBeUndefined();
+    expect(message.citations).toBeUndefined();
+  });
+});
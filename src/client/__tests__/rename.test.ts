@@ -0,0 +1,42 @@
+import { createRenameTracker } from "../rename";
+
+describe("createRenameTracker", () => {
+  it("should hand out a started rename with the trimmed title", () => {
+    const tracker = createRenameTracker();
+    tracker.start("conversation-1");
+
+    expect(tracker.commit("  Trip plans ")).toEqual({
+      id: "conversation-1",
+      title: "Trip plans",
+    });
+  });
+
+  it("should only hand out each rename once", () => {
+    const tracker = createRenameTracker();
+    tracker.start("conversation-1");
+
+    // Submitting, then the blur from the input unmounting
+    expect(tracker.commit("Trip plans")).toBeDefined();
+    expect(tracker.commit("Trip plans")).toBeUndefined();
+  });
+
+  it("should not rename after the rename is cancelled", () => {
+    const tracker = createRenameTracker();
+    tracker.start("conversation-1");
+    tracker.cancel();
+
+    expect(tracker.commit("Trip plans")).toBeUndefined();
+  });
+
+  it("should drop a blank title but still finish the rename", () => {
+    const tracker = createRenameTracker();
+    tracker.start("conversation-1");
+
+    expect(tracker.commit("   ")).toBeUndefined();
+    tracker.start("conversation-2");
+    expect(tracker.commit("Recipes")).toEqual({
+      id: "conversation-2",
+      title: "Recipes",
+    });
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Client side session handling: stores the tokens from /api/auth, refreshes
+ * the access token before it expires or when the API rejects it, and signs
+ * the user out when the refreshed token is rejected too.
+ */
+
+export interface Session {
+  username: string;
+  token: string;
+  refreshToken: string;
+  expiresAt: number; // Epoch milliseconds when the access token expires
+}
+
+interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+}
+
+const STORAGE_KEY = "chatbot.session";
+
+// Refresh this long before the access token expires to allow for clock skew
+const EXPIRY_MARGIN_MS = 30_000;
+
+// Problem codes of a 403 that mean the token itself was rejected, as
+// opposed to the user not being allowed to do something
+const INVALID_TOKEN_CODES = ["invalid_token"];
+
+type SessionListener = (session: Session | null) => void;
+
+const listeners = new Set<SessionListener>();
+let refreshing: Promise<Session | null> | null = null;
+
+/**
+ * Thrown when the request could not be made because the user is signed out
+ */
+export class SessionExpiredError extends Error {
+  constructor() {
+    super("Your session has expired. Please sign in again.");
+    this.name = "SessionExpiredError";
+  }
+}
+
+/**
+ * Read the message to show for a failed API call from its problem details
+ */
+export const getErrorMessage = async (response: Response): Promise<string> => {
+  try {
+    const problem = await response.json();
+    const details: { field: string; message: string }[] = problem.details ?? [];
+
+    if (details.length > 0) {
+      return details
+        .map((issue) => `${issue.field} ${issue.message}`)
+        .join(", ");
+    }
+
+    return problem.detail ?? `Request failed (${response.status})`;
+  } catch {
+    return `Request failed (${response.status})`;
+  }
+};
+
+export const getSession = (): Session | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Session) : null;
+  } catch {
+    return null;
+  }
+};
+
+const setSession = (session: Session | null): void => {
+  if (session) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  listeners.forEach((listener) => listener(session));
+};
+
+const toSession = (username: string, tokens: AuthTokens): Session => ({
+  username,
+  token: tokens.token,
+  refreshToken: tokens.refreshToken,
+  expiresAt: Date.now() + tokens.expiresIn * 1000,
+});
+
+/**
+ * Be told whenever the user signs in or out, e.g. because the session
+ * expired. Returns a function that stops the notifications.
+ */
+export const onSessionChange = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const login = async (
+  username: string,
+  password: string
+): Promise<Session> => {
+  const response = await fetch("/api/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response));
+  }
+
+  const session = toSession(username, await response.json());
+  setSession(session);
+
+  return session;
+};
+
+/**
+ * Create an account and sign in with it
+ */
+export const register = async (
+  username: string,
+  password: string
+): Promise<Session> => {
+  const response = await fetch("/api/auth/register", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response));
+  }
+
+  return login(username, password);
+};
+
+/**
+ * Revoke the tokens on the server and forget them. The local session is
+ * cleared even if the server can't be reached.
+ */
+export const logout = async (): Promise<void> => {
+  const session = getSession();
+
+  if (session) {
+    try {
+      await fetch("/api/auth/logout", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.token}`,
+        },
+        body: JSON.stringify({ refreshToken: session.refreshToken }),
+      });
+    } catch (error) {
+      console.error("Error logging out:", error);
+    }
+  }
+
+  setSession(null);
+};
+
+/**
+ * Swap the refresh token for a new access token. Concurrent callers share
+ * one refresh, as each refresh token can only be used once.
+ */
+const refreshSession = (session: Session): Promise<Session | null> => {
+  if (!refreshing) {
+    refreshing = fetch("/api/auth/refresh", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken: session.refreshToken }),
+    })
+      .then(async (response) => {
+        const refreshed = response.ok
+          ? toSession(session.username, await response.json())
+          : null;
+        setSession(refreshed);
+        return refreshed;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+
+  return refreshing;
+};
+
+/**
+ * Whether the access token should be refreshed before it is next used
+ */
+export const needsRefresh = (session: Session, now = Date.now()): boolean =>
+  session.expiresAt - EXPIRY_MARGIN_MS <= now;
+
+/**
+ * Whether a response rejected the token rather than the request: any 401,
+ * or a 403 whose problem code says the token is invalid
+ */
+export const isTokenRejected = (
+  status: number,
+  problemCode?: string
+): boolean =>
+  status === 401 ||
+  (status === 403 &&
+    problemCode !== undefined &&
+    INVALID_TOKEN_CODES.includes(problemCode));
+
+const getProblemCode = async (
+  response: Response
+): Promise<string | undefined> => {
+  try {
+    const problem = await response.clone().json();
+    return typeof problem.code === "string" ? problem.code : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const isRejected = async (response: Response): Promise<boolean> =>
+  isTokenRejected(
+    response.status,
+    response.status === 403 ? await getProblemCode(response) : undefined
+  );
+
+/**
+ * Get a new access token after the API rejected the one in `rejected`. If
+ * another request has refreshed it in the meantime that token is used, as
+ * the old refresh token has already been spent.
+ */
+const refreshRejected = async (rejected: Session): Promise<Session | null> => {
+  const current = getSession();
+
+  if (!current || current.token !== rejected.token) {
+    return current;
+  }
+
+  return refreshSession(current);
+};
+
+/**
+ * Call the API as the signed in user, refreshing the access token first
+ * if it has expired. When the API rejects the token (a 401, or a 403 with
+ * `invalid_token`) it is refreshed once and the request retried; the user
+ * is signed out only if that fails too. Other 403s are returned like any
+ * failed request.
+ */
+export const authFetch = async (
+  input: string,
+  init: RequestInit = {}
+): Promise<Response> => {
+  let session = getSession();
+
+  if (session && needsRefresh(session)) {
+    session = await refreshSession(session);
+  }
+
+  if (!session) {
+    setSession(null);
+    throw new SessionExpiredError();
+  }
+
+  const send = (token: string) =>
+    fetch(input, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${token}` },
+    });
+
+  let response = await send(session.token);
+
+  if (await isRejected(response)) {
+    const refreshed = await refreshRejected(session);
+
+    if (refreshed) {
+      response = await send(refreshed.token);
+    }
+
+    if (!refreshed || (await isRejected(response))) {
+      setSession(null);
+      throw new SessionExpiredError();
+    }
+  }
+
+  return response;
+};
@@ -0,0 +1,158 @@
+import type { Message } from "../components/ChatMessages";
+import { authFetch, getErrorMessage } from "./auth";
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type Rating = "up" | "down";
+
+export interface ConversationDetail extends ConversationSummary {
+  messages: {
+    id?: string;
+    role: "user" | "assistant";
+    content: string;
+    feedback?: { rating: Rating; comment?: string };
+    createdAt?: string;
+    citations?: { id: string; title: string; source: string; score: number }[];
+  }[];
+}
+
+/**
+ * Turn a stored message into one for the chat window. Messages stored
+ * before timestamps and citations were kept have neither.
+ */
+export const toChatMessage = (
+  message: ConversationDetail["messages"][number]
+): Message => ({
+  id: message.id,
+  text: message.content,
+  sender: message.role === "user" ? "user" : "bot",
+  rating: message.feedback?.rating,
+  sentAt: message.createdAt ? new Date(message.createdAt) : undefined,
+  citations: message.citations,
+});
+
+const BASE_PATH = "/api/chatbot/conversations";
+const URL_PREFIX = "/conversations/";
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await authFetch(path, init);
+
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response));
+  }
+
+  return (response.status === 204 ? undefined : await response.json()) as T;
+};
+
+export const listConversations = async (): Promise<ConversationSummary[]> =>
+  (await request<{ conversations: ConversationSummary[] }>(BASE_PATH))
+    .conversations;
+
+/**
+ * Load a conversation with its history, or undefined if it no longer exists
+ * or belongs to someone else
+ */
+export const getConversation = async (
+  id: string
+): Promise<ConversationDetail | undefined> => {
+  const response = await authFetch(`${BASE_PATH}/${encodeURIComponent(id)}`);
+
+  if (response.status === 404 || response.status === 403) {
+    return undefined;
+  }
+
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response));
+  }
+
+  return response.json();
+};
+
+export const renameConversation = (
+  id: string,
+  title: string
+): Promise<ConversationSummary> =>
+  request(`${BASE_PATH}/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ title }),
+  });
+
+export const deleteConversation = (id: string): Promise<void> =>
+  request(`${BASE_PATH}/${encodeURIComponent(id)}`, { method: "DELETE" });
+
+/**
+ * Rate an assistant message, replacing any earlier rating
+ */
+export const sendFeedback = async (
+  conversationId: string,
+  messageId: string,
+  rating: Rating,
+  comment?: string
+): Promise<void> => {
+  await request(
+    `${BASE_PATH}/${encodeURIComponent(
+      conversationId
+    )}/messages/${encodeURIComponent(messageId)}/feedback`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rating, ...(comment && { comment }) }),
+    }
+  );
+};
+
+/**
+ * Streaming endpoint for a new response to the last user message
+ */
+export const getRegeneratePath = (conversationId: string): string =>
+  `${BASE_PATH}/${encodeURIComponent(conversationId)}/regenerate/stream`;
+
+/**
+ * Streaming endpoint replacing a user message and everything after it
+ */
+export const getEditPath = (
+  conversationId: string,
+  messageId: string
+): string =>
+  `${BASE_PATH}/${encodeURIComponent(
+    conversationId
+  )}/messages/${encodeURIComponent(messageId)}/edit/stream`;
+
+/**
+ * The conversation open in the current URL, e.g. /conversations/<id>
+ */
+export const getConversationIdFromUrl = (): string | null => {
+  const { pathname } = window.location;
+
+  return pathname.startsWith(URL_PREFIX)
+    ? decodeURIComponent(pathname.slice(URL_PREFIX.length)) || null
+    : null;
+};
+
+/**
+ * Show the open conversation in the URL so it can be bookmarked. Replacing
+ * the entry avoids a history step when a new chat is given its ID.
+ */
+export const setConversationUrl = (
+  id: string | null,
+  replace = false
+): void => {
+  const url = id ? `${URL_PREFIX}${encodeURIComponent(id)}` : "/";
+
+  if (url === window.location.pathname) {
+    return;
+  }
+
+  if (replace) {
+    window.history.replaceState(null, "", url);
+  } else {
+    window.history.pushState(null, "", url);
+  }
+};
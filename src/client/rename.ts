@@ -0,0 +1,29 @@
+/**
+ * Tracks the conversation being renamed in the sidebar. Submitting a
+ * rename unmounts its input, which blurs it and commits a second time, so
+ * each started rename is handed out at most once.
+ */
+export interface RenameTracker {
+  start: (id: string) => void;
+  cancel: () => void;
+  // The rename to send, if one is pending and the title isn't blank
+  commit: (title: string) => { id: string; title: string } | undefined;
+}
+
+export const createRenameTracker = (): RenameTracker => {
+  let pending: string | null = null;
+
+  return {
+    start: (id) => {
+      pending = id;
+    },
+    cancel: () => {
+      pending = null;
+    },
+    commit: (title) => {
+      const id = pending;
+      pending = null;
+      return id && title.trim() ? { id, title: title.trim() } : undefined;
+    },
+  };
+};
@@ -1,8 +1,50 @@
-import React from "react";
+import React, { useState, useEffect } from "react";
 import ChatApp from "./ChatApp";
+import ChatHeader from "./ChatHeader";
+import LoginForm from "./LoginForm";
+import { getSession, logout, onSessionChange, Session } from "../client/auth";
 
 const App: React.FC = () => {
-  return <ChatApp />;
+  const [session, setSession] = useState<Session | null>(getSession);
+  const [notice, setNotice] = useState<string | undefined>();
+
+  // Follow sign ins, and sign outs caused by the API rejecting the token
+  useEffect(
+    () =>
+      onSessionChange((next) => {
+        // Signing out through the header clears this again in handleLogout
+        if (!next) {
+          setNotice("You have been signed out. Please sign in again.");
+        }
+        setSession(next);
+      }),
+    []
+  );
+
+  const handleLogout = async () => {
+    await logout();
+    setNotice(undefined);
+  };
+
+  if (!session) {
+    return (
+      <div className="container">
+        <div className="chat-container">
+          <ChatHeader />
+          <LoginForm notice={notice} />
+        </div>
+      </div>
+    );
+  }
+
+  // Keyed by user so signing in as someone else starts a fresh chat
+  return (
+    <ChatApp
+      key={session.username}
+      username={session.username}
+      onLogout={handleLogout}
+    />
+  );
 };
 
 export default App;
@@ -1,71 +1,388 @@
 import React, { useState, useRef, useEffect } from "react";
 import ChatHeader from "./ChatHeader";
-import ChatMessages from "./ChatMessages";
+import ChatMessages, { Message } from "./ChatMessages";
+import { Citation } from "./CitationList";
 import ChatInput from "./ChatInput";
 import StatusBar from "./StatusBar";
+import ConversationSidebar from "./ConversationSidebar";
+import {
+  authFetch,
+  getErrorMessage,
+  SessionExpiredError,
+} from "../client/auth";
+import {
+  ConversationSummary,
+  deleteConversation,
+  getConversation,
+  getConversationIdFromUrl,
+  getEditPath,
+  getRegeneratePath,
+  listConversations,
+  Rating,
+  renameConversation,
+  sendFeedback,
+  setConversationUrl,
+  toChatMessage,
+} from "../client/conversations";
 import "../styles/ChatApp.css";
 
-interface Message {
-  text: string;
-  sender: "user" | "bot";
+const WELCOME_MESSAGE: Message = {
+  text: "Hello! I'm your retail assistant. How can I help you today?",
+  sender: "bot",
+};
+
+interface ChatAppProps {
+  username: string;
+  onLogout: () => void;
 }
 
-const ChatApp: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      text: "Hello! I'm your retail assistant. How can I help you today?",
-      sender: "bot",
-    },
-  ]);
+// Events sent by the streaming chat endpoints
+type StreamEvent =
+  | { event: "token"; data: { content: string } }
+  | {
+      event: "done";
+      data: {
+        response: string;
+        conversationId: string;
+        userMessageId: string;
+        messageId: string;
+        citations: Citation[];
+      };
+    }
+  | { event: "error"; data: { detail?: string } };
+
+// Parse a single Server-Sent Event block into its name and JSON payload
+const parseEvent = (rawEvent: string): { event: string; data: unknown } => {
+  let event = "message";
+  let data = "";
+
+  for (const line of rawEvent.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice("event:".length).trim();
+    } else if (line.startsWith("data:")) {
+      data += line.slice("data:".length).trim();
+    }
+  }
+
+  return { event, data: data ? JSON.parse(data) : {} };
+};
+
+// Check a parsed event against the payload its name promises, so unknown
+// or malformed events are skipped
+const toStreamEvent = ({
+  event,
+  data,
+}: {
+  event: string;
+  data: unknown;
+}): StreamEvent | undefined => {
+  if (typeof data !== "object" || data === null) return undefined;
+
+  const fields = data as Record<string, unknown>;
+
+  if (event === "token" && typeof fields.content === "string") {
+    return { event, data: { content: fields.content } };
+  }
+
+  if (
+    event === "done" &&
+    typeof fields.response === "string" &&
+    typeof fields.conversationId === "string" &&
+    typeof fields.userMessageId === "string" &&
+    typeof fields.messageId === "string" &&
+    Array.isArray(fields.citations)
+  ) {
+    return {
+      event,
+      data: {
+        response: fields.response,
+        conversationId: fields.conversationId,
+        userMessageId: fields.userMessageId,
+        messageId: fields.messageId,
+        citations: fields.citations as Citation[],
+      },
+    };
+  }
+
+  if (event === "error") {
+    return {
+      event,
+      data: {
+        detail: typeof fields.detail === "string" ? fields.detail : undefined,
+      },
+    };
+  }
+
+  return undefined;
+};
+
+const ChatApp: React.FC<ChatAppProps> = ({ username, onLogout }) => {
+  const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [statusText, setStatusText] = useState<string>("Connected");
   const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [editing, setEditing] = useState<Message | null>(null);
+  const [abortController, setAbortController] =
+    useState<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // The conversation most recently asked for, so slower loads are ignored
+  const requestedIdRef = useRef<string | null>(null);
+
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
+  // Open the conversation in the URL, and follow back/forward navigation
+  useEffect(() => {
+    const openFromUrl = () => openConversation(getConversationIdFromUrl());
+
+    refreshConversations();
+    openFromUrl();
+
+    window.addEventListener("popstate", openFromUrl);
+    return () => window.removeEventListener("popstate", openFromUrl);
+  }, []);
+
+  const refreshConversations = async () => {
+    try {
+      setConversations(await listConversations());
+    } catch (error) {
+      if (!(error instanceof SessionExpiredError)) {
+        console.error("Error loading conversations:", error);
+      }
+    }
+  };
+
+  /**
+   * Show a conversation with its history, or a new chat when id is null
+   */
+  const openConversation = async (id: string | null) => {
+    requestedIdRef.current = id;
+    setEditing(null);
+
+    if (!id) {
+      setConversationId(null);
+      setMessages([WELCOME_MESSAGE]);
+      setConversationUrl(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setStatusText("Loading conversation...");
+
+    try {
+      const conversation = await getConversation(id);
+
+      if (requestedIdRef.current !== id) return;
+
+      if (!conversation) {
+        // Deleted, expired or a stale bookmark
+        setConversationId(null);
+        setMessages([WELCOME_MESSAGE]);
+        setConversationUrl(null, true);
+        setStatusText("Conversation not found");
+        return;
+      }
+
+      setConversationId(id);
+      setMessages(conversation.messages.map(toChatMessage));
+      setConversationUrl(id);
+      setStatusText("Connected");
+    } catch (error) {
+      if (!(error instanceof SessionExpiredError)) {
+        console.error("Error loading conversation:", error);
+        setStatusText("Error occurred");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectConversation = (id: string | null) => {
+    // Switching mid-response would stream into the wrong chat
+    if (!isLoading && id !== conversationId) {
+      openConversation(id);
+    }
+  };
+
+  const handleRename = async (id: string, title: string) => {
+    try {
+      await renameConversation(id, title);
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+      setStatusText("Error occurred");
+    }
+
+    refreshConversations();
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteConversation(id);
+
+      if (id === conversationId) {
+        openConversation(null);
+      }
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      setStatusText("Error occurred");
+    }
+
+    refreshConversations();
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
-  const sendMessage = async (message: string) => {
-    if (!message.trim()) return;
+  const handleFeedback = async (
+    message: Message,
+    rating: Rating,
+    comment?: string
+  ) => {
+    if (!conversationId || !message.id) return;
+
+    try {
+      await sendFeedback(conversationId, message.id, rating, comment);
 
+      setMessages((prev) =>
+        prev.map((candidate) =>
+          candidate.id === message.id ? { ...candidate, rating } : candidate
+        )
+      );
+    } catch (error) {
+      if (!(error instanceof SessionExpiredError)) {
+        console.error("Error sending feedback:", error);
+        setStatusText("Error occurred");
+      }
+    }
+  };
+
+  const updateLastMessage = (update: (last: Message) => Partial<Message>) => {
+    setMessages((prev) => {
+      const last = prev[prev.length - 1];
+      return [...prev.slice(0, -1), { ...last, ...update(last) }];
+    });
+  };
+
+  /**
+   * Show the user's message after the given history and stream the response
+   * to it from the API
+   */
+  const streamResponse = async (
+    history: Message[],
+    message: string,
+    path: string,
+    body?: object
+  ) => {
     // Add user message to UI
-    setMessages((prev) => [...prev, { text: message, sender: "user" }]);
+    setMessages([
+      ...history,
+      { text: message, sender: "user", sentAt: new Date() },
+    ]);
 
     // Set loading state
     setIsLoading(true);
     setStatusText("Thinking...");
 
+    // Closing the request makes the server abort the response
+    const controller = new AbortController();
+    setAbortController(controller);
+
     try {
-      // Send message to API
-      const response = await fetch("/api/chatbot/chat", {
+      // Send message to the streaming API
+      const response = await authFetch(path, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          message,
-          ...(conversationId && { conversationId }),
-        }),
+        body: body && JSON.stringify(body),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
+        throw new Error(await getErrorMessage(response));
+      }
+
+      if (!response.body) {
         throw new Error(`API error: ${response.status}`);
       }
 
-      const data = await response.json();
+      // Add an empty bot message that is filled in as tokens arrive
+      setMessages((prev) => [
+        ...prev,
+        { text: "", sender: "bot", sentAt: new Date() },
+      ]);
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line
+        const events = buffer.split("\n\n");
+        buffer = events.pop() ?? "";
+
+        for (const rawEvent of events) {
+          const parsed = toStreamEvent(parseEvent(rawEvent));
+
+          if (parsed?.event === "token") {
+            const { content } = parsed.data;
+            setStatusText("Responding...");
+            updateLastMessage((last) => ({ text: last.text + content }));
+          } else if (parsed?.event === "done") {
+            const { data } = parsed;
+
+            // Both messages of the exchange get their IDs once it is saved,
+            // and the reply shows the saved answer without any text streamed
+            // before a tool call
+            setMessages((prev) => {
+              const [prompt, reply] = prev.slice(-2);
+              return [
+                ...prev.slice(0, -2),
+                { ...prompt, id: data.userMessageId },
+                {
+                  ...reply,
+                  id: data.messageId,
+                  text: data.response,
+                  citations: data.citations,
+                },
+              ];
+            });
 
-      // Add bot response to UI
-      setMessages((prev) => [...prev, { text: data.response, sender: "bot" }]);
+            // Update conversation ID for future messages
+            requestedIdRef.current = data.conversationId;
+            setConversationId(data.conversationId);
+            setConversationUrl(data.conversationId, true);
+          } else if (parsed?.event === "error") {
+            throw new Error(parsed.data.detail ?? "The response failed");
+          }
+        }
+      }
 
-      // Update conversation ID for future messages
-      setConversationId(data.conversationId);
       setStatusText("Connected");
+      refreshConversations();
     } catch (error) {
+      // The app returns to the login screen
+      if (error instanceof SessionExpiredError) {
+        return;
+      }
+
+      if (controller.signal.aborted) {
+        // Nothing is saved for a stopped response and an edited or
+        // regenerated history is put back, so show what was there before
+        setMessages(messages);
+        setStatusText("Response stopped");
+        return;
+      }
+
       console.error("Error sending message:", error);
 
       // Show error in UI
@@ -74,22 +391,99 @@ const ChatApp: React.FC = () => {
         {
           text: "Sorry, I encountered an error. Please try again.",
           sender: "bot",
+          sentAt: new Date(),
         },
       ]);
 
       setStatusText("Error occurred");
     } finally {
+      setAbortController(null);
       setIsLoading(false);
     }
   };
 
+  const sendMessage = async (message: string) => {
+    if (!message.trim()) return;
+
+    if (editing) {
+      return resendMessage(editing, message);
+    }
+
+    await streamResponse(messages, message, "/api/chatbot/chat/stream", {
+      message,
+      ...(conversationId && { conversationId }),
+    });
+  };
+
+  /**
+   * Replace an earlier message, and everything after it, with the edit
+   */
+  const resendMessage = async (original: Message, message: string) => {
+    setEditing(null);
+
+    const index = messages.findIndex(
+      (candidate) => candidate.id === original.id
+    );
+    if (!conversationId || !original.id || index === -1) return;
+
+    await streamResponse(
+      messages.slice(0, index),
+      message,
+      getEditPath(conversationId, original.id),
+      { message }
+    );
+  };
+
+  /**
+   * Replace the last response with a new one to the same message
+   */
+  const regenerateResponse = async () => {
+    setEditing(null);
+
+    const index = messages.map((message) => message.sender).lastIndexOf("user");
+    if (!conversationId || index === -1) return;
+
+    await streamResponse(
+      messages.slice(0, index),
+      messages[index].text,
+      getRegeneratePath(conversationId)
+    );
+  };
+
   return (
     <div className="container">
-      <div className="chat-container">
-        <ChatHeader />
-        <ChatMessages messages={messages} messagesEndRef={messagesEndRef} />
-        <StatusBar statusText={statusText} isLoading={isLoading} />
-        <ChatInput onSendMessage={sendMessage} isLoading={isLoading} />
+      <div className="chat-container with-sidebar">
+        <ChatHeader username={username} onLogout={onLogout} />
+        <div className="chat-body">
+          <ConversationSidebar
+            conversations={conversations}
+            activeId={conversationId}
+            onSelect={selectConversation}
+            onNewChat={() => selectConversation(null)}
+            onRename={handleRename}
+            onDelete={handleDelete}
+          />
+          <div className="chat-main">
+            <ChatMessages
+              messages={messages}
+              messagesEndRef={messagesEndRef}
+              onFeedback={handleFeedback}
+              onEdit={setEditing}
+              onRegenerate={regenerateResponse}
+              isLoading={isLoading}
+            />
+            <StatusBar statusText={statusText} isLoading={isLoading} />
+            <ChatInput
+              onSendMessage={sendMessage}
+              isLoading={isLoading}
+              onStop={
+                abortController ? () => abortController.abort() : undefined
+              }
+              editText={editing?.text}
+              onCancelEdit={() => setEditing(null)}
+            />
+          </div>
+        </div>
       </div>
     </div>
   );
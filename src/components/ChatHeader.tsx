@@ -1,7 +1,28 @@
 import React from "react";
 
-const ChatHeader: React.FC = () => {
-  return <div className="chat-header">PH Observability Chatbot</div>;
+interface ChatHeaderProps {
+  username?: string;
+  onLogout?: () => void;
+}
+
+const ChatHeader: React.FC<ChatHeaderProps> = ({ username, onLogout }) => {
+  return (
+    <div className="chat-header">
+      <span>PH Observability Chatbot</span>
+      {username && onLogout && (
+        <span className="chat-header-user">
+          {username}
+          <button
+            type="button"
+            className="btn btn-sm btn-outline-light"
+            onClick={onLogout}
+          >
+            Log out
+          </button>
+        </span>
+      )}
+    </div>
+  );
 };
 
 export default ChatHeader;
@@ -1,12 +1,31 @@
-import React, { useState, FormEvent } from "react";
+import React, { useState, useEffect, useRef, FormEvent } from "react";
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void;
   isLoading: boolean;
+  onStop?: () => void; // Only given while a response is streaming
+  editText?: string; // Text of the message being edited, if any
+  onCancelEdit: () => void;
 }
 
-const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
+const ChatInput: React.FC<ChatInputProps> = ({
+  onSendMessage,
+  isLoading,
+  onStop,
+  editText,
+  onCancelEdit,
+}) => {
   const [message, setMessage] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isEditing = editText !== undefined;
+
+  // Start from the text of the message being edited
+  useEffect(() => {
+    if (editText !== undefined) {
+      setMessage(editText);
+      inputRef.current?.focus();
+    }
+  }, [editText]);
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
@@ -16,24 +35,51 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
     }
   };
 
+  const handleCancel = () => {
+    setMessage("");
+    onCancelEdit();
+  };
+
   return (
-    <div className="chat-input">
+    <div className={`chat-input${isEditing ? " editing" : ""}`}>
       <form id="chatForm" onSubmit={handleSubmit}>
         <input
+          ref={inputRef}
           type="text"
           value={message}
           onChange={(e) => setMessage(e.target.value)}
-          placeholder="Type your message..."
+          placeholder={
+            isEditing ? "Edit your message..." : "Type your message..."
+          }
           disabled={isLoading}
           autoComplete="off"
         />
-        <button
-          type="submit"
-          className="btn btn-primary"
-          disabled={!message.trim() || isLoading}
-        >
-          Send
-        </button>
+        {isEditing && !isLoading && (
+          <button
+            type="button"
+            className="btn btn-outline-secondary"
+            onClick={handleCancel}
+          >
+            Cancel
+          </button>
+        )}
+        {onStop ? (
+          <button
+            type="button"
+            className="btn btn-outline-danger"
+            onClick={onStop}
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={!message.trim() || isLoading}
+          >
+            {isEditing ? "Resend" : "Send"}
+          </button>
+        )}
       </form>
     </div>
   );
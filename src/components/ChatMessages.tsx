@@ -1,18 +1,39 @@
 import React from "react";
+import Markdown from "./Markdown";
+import CopyButton from "./CopyButton";
+import CitationList, { Citation } from "./CitationList";
+import FeedbackControls from "./FeedbackControls";
+import { Rating } from "../client/conversations";
 
-interface Message {
+export interface Message {
+  id?: string; // Assigned by the server once a response completes
   text: string;
   sender: "user" | "bot";
+  sentAt?: Date; // Unknown for messages stored before timestamps were kept
+  citations?: Citation[];
+  rating?: Rating;
 }
 
 interface ChatMessagesProps {
   messages: Message[];
   messagesEndRef: React.RefObject<HTMLDivElement | null>;
+  onFeedback: (
+    message: Message,
+    rating: Rating,
+    comment?: string
+  ) => Promise<void>;
+  onEdit: (message: Message) => void;
+  onRegenerate: () => void;
+  isLoading: boolean;
 }
 
 const ChatMessages: React.FC<ChatMessagesProps> = ({
   messages,
   messagesEndRef,
+  onFeedback,
+  onEdit,
+  onRegenerate,
+  isLoading,
 }) => {
   return (
     <div className="chat-messages" id="chatMessages">
@@ -23,7 +44,54 @@ const ChatMessages: React.FC<ChatMessagesProps> = ({
             message.sender === "user" ? "user-message" : "bot-message"
           }`}
         >
-          {message.text}
+          {message.sender === "bot" ? (
+            <Markdown text={message.text} />
+          ) : (
+            <div className="message-text">{message.text}</div>
+          )}
+          {message.citations && message.citations.length > 0 && (
+            <CitationList citations={message.citations} />
+          )}
+          <div className="message-meta">
+            {message.sentAt && (
+              <time dateTime={message.sentAt.toISOString()}>
+                {message.sentAt.toLocaleTimeString([], {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </time>
+            )}
+            {message.text && <CopyButton getText={() => message.text} />}
+            {message.sender === "user" && message.id && !isLoading && (
+              <button
+                type="button"
+                className="message-action"
+                onClick={() => onEdit(message)}
+              >
+                Edit
+              </button>
+            )}
+            {message.sender === "bot" &&
+              message.id &&
+              !isLoading &&
+              index === messages.length - 1 && (
+                <button
+                  type="button"
+                  className="message-action"
+                  onClick={onRegenerate}
+                >
+                  Regenerate
+                </button>
+              )}
+            {message.sender === "bot" && message.id && (
+              <FeedbackControls
+                rating={message.rating}
+                onSubmit={(rating, comment) =>
+                  onFeedback(message, rating, comment)
+                }
+              />
+            )}
+          </div>
         </div>
       ))}
       <div ref={messagesEndRef} />
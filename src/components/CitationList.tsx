@@ -0,0 +1,32 @@
+import React from "react";
+
+export interface Citation {
+  id: string;
+  title: string;
+  source: string;
+  score: number;
+}
+
+interface CitationListProps {
+  citations: Citation[];
+}
+
+const CitationList: React.FC<CitationListProps> = ({ citations }) => {
+  return (
+    <div className="citations">
+      <span className="citations-label">Sources</span>
+      {citations.map((citation) => (
+        <span
+          key={citation.id}
+          className="citation-chip"
+          title={`${citation.source} (relevance ${citation.score.toFixed(2)})`}
+        >
+          {citation.title}
+          <span className="citation-id">{citation.id}</span>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default CitationList;
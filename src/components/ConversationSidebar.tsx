@@ -0,0 +1,128 @@
+import React, { useState, FormEvent } from "react";
+import { ConversationSummary } from "../client/conversations";
+import { createRenameTracker } from "../client/rename";
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNewChat: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdatedAt = (updatedAt: string): string => {
+  const date = new Date(updatedAt);
+
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString();
+};
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeId,
+  onSelect,
+  onNewChat,
+  onRename,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+  const [rename] = useState(createRenameTracker);
+
+  const startRename = (conversation: ConversationSummary) => {
+    rename.start(conversation.id);
+    setEditingId(conversation.id);
+    setTitle(conversation.title);
+  };
+
+  const cancelRename = () => {
+    rename.cancel();
+    setEditingId(null);
+  };
+
+  const handleRename = (e: FormEvent) => {
+    e.preventDefault();
+    const renamed = rename.commit(title);
+    if (renamed) {
+      onRename(renamed.id, renamed.title);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: ConversationSummary) => {
+    if (window.confirm(`Delete "${conversation.title}"?`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <div className="conversation-sidebar">
+      <button
+        type="button"
+        className="btn btn-primary btn-sm new-chat"
+        onClick={onNewChat}
+      >
+        New chat
+      </button>
+      <ul>
+        {conversations.map((conversation) => (
+          <li
+            key={conversation.id}
+            className={conversation.id === activeId ? "active" : undefined}
+          >
+            {editingId === conversation.id ? (
+              <form onSubmit={handleRename}>
+                <input
+                  type="text"
+                  className="form-control form-control-sm"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  onBlur={handleRename}
+                  onKeyDown={(e) => e.key === "Escape" && cancelRename()}
+                  maxLength={200}
+                  autoFocus
+                />
+              </form>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  className="conversation-link"
+                  onClick={() => onSelect(conversation.id)}
+                  title={conversation.title}
+                >
+                  <span className="conversation-title">
+                    {conversation.title}
+                  </span>
+                  <span className="conversation-updated">
+                    {formatUpdatedAt(conversation.updatedAt)}
+                  </span>
+                </button>
+                <span className="conversation-actions">
+                  <button
+                    type="button"
+                    onClick={() => startRename(conversation)}
+                    aria-label="Rename conversation"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(conversation)}
+                    aria-label="Delete conversation"
+                  >
+                    ×
+                  </button>
+                </span>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ConversationSidebar;
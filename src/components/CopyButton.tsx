@@ -0,0 +1,35 @@
+import React, { useState, useEffect } from "react";
+
+interface CopyButtonProps {
+  getText: () => string;
+  label?: string;
+}
+
+const CopyButton: React.FC<CopyButtonProps> = ({ getText, label = "Copy" }) => {
+  const [copied, setCopied] = useState(false);
+
+  // Go back to the label shortly after copying
+  useEffect(() => {
+    if (!copied) return;
+
+    const timer = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getText());
+      setCopied(true);
+    } catch (error) {
+      console.error("Error copying to the clipboard:", error);
+    }
+  };
+
+  return (
+    <button type="button" className="copy-button" onClick={handleCopy}>
+      {copied ? "Copied" : label}
+    </button>
+  );
+};
+
+export default CopyButton;
@@ -0,0 +1,72 @@
+import React, { useState, FormEvent } from "react";
+import { Rating } from "../client/conversations";
+
+interface FeedbackControlsProps {
+  rating?: Rating;
+  onSubmit: (rating: Rating, comment?: string) => Promise<void>;
+}
+
+const FeedbackControls: React.FC<FeedbackControlsProps> = ({
+  rating,
+  onSubmit,
+}) => {
+  const [isCommenting, setIsCommenting] = useState(false);
+  const [comment, setComment] = useState("");
+
+  const handleRate = async (next: Rating) => {
+    await onSubmit(next);
+
+    // Ask what was wrong, without requiring an answer
+    setIsCommenting(next === "down");
+  };
+
+  const handleComment = async (e: FormEvent) => {
+    e.preventDefault();
+    if (rating && comment.trim()) {
+      await onSubmit(rating, comment.trim());
+    }
+    setIsCommenting(false);
+    setComment("");
+  };
+
+  return (
+    <span className="feedback-controls">
+      <button
+        type="button"
+        className={rating === "up" ? "selected" : undefined}
+        onClick={() => handleRate("up")}
+        aria-label="Good response"
+        aria-pressed={rating === "up"}
+      >
+        👍
+      </button>
+      <button
+        type="button"
+        className={rating === "down" ? "selected" : undefined}
+        onClick={() => handleRate("down")}
+        aria-label="Bad response"
+        aria-pressed={rating === "down"}
+      >
+        👎
+      </button>
+      {isCommenting && (
+        <form className="feedback-comment" onSubmit={handleComment}>
+          <input
+            type="text"
+            className="form-control form-control-sm"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="What was wrong? (optional)"
+            maxLength={1000}
+            autoFocus
+          />
+          <button type="submit" className="btn btn-sm btn-outline-secondary">
+            Send
+          </button>
+        </form>
+      )}
+    </span>
+  );
+};
+
+export default FeedbackControls;
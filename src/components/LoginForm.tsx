@@ -0,0 +1,81 @@
+import React, { useState, FormEvent } from "react";
+import { login, register } from "../client/auth";
+
+interface LoginFormProps {
+  notice?: string;
+}
+
+const LoginForm: React.FC<LoginFormProps> = ({ notice }) => {
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isRegistering = mode === "register";
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      // The app switches to the chat once the session is stored
+      if (isRegistering) {
+        await register(username, password);
+      } else {
+        await login(username, password);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(isRegistering ? "login" : "register");
+    setError(null);
+  };
+
+  return (
+    <div className="login-form">
+      <h2>{isRegistering ? "Create an account" : "Sign in"}</h2>
+      {notice && !error && <div className="alert alert-info">{notice}</div>}
+      {error && <div className="alert alert-danger">{error}</div>}
+      <form onSubmit={handleSubmit}>
+        <input
+          type="text"
+          className="form-control"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="username"
+          required
+        />
+        <input
+          type="password"
+          className="form-control"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete={isRegistering ? "new-password" : "current-password"}
+          required
+        />
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={isSubmitting || !username || !password}
+        >
+          {isRegistering ? "Register" : "Sign in"}
+        </button>
+      </form>
+      <button type="button" className="btn btn-link" onClick={toggleMode}>
+        {isRegistering
+          ? "Already have an account? Sign in"
+          : "New here? Create an account"}
+      </button>
+    </div>
+  );
+};
+
+export default LoginForm;
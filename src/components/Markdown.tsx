@@ -0,0 +1,49 @@
+import React, { useRef } from "react";
+import ReactMarkdown, { Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeHighlight from "rehype-highlight";
+import CopyButton from "./CopyButton";
+import "highlight.js/styles/github.css";
+
+// Fenced code with a button copying the code as written
+const CodeBlock: Components["pre"] = ({ children }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+
+  return (
+    <div className="code-block">
+      <CopyButton getText={() => preRef.current?.textContent ?? ""} />
+      <pre ref={preRef}>{children}</pre>
+    </div>
+  );
+};
+
+// Open links in a new tab so the conversation isn't lost
+const Link: Components["a"] = ({ href, children }) => (
+  <a href={href} target="_blank" rel="noopener noreferrer">
+    {children}
+  </a>
+);
+
+interface MarkdownProps {
+  text: string;
+}
+
+/**
+ * Render model output as GitHub flavoured Markdown. Raw HTML in the text is
+ * not rendered, so a response can't inject markup or scripts.
+ */
+const Markdown: React.FC<MarkdownProps> = ({ text }) => {
+  return (
+    <div className="markdown">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[[rehypeHighlight, { detect: true }]]}
+        components={{ pre: CodeBlock, a: Link }}
+      >
+        {text}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default Markdown;
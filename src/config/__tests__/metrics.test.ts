@@ -0,0 +1,119 @@
+import { metrics } from "@opentelemetry/api";
+import {
+  DataPoint,
+  MeterProvider,
+  MetricReader,
+} from "@opentelemetry/sdk-metrics";
+import {
+  observeActiveConversations,
+  recordAuthFailure,
+  recordChatRequest,
+  recordFeedback,
+  recordLLMError,
+  recordTokenUsage,
+} from "../metrics";
+
+// Collects metrics on demand
+class TestMetricReader extends MetricReader {
+  protected async onForceFlush(): Promise<void> {}
+  protected async onShutdown(): Promise<void> {}
+}
+
+describe("metrics", () => {
+  const reader = new TestMetricReader();
+
+  beforeAll(() => {
+    const provider = new MeterProvider();
+    provider.addMetricReader(reader);
+    metrics.setGlobalMeterProvider(provider);
+  });
+
+  const collect = async (name: string) => {
+    const { resourceMetrics } = await reader.collect();
+    const metric = resourceMetrics.scopeMetrics
+      .flatMap((scope) => scope.metrics)
+      .find((metric) => metric.descriptor.name === name);
+
+    return (metric?.dataPoints ?? []) as DataPoint<unknown>[];
+  };
+
+  it("should count prompt and completion tokens by model", async () => {
+    recordTokenUsage(
+      { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+      { "llm.model": "gpt-4" }
+    );
+    recordTokenUsage(
+      { promptTokens: 8, completionTokens: 2, totalTokens: 10 },
+      { "llm.model": "gpt-4" }
+    );
+
+    const [prompt] = await collect("llm.usage.prompt_tokens");
+    const [completion] = await collect("llm.usage.completion_tokens");
+
+    expect(prompt).toMatchObject({
+      attributes: { "llm.model": "gpt-4" },
+      value: 20,
+    });
+    expect(completion.value).toBe(7);
+  });
+
+  it("should count auth failures by error type", async () => {
+    recordAuthFailure("login", "invalid_password");
+    recordAuthFailure("login", "invalid_password");
+    recordAuthFailure("refresh", "refresh_token_reused");
+
+    const points = await collect("auth.failures");
+
+    expect(points).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          attributes: {
+            "auth.operation": "login",
+            "error.type": "invalid_password",
+          },
+          value: 2,
+        }),
+        expect.objectContaining({
+          attributes: {
+            "auth.operation": "refresh",
+            "error.type": "refresh_token_reused",
+          },
+          value: 1,
+        }),
+      ])
+    );
+  });
+
+  it("should record chat request durations and LLM errors", async () => {
+    recordChatRequest(120, { "http.route": "/api/chatbot/chat" });
+    recordLLMError({ "llm.provider": "openai", "error.type": "Error" });
+
+    const [duration] = await collect("chat.request.duration");
+    const [errors] = await collect("llm.errors");
+
+    expect(duration.value).toMatchObject({ count: 1, sum: 120 });
+    expect(errors.value).toBe(1);
+  });
+
+  it("should count feedback by rating", async () => {
+    recordFeedback("down", { "persona.id": "retail-assistant" });
+
+    const [feedback] = await collect("chat.feedback");
+
+    expect(feedback).toMatchObject({
+      attributes: {
+        "persona.id": "retail-assistant",
+        "feedback.rating": "down",
+      },
+      value: 1,
+    });
+  });
+
+  it("should observe the number of active conversations", async () => {
+    observeActiveConversations(async () => 3);
+
+    const [active] = await collect("chat.conversations.active");
+
+    expect(active.value).toBe(3);
+  });
+});
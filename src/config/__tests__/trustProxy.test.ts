@@ -0,0 +1,15 @@
+import { loadTrustProxy } from "../trustProxy";
+
+describe("loadTrustProxy", () => {
+  it("should trust no proxy by default", () => {
+    expect(loadTrustProxy(undefined)).toBe(false);
+    expect(loadTrustProxy("")).toBe(false);
+    expect(loadTrustProxy("false")).toBe(false);
+  });
+
+  it("should accept a flag, a hop count or a list of addresses", () => {
+    expect(loadTrustProxy("true")).toBe(true);
+    expect(loadTrustProxy("1")).toBe(1);
+    expect(loadTrustProxy("loopback, 10.0.0.0/8")).toBe("loopback, 10.0.0.0/8");
+  });
+});
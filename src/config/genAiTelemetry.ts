@@ -0,0 +1,104 @@
+import { Span } from "@opentelemetry/api";
+import {
+  ChatCompletionRequest,
+  FunctionCall,
+  LLMMessage,
+  ResponseMetadata,
+} from "../providers";
+import { TokenUsage } from "../services/usageService";
+import { redactPII } from "../utils/redaction";
+
+// gen_ai.system values defined by the GenAI semantic conventions
+const GEN_AI_SYSTEMS: Record<string, string> = {
+  openai: "openai",
+  "azure-openai": "az.ai.openai",
+};
+
+export const getGenAiSystem = (providerName: string): string =>
+  GEN_AI_SYSTEMS[providerName] ?? providerName;
+
+/**
+ * Describe an LLM call on its span following the GenAI semantic conventions
+ */
+export const setGenAiRequestAttributes = (
+  span: Span,
+  providerName: string,
+  request: Pick<ChatCompletionRequest, "model" | "maxTokens" | "temperature">
+): void => {
+  span.setAttribute("gen_ai.system", getGenAiSystem(providerName));
+  span.setAttribute("gen_ai.operation.name", "chat");
+  span.setAttribute("gen_ai.request.model", request.model);
+  span.setAttribute("gen_ai.request.max_tokens", request.maxTokens);
+  span.setAttribute("gen_ai.request.temperature", request.temperature);
+};
+
+/**
+ * Record what the model reported about its response and the tokens used
+ */
+export const setGenAiResponseAttributes = (
+  span: Span,
+  metadata: ResponseMetadata,
+  usage: Pick<TokenUsage, "promptTokens" | "completionTokens">
+): void => {
+  if (metadata.responseModel) {
+    span.setAttribute("gen_ai.response.model", metadata.responseModel);
+  }
+  if (metadata.responseId) {
+    span.setAttribute("gen_ai.response.id", metadata.responseId);
+  }
+  if (metadata.finishReason) {
+    span.setAttribute("gen_ai.response.finish_reasons", [
+      metadata.finishReason,
+    ]);
+  }
+
+  span.setAttribute("gen_ai.usage.input_tokens", usage.promptTokens);
+  span.setAttribute("gen_ai.usage.output_tokens", usage.completionTokens);
+};
+
+const redactFunctionCall = (functionCall: FunctionCall): FunctionCall => ({
+  name: functionCall.name,
+  arguments: redactPII(functionCall.arguments),
+});
+
+const redactMessage = (message: LLMMessage): LLMMessage => {
+  const redacted = { ...message, content: redactPII(message.content) };
+
+  return "functionCall" in redacted && redacted.functionCall
+    ? { ...redacted, functionCall: redactFunctionCall(redacted.functionCall) }
+    : redacted;
+};
+
+/**
+ * Attach the prompt sent to the model as a span event, with personal data
+ * redacted
+ */
+export const addGenAiPromptEvent = (
+  span: Span,
+  messages: LLMMessage[]
+): void => {
+  span.addEvent("gen_ai.content.prompt", {
+    "gen_ai.prompt": JSON.stringify(messages.map(redactMessage)),
+  });
+};
+
+/**
+ * Attach the model's response as a span event, with personal data redacted
+ */
+export const addGenAiCompletionEvent = (
+  span: Span,
+  content: string,
+  functionCall?: FunctionCall
+): void => {
+  span.addEvent("gen_ai.content.completion", {
+    "gen_ai.completion": JSON.stringify([
+      {
+        role: "assistant",
+        content: redactPII(content),
+        ...(functionCall && {
+          functionCall: redactFunctionCall(functionCall),
+        }),
+      },
+    ]),
+  });
+};
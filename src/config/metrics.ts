@@ -0,0 +1,126 @@
+import {
+  metrics,
+  Counter,
+  Histogram,
+  MetricAttributes,
+} from "@opentelemetry/api";
+import { TokenUsage } from "../services/usageService";
+
+const METER_NAME = "ph-observability-chatbot";
+
+interface Instruments {
+  chatRequestDuration: Histogram;
+  promptTokens: Counter;
+  completionTokens: Counter;
+  authFailures: Counter;
+  llmErrors: Counter;
+  feedback: Counter;
+}
+
+let instruments: Instruments | undefined;
+
+// Created on first use: instruments created before the SDK has started
+// would stay no-ops
+const getInstruments = (): Instruments => {
+  if (!instruments) {
+    const meter = metrics.getMeter(METER_NAME);
+
+    instruments = {
+      chatRequestDuration: meter.createHistogram("chat.request.duration", {
+        description: "Duration of chat requests, including streamed ones",
+        unit: "ms",
+      }),
+      promptTokens: meter.createCounter("llm.usage.prompt_tokens", {
+        description: "Prompt tokens sent to the LLM",
+        unit: "{token}",
+      }),
+      completionTokens: meter.createCounter("llm.usage.completion_tokens", {
+        description: "Completion tokens generated by the LLM",
+        unit: "{token}",
+      }),
+      authFailures: meter.createCounter("auth.failures", {
+        description: "Failed logins and token refreshes",
+      }),
+      llmErrors: meter.createCounter("llm.errors", {
+        description: "Failed LLM provider calls, including retried attempts",
+      }),
+      feedback: meter.createCounter("chat.feedback", {
+        description: "Ratings users gave assistant messages",
+      }),
+    };
+  }
+
+  return instruments;
+};
+
+/**
+ * Record how long a chat request took
+ */
+export const recordChatRequest = (
+  durationMs: number,
+  attributes: MetricAttributes
+): void => {
+  getInstruments().chatRequestDuration.record(durationMs, attributes);
+};
+
+/**
+ * Count the tokens used by an LLM call, e.g. by model
+ */
+export const recordTokenUsage = (
+  usage: TokenUsage,
+  attributes: MetricAttributes
+): void => {
+  const { promptTokens, completionTokens } = getInstruments();
+
+  promptTokens.add(usage.promptTokens, attributes);
+  completionTokens.add(usage.completionTokens, attributes);
+};
+
+/**
+ * Count a failed login or token refresh by its error type
+ */
+export const recordAuthFailure = (
+  operation: "login" | "refresh",
+  errorType: string
+): void => {
+  getInstruments().authFailures.add(1, {
+    "auth.operation": operation,
+    "error.type": errorType,
+  });
+};
+
+/**
+ * Count a failed LLM provider call
+ */
+export const recordLLMError = (attributes: MetricAttributes): void => {
+  getInstruments().llmErrors.add(1, attributes);
+};
+
+/**
+ * Count a user's rating of an assistant message, e.g. by persona
+ */
+export const recordFeedback = (
+  rating: "up" | "down",
+  attributes: MetricAttributes
+): void => {
+  getInstruments().feedback.add(1, {
+    ...attributes,
+    "feedback.rating": rating,
+  });
+};
+
+/**
+ * Report the number of active conversations whenever metrics are collected
+ */
+export const observeActiveConversations = (
+  count: () => Promise<number>
+): void => {
+  metrics
+    .getMeter(METER_NAME)
+    .createObservableGauge("chat.conversations.active", {
+      description: "Conversations that have not expired",
+    })
+    .addCallback(async (result) => {
+      result.observe(await count());
+    });
+};
@@ -1,20 +1,60 @@
 import { NodeSDK } from "@opentelemetry/sdk-node";
 import { getNodeAutoInstrumentations } from "@opentelemetry/auto-instrumentations-node";
 import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { OTLPMetricExporter } from "@opentelemetry/exporter-metrics-otlp-http";
+import { PrometheusExporter } from "@opentelemetry/exporter-prometheus";
+import {
+  MetricReader,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
 import { Resource } from "@opentelemetry/resources";
 import { SemanticResourceAttributes } from "@opentelemetry/semantic-conventions";
 import * as dotenv from "dotenv";
 
 dotenv.config();
 
+const exporterEndpoint =
+  process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "http://localhost:4318/v1/traces";
+
 // Configure the trace exporter
 const traceExporter = new OTLPTraceExporter({
-  url:
-    process.env.OTEL_EXPORTER_OTLP_ENDPOINT ||
-    "http://localhost:4318/v1/traces",
+  url: exporterEndpoint,
   headers: {},
 });
 
+// Metrics are pushed over OTLP, or pulled by Prometheus from /metrics
+const metricsExporter = process.env.OTEL_METRICS_EXPORTER || "otlp";
+
+// Serves /metrics when Prometheus is the metrics exporter
+export const prometheusExporter =
+  metricsExporter === "prometheus"
+    ? new PrometheusExporter({ preventServerStart: true })
+    : undefined;
+
+const createMetricReader = (): MetricReader | undefined => {
+  switch (metricsExporter) {
+    case "otlp":
+      return new PeriodicExportingMetricReader({
+        exporter: new OTLPMetricExporter({
+          url:
+            process.env.OTEL_EXPORTER_OTLP_METRICS_ENDPOINT ||
+            "http://localhost:4318/v1/metrics",
+        }),
+        exportIntervalMillis: Number(
+          process.env.OTEL_METRIC_EXPORT_INTERVAL ?? 60000
+        ),
+      });
+    case "prometheus":
+      return prometheusExporter;
+    case "none":
+      return undefined;
+    default:
+      throw new Error(`Unknown metrics exporter: ${metricsExporter}`);
+  }
+};
+
+let telemetryStarted = false;
+
 // Create and configure the OpenTelemetry SDK
 export const otelSDK = new NodeSDK({
   resource: new Resource({
@@ -23,6 +63,7 @@ export const otelSDK = new NodeSDK({
     environment: process.env.NODE_ENV || "development",
   }),
   traceExporter,
+  metricReader: createMetricReader(),
   instrumentations: [
     getNodeAutoInstrumentations({
       "@opentelemetry/instrumentation-fs": { enabled: true },
@@ -33,12 +74,18 @@ export const otelSDK = new NodeSDK({
   ],
 });
 
-// Initialize OpenTelemetry
-export function initTelemetry() {
+// Initialize OpenTelemetry; the meter provider is registered once this resolves
+export async function initTelemetry() {
   try {
-    otelSDK.start();
+    await otelSDK.start();
+    telemetryStarted = true;
     console.log("OpenTelemetry instrumentation initialized");
   } catch (error) {
     console.error("Error initializing OpenTelemetry", error);
   }
 }
+
+// Whether the SDK is running and where it exports traces to
+export function getTelemetryStatus() {
+  return { started: telemetryStarted, exporterEndpoint };
+}
@@ -0,0 +1,24 @@
+/**
+ * Read which proxies Express should trust from TRUST_PROXY. Behind App
+ * Service or a load balancer req.ip is otherwise the proxy's address, so
+ * every client would share one per-IP login limit.
+ *
+ * Accepts what Express's "trust proxy" setting does: true or false, the
+ * number of proxy hops, or a comma-separated list of addresses, subnets or
+ * names such as "loopback". Unset means no proxy is trusted.
+ */
+export const loadTrustProxy = (
+  value: string | undefined = process.env.TRUST_PROXY
+): boolean | number | string => {
+  const trimmed = value?.trim();
+
+  if (!trimmed || trimmed === "false") {
+    return false;
+  }
+
+  if (trimmed === "true") {
+    return true;
+  }
+
+  return /^\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+};
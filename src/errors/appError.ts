@@ -0,0 +1,121 @@
+export interface AppErrorOptions {
+  detail?: string; // Shown to clients instead of the message, e.g. for 5xx errors
+  headers?: Record<string, string>;
+  extensions?: Record<string, unknown>; // Extra members of the problem response
+}
+
+/**
+ * Base class for errors that map to an HTTP response. The code is a stable,
+ * machine-readable identifier clients and dashboards can rely on.
+ */
+export class AppError extends Error {
+  public readonly detail?: string;
+  public readonly headers: Record<string, string>;
+  public readonly extensions: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string,
+    options: AppErrorOptions = {}
+  ) {
+    super(message);
+    this.name = "AppError";
+    this.detail = options.detail;
+    this.headers = options.headers ?? {};
+    this.extensions = options.extensions ?? {};
+  }
+}
+
+// A field that failed validation
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * Thrown when a request is malformed or breaks a validation rule
+ */
+export class ValidationError extends AppError {
+  constructor(
+    message: string,
+    issues?: ValidationIssue[],
+    code = "validation_error"
+  ) {
+    super(message, 400, code, {
+      extensions: issues ? { details: issues } : undefined,
+    });
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Thrown when a request lacks valid credentials
+ */
+export class AuthError extends AppError {
+  constructor(message: string, code = "authentication_required") {
+    super(message, 401, code);
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * Thrown when an authenticated user may not perform an action
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string, code = "forbidden") {
+    super(message, 403, code);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, code = "not_found") {
+    super(message, 404, code);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Thrown when a change clashes with the current state of a resource
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, code = "conflict") {
+    super(message, 409, code);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * Thrown when a caller has to wait before trying again
+ */
+export class RateLimitError extends AppError {
+  constructor(
+    message: string,
+    public readonly retryAfterSeconds: number,
+    code = "rate_limited",
+    options: Pick<AppErrorOptions, "detail" | "extensions"> = {}
+  ) {
+    super(message, 429, code, {
+      ...options,
+      headers: { "Retry-After": String(retryAfterSeconds) },
+      extensions: { ...options.extensions, retryAfter: retryAfterSeconds },
+    });
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Thrown when a service the request depends on fails or is unavailable
+ */
+export class UpstreamError extends AppError {
+  constructor(
+    message: string,
+    statusCode: 502 | 503 | 504 = 502,
+    code = "upstream_error",
+    options: AppErrorOptions = {}
+  ) {
+    super(message, statusCode, code, options);
+    this.name = "UpstreamError";
+  }
+}
@@ -0,0 +1,99 @@
+import { STATUS_CODES } from "http";
+import { Span, SpanStatusCode } from "@opentelemetry/api";
+import { AppError } from "./appError";
+
+/**
+ * Error response body as defined by RFC 7807, extended with a
+ * machine-readable code and the ID of the trace the request belongs to
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  code: string;
+  traceId?: string;
+  [extension: string]: unknown;
+}
+
+// Errors raised by Express and body-parser carry a status and whether
+// their message is safe to show
+interface HttpErrorShape {
+  status?: number;
+  expose?: boolean;
+  type?: string;
+}
+
+const GENERIC_DETAIL = "An unexpected error occurred";
+
+/**
+ * The code identifying an error in responses and on spans
+ */
+export const getErrorCode = (error: unknown): string => {
+  if (error instanceof AppError) {
+    return error.code;
+  }
+
+  const { status, expose, type } = (error ?? {}) as HttpErrorShape;
+  if (status !== undefined && expose) {
+    return type ? type.replace(/\./g, "_") : "bad_request";
+  }
+
+  return "internal_error";
+};
+
+/**
+ * Describe an error as problem details. Messages of unexpected errors are
+ * replaced so internals don't leak to clients.
+ */
+export const toProblemDetails = (
+  error: unknown,
+  instance?: string
+): ProblemDetails => {
+  let status = 500;
+  let detail = GENERIC_DETAIL;
+  let extensions: Record<string, unknown> = {};
+
+  if (error instanceof AppError) {
+    status = error.statusCode;
+    detail = error.detail ?? (status < 500 ? error.message : GENERIC_DETAIL);
+    extensions = error.extensions;
+  } else {
+    const { status: httpStatus, expose } = (error ?? {}) as HttpErrorShape;
+    if (httpStatus !== undefined && expose && error instanceof Error) {
+      status = httpStatus;
+      detail = error.message;
+    }
+  }
+
+  return {
+    ...extensions,
+    type: "about:blank",
+    title: STATUS_CODES[status] ?? "Error",
+    status,
+    detail,
+    instance,
+    code: getErrorCode(error),
+  };
+};
+
+/**
+ * Mark a span as failed, recording the exception and its type
+ */
+export const recordSpanError = (span: Span, error: unknown): void => {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({ code: SpanStatusCode.ERROR });
+  span.setAttribute(
+    "error.type",
+    error instanceof AppError
+      ? error.code
+      : error instanceof Error
+      ? error.name
+      : "unknown"
+  );
+  span.setAttribute(
+    "error.message",
+    error instanceof Error ? error.message : "Unknown error"
+  );
+};
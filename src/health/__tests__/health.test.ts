@@ -0,0 +1,246 @@
+import net from "net";
+import {
+  cachedCheck,
+  createConversationStoreCheck,
+  createKeyVaultCheck,
+  createLLMProviderCheck,
+  createTelemetryCheck,
+  HealthCheck,
+  HealthRegistry,
+} from "..";
+import { ResilientProvider, ScriptedProvider } from "../../providers";
+import { InMemoryConversationRepository } from "../../repositories";
+import { getKeyVaultStatus } from "../../utils/azureKeyVault";
+import { getTelemetryStatus } from "../../config/telemetry";
+
+// Mock OpenTelemetry
+jest.mock("@opentelemetry/api", () => {
+  const mockSpan = {
+    setAttribute: jest.fn(),
+    setStatus: jest.fn(),
+    addEvent: jest.fn(),
+    recordException: jest.fn(),
+    end: jest.fn(),
+  };
+
+  const mockTracer = {
+    startActiveSpan: jest.fn().mockImplementation((name, fn) => {
+      return fn(mockSpan);
+    }),
+    startSpan: jest.fn().mockReturnValue(mockSpan),
+  };
+
+  return {
+    trace: {
+      getTracer: jest.fn().mockReturnValue(mockTracer),
+      getActiveSpan: jest.fn(),
+    },
+    SpanStatusCode: {
+      OK: "ok",
+      ERROR: "error",
+    },
+  };
+});
+
+// Mock Azure Key Vault
+jest.mock("../../utils/azureKeyVault", () => ({
+  getKeyVaultStatus: jest.fn(),
+}));
+
+// Mock the telemetry SDK setup
+jest.mock("../../config/telemetry", () => ({
+  getTelemetryStatus: jest.fn(),
+}));
+
+const check = (
+  name: string,
+  critical: boolean,
+  run: HealthCheck["check"]
+): HealthCheck => ({ name, critical, check: run });
+
+const up = async () => ({ status: "up" as const });
+
+describe("HealthRegistry", () => {
+  it("should be ready when every critical check is up", async () => {
+    const registry = new HealthRegistry([
+      check("database", true, up),
+      check("telemetry", false, async () => {
+        throw new Error("Connection refused");
+      }),
+    ]);
+
+    const report = await registry.checkReadiness();
+
+    expect(report.status).toBe("ready");
+    expect(report.components.database).toMatchObject({
+      status: "up",
+      critical: true,
+    });
+    expect(report.components.telemetry).toMatchObject({
+      status: "down",
+      critical: false,
+      error: "Connection refused",
+    });
+  });
+
+  it("should not be ready when a critical check is down", async () => {
+    const registry = new HealthRegistry([check("database", true, up)]);
+    registry.register(
+      check("llm", true, async () => ({
+        status: "down",
+        details: { reason: "unreachable" },
+      }))
+    );
+
+    const report = await registry.checkReadiness();
+
+    expect(report.status).toBe("not_ready");
+    expect(registry.getCheckNames()).toEqual(["database", "llm"]);
+    expect(report.components.llm.details).toEqual({ reason: "unreachable" });
+  });
+
+  it("should report checks that take too long as down", async () => {
+    const registry = new HealthRegistry(
+      [check("slow", true, () => new Promise(() => undefined))],
+      10
+    );
+
+    const report = await registry.checkReadiness();
+
+    expect(report.status).toBe("not_ready");
+    expect(report.components.slow.error).toBe("Timed out after 10ms");
+  });
+});
+
+describe("cachedCheck", () => {
+  it("should reuse results until they expire", async () => {
+    const run = jest
+      .fn()
+      .mockResolvedValueOnce({ status: "up" })
+      .mockResolvedValueOnce({ status: "down" });
+    const cached = cachedCheck(check("llm", true, run), 20);
+
+    expect(await cached.check()).toEqual({ status: "up" });
+    expect(await cached.check()).toEqual({ status: "up" });
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(await cached.check()).toEqual({ status: "down" });
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("health checks", () => {
+  it("should probe the LLM provider with a one-token completion", async () => {
+    const provider = new ScriptedProvider();
+
+    const result = await createLLMProviderCheck(provider, "gpt-4", {
+      timeoutMs: 1000,
+      breakerProvider: new ResilientProvider(provider),
+    }).check();
+
+    expect(result).toEqual({
+      status: "up",
+      details: {
+        provider: "scripted",
+        model: "gpt-4",
+        circuitBreaker: "closed",
+      },
+    });
+    expect(provider.requests[0]).toMatchObject({ maxTokens: 1 });
+    expect(provider.requests[0].signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it("should not count failed probes toward the chat circuit breaker", async () => {
+    const provider = new ScriptedProvider();
+    jest
+      .spyOn(provider, "createChatCompletion")
+      .mockRejectedValue(
+        Object.assign(new Error("Service unavailable"), { status: 503 })
+      );
+    const chat = new ResilientProvider(provider, {
+      timeoutMs: 1000,
+      maxRetries: 0,
+      baseDelayMs: 0,
+      maxDelayMs: 0,
+      failureThreshold: 1,
+      resetTimeoutMs: 60000,
+    });
+    const check = createLLMProviderCheck(provider, "gpt-4", {
+      breakerProvider: chat,
+    });
+
+    await expect(check.check()).rejects.toThrow("Service unavailable");
+    await expect(check.check()).rejects.toThrow("Service unavailable");
+
+    expect(chat.getHealth().circuitBreaker?.state).toBe("closed");
+  });
+
+  it("should fail the LLM check when the provider errors", async () => {
+    const provider = new ScriptedProvider();
+    jest
+      .spyOn(provider, "createChatCompletion")
+      .mockRejectedValue(new Error("Invalid API key"));
+
+    await expect(
+      createLLMProviderCheck(provider, "gpt-4").check()
+    ).rejects.toThrow("Invalid API key");
+  });
+
+  it("should check the conversation store", async () => {
+    const result = await createConversationStoreCheck(
+      new InMemoryConversationRepository(),
+      "memory"
+    ).check();
+
+    expect(result).toEqual({ status: "up", details: { store: "memory" } });
+  });
+
+  it("should only require Key Vault when secrets come from it", async () => {
+    (getKeyVaultStatus as jest.Mock).mockReturnValue({
+      name: "",
+      configured: false,
+      initialized: false,
+    });
+
+    expect((await createKeyVaultCheck(false).check()).status).toBe("up");
+    expect((await createKeyVaultCheck(true).check()).status).toBe("down");
+    expect(createKeyVaultCheck(true).critical).toBe(true);
+  });
+
+  it("should report a configured Key Vault whose client failed", async () => {
+    (getKeyVaultStatus as jest.Mock).mockReturnValue({
+      name: "my-vault",
+      configured: true,
+      initialized: false,
+    });
+
+    expect(await createKeyVaultCheck(false).check()).toEqual({
+      status: "down",
+      details: { configured: true, required: false, name: "my-vault" },
+    });
+  });
+
+  it("should check the telemetry exporter accepts connections", async () => {
+    const server = net.createServer();
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as net.AddressInfo;
+
+    try {
+      (getTelemetryStatus as jest.Mock).mockReturnValue({
+        started: true,
+        exporterEndpoint: `http://127.0.0.1:${port}/v1/traces`,
+      });
+      expect((await createTelemetryCheck().check()).status).toBe("up");
+
+      (getTelemetryStatus as jest.Mock).mockReturnValue({
+        started: false,
+        exporterEndpoint: `http://127.0.0.1:${port}/v1/traces`,
+      });
+      expect((await createTelemetryCheck().check()).status).toBe("down");
+    } finally {
+      server.close();
+    }
+  });
+});
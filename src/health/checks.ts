@@ -0,0 +1,130 @@
+import net from "net";
+import { getTelemetryStatus } from "../config/telemetry";
+import { LLMProvider } from "../providers";
+import { ConversationRepository } from "../repositories";
+import { getKeyVaultStatus } from "../utils/azureKeyVault";
+import { HealthCheck } from "./healthRegistry";
+
+export interface LLMProviderCheckOptions {
+  timeoutMs?: number; // Abort the probe after this long
+  breakerProvider?: LLMProvider; // Reports the circuit breaker state
+}
+
+/**
+ * Check the LLM provider answers. A one-token completion proves the
+ * credentials and model or deployment work, so wrap this in cachedCheck.
+ * Probe the unwrapped provider so probe failures never count toward the
+ * chat circuit breaker, and read the breaker state from breakerProvider.
+ */
+export const createLLMProviderCheck = (
+  provider: LLMProvider,
+  model: string,
+  { timeoutMs, breakerProvider = provider }: LLMProviderCheckOptions = {}
+): HealthCheck => ({
+  name: "llm",
+  critical: true,
+  check: async () => {
+    await provider.createChatCompletion({
+      model,
+      messages: [{ role: "user", content: "ping" }],
+      maxTokens: 1,
+      temperature: 0,
+      signal:
+        timeoutMs !== undefined ? AbortSignal.timeout(timeoutMs) : undefined,
+    });
+
+    return {
+      status: "up",
+      details: {
+        provider: provider.name,
+        model,
+        circuitBreaker: breakerProvider.getHealth?.().circuitBreaker?.state,
+      },
+    };
+  },
+});
+
+/**
+ * Check the conversation store can be read and written
+ */
+export const createConversationStoreCheck = (
+  repository: ConversationRepository,
+  store: string
+): HealthCheck => ({
+  name: "conversationStore",
+  critical: true,
+  check: async () => {
+    await repository.ping();
+    return { status: "up", details: { store } };
+  },
+});
+
+/**
+ * Check Key Vault is configured. It only matters when a secret has to be
+ * read from it, e.g. an API key that isn't set in the environment.
+ */
+export const createKeyVaultCheck = (required: boolean): HealthCheck => ({
+  name: "keyVault",
+  critical: required,
+  check: async () => {
+    const { name, configured, initialized } = getKeyVaultStatus();
+
+    if (!configured) {
+      return {
+        status: required ? "down" : "up",
+        details: { configured, required },
+      };
+    }
+
+    return {
+      status: initialized ? "up" : "down",
+      details: { configured, required, name },
+    };
+  },
+});
+
+/**
+ * Open a TCP connection to check a host is accepting connections
+ */
+const canConnect = (host: string, port: number, timeoutMs: number) =>
+  new Promise<void>((resolve, reject) => {
+    const socket = net.connect({ host, port });
+
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy();
+      reject(new Error(`Connection to ${host}:${port} timed out`));
+    });
+    socket.once("connect", () => {
+      socket.destroy();
+      resolve();
+    });
+    socket.once("error", (error) => {
+      socket.destroy();
+      reject(error);
+    });
+  });
+
+/**
+ * Check the OpenTelemetry SDK started and its exporter endpoint accepts
+ * connections. Not critical: the service works without telemetry.
+ */
+export const createTelemetryCheck = (connectTimeoutMs = 2000): HealthCheck => ({
+  name: "telemetry",
+  critical: false,
+  check: async () => {
+    const { started, exporterEndpoint } = getTelemetryStatus();
+
+    if (!started) {
+      return { status: "down", details: { started, exporterEndpoint } };
+    }
+
+    const url = new URL(exporterEndpoint);
+    await canConnect(
+      url.hostname,
+      Number(url.port) || (url.protocol === "https:" ? 443 : 80),
+      connectTimeoutMs
+    );
+
+    return { status: "up", details: { started, exporterEndpoint } };
+  },
+});
@@ -0,0 +1,164 @@
+import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { log } from "../config/logger";
+import { recordSpanError } from "../errors";
+
+export type ComponentStatus = "up" | "down";
+
+export interface HealthCheckResult {
+  status: ComponentStatus;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * A dependency checked before the service reports itself ready
+ */
+export interface HealthCheck {
+  name: string;
+  critical: boolean; // The service is not ready while a critical check is down
+  check(): Promise<HealthCheckResult>;
+}
+
+export interface ComponentHealth extends HealthCheckResult {
+  critical: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  status: "ready" | "not_ready";
+  checkedAt: string;
+  components: Record<string, ComponentHealth>;
+}
+
+/**
+ * Cache the result of a check, e.g. one that calls a paid or rate limited
+ * API. Concurrent callers share a single in-flight check.
+ */
+export const cachedCheck = (check: HealthCheck, ttlMs: number): HealthCheck => {
+  let cached: { expiresAt: number; result: Promise<HealthCheckResult> } | null =
+    null;
+
+  return {
+    name: check.name,
+    critical: check.critical,
+    check: () => {
+      if (!cached || Date.now() >= cached.expiresAt) {
+        const result = check.check();
+        cached = { expiresAt: Date.now() + ttlMs, result };
+
+        // Failures are cached too so a broken dependency isn't hammered
+        result.catch(() => undefined);
+      }
+
+      return cached.result;
+    },
+  };
+};
+
+/**
+ * Runs the registered dependency checks and combines them into a readiness
+ * report. Checks run concurrently, each bounded by the timeout.
+ */
+export class HealthRegistry {
+  private checks = new Map<string, HealthCheck>();
+
+  constructor(checks: HealthCheck[] = [], private timeoutMs = 5000) {
+    checks.forEach((check) => this.register(check));
+  }
+
+  /**
+   * Add a check, replacing any existing check with the same name
+   */
+  public register(check: HealthCheck): void {
+    this.checks.set(check.name, check);
+  }
+
+  public getCheckNames(): string[] {
+    return Array.from(this.checks.keys());
+  }
+
+  public async checkReadiness(): Promise<ReadinessReport> {
+    const tracer = trace.getTracer("health-registry");
+
+    return tracer.startActiveSpan(
+      "check-readiness",
+      async (span): Promise<ReadinessReport> => {
+        try {
+          const results = await Promise.all(
+            Array.from(this.checks.values(), async (check) => {
+              const component = await this.runCheck(check);
+              span.setAttribute(`health.${check.name}`, component.status);
+              return [check.name, component] as const;
+            })
+          );
+
+          const components = Object.fromEntries(results);
+          const ready = results.every(
+            ([, component]) => !component.critical || component.status === "up"
+          );
+
+          span.setAttribute("health.ready", ready);
+          span.setStatus({ code: SpanStatusCode.OK });
+
+          if (!ready) {
+            log.warn("Readiness check failed", {
+              down: results
+                .filter(([, component]) => component.status === "down")
+                .map(([name]) => name),
+            });
+          }
+
+          return {
+            status: ready ? "ready" : "not_ready",
+            checkedAt: new Date().toISOString(),
+            components,
+          };
+        } catch (error) {
+          recordSpanError(span, error);
+
+          log.error("Error checking readiness", { error });
+
+          throw error;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  /**
+   * Run a single check, reporting errors and timeouts as the component
+   * being down
+   */
+  private async runCheck(check: HealthCheck): Promise<ComponentHealth> {
+    const start = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const result = await Promise.race([
+        check.check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timed out after ${this.timeoutMs}ms`)),
+            this.timeoutMs
+          );
+        }),
+      ]);
+
+      return {
+        ...result,
+        critical: check.critical,
+        durationMs: Date.now() - start,
+      };
+    } catch (error) {
+      return {
+        status: "down",
+        critical: check.critical,
+        durationMs: Date.now() - start,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { getSharedBaseLLMProvider, getSharedLLMProvider } from "../providers";
+import { getSharedConversationRepository } from "../repositories";
+import {
+  createConversationStoreCheck,
+  createKeyVaultCheck,
+  createLLMProviderCheck,
+  createTelemetryCheck,
+} from "./checks";
+import { cachedCheck, HealthRegistry } from "./healthRegistry";
+
+export * from "./healthRegistry";
+export * from "./checks";
+
+export interface HealthConfig {
+  timeoutMs: number; // Longest a single check may take
+  llmCacheMs: number; // How long an LLM probe result is reused
+}
+
+export const loadHealthConfig = (): HealthConfig => ({
+  timeoutMs: Number(process.env.HEALTH_CHECK_TIMEOUT_MS ?? 5000),
+  llmCacheMs: Number(process.env.HEALTH_LLM_CACHE_SECONDS ?? 60) * 1000,
+});
+
+// Providers fall back to Key Vault for their API key when none is configured
+const isKeyVaultRequired = (): boolean => {
+  switch (process.env.LLM_PROVIDER || "openai") {
+    case "openai":
+      return !process.env.OPENAI_API_KEY;
+    case "azure-openai":
+      return !process.env.AZURE_OPENAI_API_KEY;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Create a registry with checks for the LLM provider, conversation store,
+ * Key Vault and telemetry exporter
+ */
+export const createDefaultHealthRegistry = (
+  config: HealthConfig = loadHealthConfig()
+): HealthRegistry =>
+  new HealthRegistry(
+    [
+      cachedCheck(
+        createLLMProviderCheck(
+          getSharedBaseLLMProvider(),
+          process.env.OPENAI_MODEL || "gpt-4",
+          {
+            timeoutMs: config.timeoutMs,
+            breakerProvider: getSharedLLMProvider(),
+          }
+        ),
+        config.llmCacheMs
+      ),
+      createConversationStoreCheck(
+        getSharedConversationRepository(),
+        process.env.CONVERSATION_STORE || "memory"
+      ),
+      createKeyVaultCheck(isKeyVaultRequired()),
+      createTelemetryCheck(),
+    ],
+    config.timeoutMs
+  );
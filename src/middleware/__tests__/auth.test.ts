@@ -0,0 +1,106 @@
+import { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import {
+  authenticateToken,
+  generateToken,
+  requireRole,
+  TokenPayload,
+} from "../auth";
+import { TokenService } from "../../services/tokenService";
+import { AppError } from "../../errors";
+
+const mockResponse = () => {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+// The error passed to next(), which the error handler turns into a response
+const expectError = (next: jest.Mock, status: number) => {
+  expect(next).toHaveBeenCalledWith(expect.any(AppError));
+  expect(next.mock.calls[0][0].statusCode).toBe(status);
+};
+
+const mockRequest = (token?: string) =>
+  ({
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  } as Request);
+
+describe("auth middleware", () => {
+  beforeEach(() => {
+    process.env.JWT_SECRET = "test-secret";
+  });
+
+  describe("authenticateToken", () => {
+    it("should attach the token payload to the request", () => {
+      const req = mockRequest(generateToken("1", "test", "user"));
+      const res = mockResponse();
+      const next = jest.fn();
+
+      authenticateToken(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.user).toMatchObject({
+        userId: "1",
+        username: "test",
+        role: "user",
+      });
+    });
+
+    it("should reject a missing token", () => {
+      const res = mockResponse();
+      const next = jest.fn();
+
+      authenticateToken(mockRequest(), res, next);
+
+      expectError(next, 401);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it("should reject a revoked token", () => {
+      const token = generateToken("1", "test", "user");
+      const payload = jwt.decode(token) as TokenPayload;
+      new TokenService().revokeAccessToken(payload.jti, payload.exp);
+
+      const res = mockResponse();
+      const next = jest.fn();
+
+      authenticateToken(mockRequest(token), res, next);
+
+      expectError(next, 401);
+      expect(res.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("requireRole", () => {
+    const withUser = (role: TokenPayload["role"]) =>
+      ({ user: { userId: "1", username: "test", role } } as Request);
+
+    it("should allow a user holding a required role", () => {
+      const next = jest.fn();
+
+      requireRole("admin")(withUser("admin"), mockResponse(), next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should forbid a user without a required role", () => {
+      const res = mockResponse();
+      const next = jest.fn();
+
+      requireRole("admin")(withUser("user"), res, next);
+
+      expectError(next, 403);
+    });
+
+    it("should reject an unauthenticated request", () => {
+      const res = mockResponse();
+      const next = jest.fn();
+
+      requireRole("admin")({} as Request, res, next);
+
+      expectError(next, 401);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { Request, Response } from "express";
+import { Span, trace } from "@opentelemetry/api";
+import { errorHandler } from "../errorHandler";
+import { ValidationError } from "../../errors";
+import { QuotaExceededError } from "../../services/usageService";
+import { ProviderUnavailableError } from "../../providers";
+
+const mockResponse = () => {
+  const res = { headersSent: false } as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.set = jest.fn().mockReturnValue(res);
+  res.type = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const mockRequest = () =>
+  ({ method: "POST", originalUrl: "/api/chatbot/chat" } as Request);
+
+describe("errorHandler", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should respond with problem details for application errors", () => {
+    const res = mockResponse();
+
+    errorHandler(
+      new ValidationError("Invalid persona", [
+        { field: "name", message: "Name is required" },
+      ]),
+      mockRequest(),
+      res,
+      jest.fn()
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.type).toHaveBeenCalledWith("application/problem+json");
+    expect(res.json).toHaveBeenCalledWith({
+      type: "about:blank",
+      title: "Bad Request",
+      status: 400,
+      detail: "Invalid persona",
+      instance: "/api/chatbot/chat",
+      code: "validation_error",
+      details: [{ field: "name", message: "Name is required" }],
+    });
+  });
+
+  it("should set headers and extensions of domain errors", () => {
+    const res = mockResponse();
+    const resetsAt = new Date(Date.now() + 60_000);
+
+    errorHandler(
+      new QuotaExceededError("daily", 1000, resetsAt),
+      mockRequest(),
+      res,
+      jest.fn()
+    );
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.set).toHaveBeenCalledWith({ "Retry-After": "60" });
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: "quota_exceeded",
+        retryAfter: 60,
+        resetsAt,
+      })
+    );
+  });
+
+  it("should show a friendly detail when the LLM provider is down", () => {
+    const res = mockResponse();
+
+    errorHandler(
+      new ProviderUnavailableError("circuit_open", 30),
+      mockRequest(),
+      res,
+      jest.fn()
+    );
+
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: "provider_unavailable",
+        detail: expect.stringContaining("temporarily unavailable"),
+      })
+    );
+  });
+
+  it("should hide the message of unexpected errors", () => {
+    const res = mockResponse();
+
+    errorHandler(
+      new Error("ECONNREFUSED 10.0.0.4:5432"),
+      mockRequest(),
+      res,
+      jest.fn()
+    );
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: "internal_error",
+        detail: "An unexpected error occurred",
+      })
+    );
+  });
+
+  it("should record the exception on the active span", () => {
+    const span = {
+      recordException: jest.fn(),
+      setStatus: jest.fn(),
+      setAttribute: jest.fn(),
+      spanContext: () => ({ traceId: "trace-1" }),
+    } as unknown as Span;
+    jest.spyOn(trace, "getActiveSpan").mockReturnValue(span);
+    const error = new ValidationError("Message is required");
+    const res = mockResponse();
+
+    errorHandler(error, mockRequest(), res, jest.fn());
+
+    expect(span.recordException).toHaveBeenCalledWith(error);
+    expect(span.setAttribute).toHaveBeenCalledWith(
+      "error.type",
+      "validation_error"
+    );
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ traceId: "trace-1" })
+    );
+  });
+
+  it("should leave responses that have already started to Express", () => {
+    const res = mockResponse();
+    Object.assign(res, { headersSent: true });
+    const next = jest.fn();
+    const error = new Error("Stream failed");
+
+    errorHandler(error, mockRequest(), res, next);
+
+    expect(next).toHaveBeenCalledWith(error);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+import { Request, Response } from "express";
+import { validateBody } from "../validation";
+import { RequestSchemaName } from "../../api/schemas";
+import { ValidationError, ValidationIssue } from "../../errors";
+
+const validate = (name: RequestSchemaName, body: unknown) => {
+  const next = jest.fn();
+  validateBody(name)({ body } as Request, {} as Response, next);
+
+  const [error] = next.mock.calls[0];
+  return error as ValidationError | undefined;
+};
+
+const detailsOf = (error: ValidationError | undefined) =>
+  error?.extensions.details as ValidationIssue[] | undefined;
+
+describe("validateBody", () => {
+  it("should pass valid bodies on to the route", () => {
+    expect(
+      validate("ChatRequest", { message: "Hello", persona: "retail-assistant" })
+    ).toBeUndefined();
+  });
+
+  it("should report fields with the wrong type", () => {
+    const error = validate("ChatRequest", { message: 42 });
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error?.statusCode).toBe(400);
+    expect(detailsOf(error)).toEqual([
+      { field: "message", message: "must be string" },
+    ]);
+  });
+
+  it("should report missing, unknown and overly long fields", () => {
+    const error = validate("ChatRequest", {
+      conversationId: "x".repeat(65),
+      stream: true,
+    });
+
+    expect(detailsOf(error)).toEqual(
+      expect.arrayContaining([
+        { field: "message", message: "is required" },
+        { field: "stream", message: "is not allowed" },
+        {
+          field: "conversationId",
+          message: "must NOT have more than 64 characters",
+        },
+      ])
+    );
+  });
+
+  it("should reject blank titles", () => {
+    expect(
+      detailsOf(validate("RenameConversationRequest", { title: "   " }))
+    ).toEqual([{ field: "title", message: "must not be blank" }]);
+  });
+
+  it("should allow optional bodies to be omitted", () => {
+    expect(validate("LogoutRequest", undefined)).toBeUndefined();
+    expect(validate("RefreshRequest", undefined)).toBeInstanceOf(
+      ValidationError
+    );
+  });
+
+  it("should report every invalid persona field", () => {
+    const error = validate("Persona", {
+      id: "Not Valid",
+      name: " ",
+      systemPrompt: "",
+      temperature: 3,
+      maxTokens: 0,
+    });
+
+    expect(detailsOf(error)?.map((issue) => issue.field)).toEqual([
+      "id",
+      "name",
+      "systemPrompt",
+      "temperature",
+      "maxTokens",
+    ]);
+  });
+});
@@ -1,12 +1,20 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { log } from "../config/logger";
-import { trace } from "@opentelemetry/api";
+import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { v4 as uuidv4 } from "uuid";
+import { TokenService } from "../services/tokenService";
+import { AppError, AuthError, ForbiddenError } from "../errors";
+
+// Roles a user can hold
+export type Role = "user" | "admin";
 
 // Define interface for JWT payload
-interface TokenPayload {
+export interface TokenPayload {
   userId: string;
   username: string;
+  role: Role;
+  jti: string;
   iat: number;
   exp: number;
 }
@@ -20,6 +28,8 @@ declare global {
   }
 }
 
+const tokenService = new TokenService();
+
 /**
  * Middleware to authenticate JWT tokens
  */
@@ -31,77 +41,126 @@ export const authenticateToken = (
   const tracer = trace.getTracer("auth-middleware");
 
   return tracer.startActiveSpan("authenticate-token", (span) => {
+    // Errors are passed on while the span is active so they are recorded on it
+    const fail = (error: unknown) => {
+      next(error);
+      span.end();
+    };
+
     try {
       // Get the token from the Authorization header
       const authHeader = req.headers.authorization;
       const token = authHeader && authHeader.split(" ")[1]; // Bearer TOKEN format
 
       if (!token) {
-        span.setStatus({ code: trace.SpanStatusCode.ERROR });
-        span.setAttribute("error.type", "missing_token");
         log.warn("Authentication failed: Missing token");
 
-        span.end();
-        return res.status(401).json({ error: "Authentication required" });
+        return fail(new AuthError("Authentication required", "missing_token"));
       }
 
       // Verify token
       const secret = process.env.JWT_SECRET;
       if (!secret) {
-        span.setStatus({ code: trace.SpanStatusCode.ERROR });
-        span.setAttribute("error.type", "missing_secret");
-        log.error("JWT secret is not configured");
-
-        span.end();
-        return res.status(500).json({ error: "Server configuration error" });
+        return fail(
+          new AppError(
+            "JWT secret is not configured",
+            500,
+            "server_configuration_error"
+          )
+        );
       }
 
       jwt.verify(token, secret, (err, payload) => {
         if (err) {
-          span.setStatus({ code: trace.SpanStatusCode.ERROR });
-          span.setAttribute("error.type", "invalid_token");
-          span.setAttribute("error.message", err.message);
           log.warn("Authentication failed: Invalid token", {
             error: err.message,
           });
 
-          span.end();
-          return res.status(403).json({ error: "Invalid or expired token" });
+          return fail(
+            new ForbiddenError("Invalid or expired token", "invalid_token")
+          );
+        }
+
+        // Reject access tokens revoked by logout
+        const user = payload as TokenPayload;
+        if (tokenService.isAccessTokenRevoked(user.jti)) {
+          log.warn("Authentication failed: Revoked token", {
+            userId: user.userId,
+          });
+
+          return fail(new AuthError("Token has been revoked", "revoked_token"));
         }
 
         // Add user data to request
-        req.user = payload as TokenPayload;
+        req.user = user;
 
         span.setAttribute("user.id", req.user.userId);
-        span.setStatus({ code: trace.SpanStatusCode.OK });
+        span.setAttribute("user.role", req.user.role);
+        span.setStatus({ code: SpanStatusCode.OK });
         span.end();
 
         // Continue to the next middleware/route handler
         next();
       });
     } catch (error) {
-      span.setStatus({ code: trace.SpanStatusCode.ERROR });
-      span.setAttribute(
-        "error.type",
-        error instanceof Error ? error.name : "unknown"
-      );
-      span.setAttribute(
-        "error.message",
-        error instanceof Error ? error.message : "Unknown error"
-      );
-
-      log.error("Unexpected error in authentication", { error });
-
-      span.end();
-      return res.status(500).json({ error: "Authentication failed" });
+      fail(error);
     }
   });
 };
 
 /**
- * Generate a JWT token for a user
+ * Middleware to restrict a route to users holding one of the given roles.
+ * Must be placed after authenticateToken.
  */
-export const generateToken = (userId: string, username: string): string => {
+export const requireRole =
+  (...roles: Role[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const tracer = trace.getTracer("auth-middleware");
+
+    return tracer.startActiveSpan("authorize-role", (span) => {
+      const fail = (error: unknown) => {
+        next(error);
+        span.end();
+      };
+
+      span.setAttribute("auth.required_roles", roles);
+
+      if (!req.user) {
+        log.warn("Authorization failed: Request is not authenticated");
+
+        return fail(new AuthError("Authentication required", "missing_user"));
+      }
+
+      span.setAttribute("user.id", req.user.userId);
+      span.setAttribute("user.role", req.user.role);
+
+      if (!roles.includes(req.user.role)) {
+        log.warn("Authorization failed: Insufficient role", {
+          userId: req.user.userId,
+          role: req.user.role,
+        });
+
+        return fail(
+          new ForbiddenError("Insufficient permissions", "insufficient_role")
+        );
+      }
+
+      span.setStatus({ code: SpanStatusCode.OK });
+      span.end();
+
+      next();
+    });
+  };
+
+/**
+ * Generate a short-lived JWT access token for a user.
+ * Each token gets a unique ID (jti) so it can be revoked on logout.
+ */
+export const generateToken = (
+  userId: string,
+  username: string,
+  role: Role
+): string => {
   const secret = process.env.JWT_SECRET;
 
   if (!secret) {
@@ -109,7 +168,11 @@ export const generateToken = (userId: string, username: string): string => {
     throw new Error("JWT secret is not configured");
   }
 
-  const expiresIn = process.env.JWT_EXPIRES_IN || "1d";
+  const expiresIn = (process.env.JWT_EXPIRES_IN ||
+    "15m") as jwt.SignOptions["expiresIn"];
 
-  return jwt.sign({ userId, username }, secret, { expiresIn });
+  return jwt.sign({ userId, username, role }, secret, {
+    expiresIn,
+    jwtid: uuidv4(),
+  });
 };
@@ -0,0 +1,56 @@
+import { ErrorRequestHandler, RequestHandler } from "express";
+import { trace } from "@opentelemetry/api";
+import { log } from "../config/logger";
+import {
+  AppError,
+  NotFoundError,
+  recordSpanError,
+  toProblemDetails,
+} from "../errors";
+
+/**
+ * Respond to requests no route handled with a 404 problem
+ */
+export const notFoundHandler: RequestHandler = (req, res, next) => {
+  next(new NotFoundError("API endpoint not found"));
+};
+
+/**
+ * Turn errors passed to next() into application/problem+json responses and
+ * record them on the active span. Must be registered after all routes.
+ */
+export const errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+  const span = trace.getActiveSpan();
+  const problem = toProblemDetails(error, req.originalUrl);
+
+  if (span) {
+    recordSpanError(span, error);
+    problem.traceId = span.spanContext().traceId;
+  }
+
+  if (problem.status >= 500) {
+    log.error("Request failed", {
+      error,
+      method: req.method,
+      path: req.originalUrl,
+    });
+  } else {
+    log.warn("Request rejected", {
+      code: problem.code,
+      detail: problem.detail,
+      method: req.method,
+      path: req.originalUrl,
+    });
+  }
+
+  // Let Express close the connection if the response is already underway
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  if (error instanceof AppError) {
+    res.set(error.headers);
+  }
+
+  res.status(problem.status).type("application/problem+json").json(problem);
+};
@@ -0,0 +1,74 @@
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { RequestHandler } from "express";
+import { NOT_BLANK, requestSchemas, RequestSchemaName } from "../api/schemas";
+import { ValidationError, ValidationIssue } from "../errors";
+
+const ajv = new Ajv({ allErrors: true });
+
+// Compiled on first use and shared by every route using the schema
+const validators = new Map<RequestSchemaName, ValidateFunction>();
+
+const getValidator = (name: RequestSchemaName): ValidateFunction => {
+  let validator = validators.get(name);
+
+  if (!validator) {
+    validator = ajv.compile(requestSchemas[name]);
+    validators.set(name, validator);
+  }
+
+  return validator;
+};
+
+/**
+ * Describe a schema violation in terms of the request field it concerns
+ */
+const toIssue = (error: ErrorObject): ValidationIssue => {
+  // e.g. "/message" becomes "message"
+  const path = error.instancePath.slice(1).replace(/\//g, ".");
+  const field = (name: string) => (path ? `${path}.${name}` : name);
+
+  switch (error.keyword) {
+    case "required":
+      return {
+        field: field(error.params.missingProperty),
+        message: "is required",
+      };
+    case "additionalProperties":
+      return {
+        field: field(error.params.additionalProperty),
+        message: "is not allowed",
+      };
+    case "pattern":
+      return {
+        field: path,
+        message:
+          error.params.pattern === NOT_BLANK
+            ? "must not be blank"
+            : "has an invalid format",
+      };
+    default:
+      return { field: path || "body", message: error.message ?? "is invalid" };
+  }
+};
+
+/**
+ * Reject requests whose JSON body doesn't match the named request schema,
+ * reporting every invalid field
+ */
+export const validateBody =
+  (name: RequestSchemaName): RequestHandler =>
+  (req, res, next) => {
+    const validate = getValidator(name);
+
+    // A missing body is treated as empty so optional bodies can be omitted
+    if (validate(req.body ?? {})) {
+      return next();
+    }
+
+    next(
+      new ValidationError(
+        "Request validation failed",
+        (validate.errors ?? []).map(toIssue)
+      )
+    );
+  };
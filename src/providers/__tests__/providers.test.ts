@@ -0,0 +1,320 @@
+import { Configuration, OpenAIApi } from "openai";
+import { Readable } from "stream";
+import {
+  AzureOpenAIProvider,
+  createLLMProvider,
+  OpenAIProvider,
+  ScriptedProvider,
+} from "..";
+import { getSecret } from "../../utils/azureKeyVault";
+
+// Mock OpenAI
+jest.mock("openai", () => {
+  const mockOpenAIApi = {
+    createChatCompletion: jest.fn().mockResolvedValue({
+      data: {
+        id: "chatcmpl-1",
+        model: "gpt-4-0613",
+        choices: [
+          {
+            message: { content: "This is a mock response" },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+      },
+    }),
+    createEmbedding: jest.fn().mockResolvedValue({
+      data: {
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+      },
+    }),
+  };
+
+  return {
+    Configuration: jest.fn().mockImplementation((options) => options),
+    OpenAIApi: jest.fn().mockImplementation(() => mockOpenAIApi),
+  };
+});
+
+// Mock Azure Key Vault
+jest.mock("../../utils/azureKeyVault", () => ({
+  getSecret: jest.fn().mockResolvedValue("vault-api-key"),
+}));
+
+const request = {
+  model: "gpt-4",
+  messages: [
+    { role: "system" as const, content: "Be helpful" },
+    { role: "user" as const, content: "Hello" },
+  ],
+  maxTokens: 500,
+  temperature: 0.7,
+};
+
+const collect = async <T>(stream: AsyncIterable<T>): Promise<T[]> => {
+  const chunks = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+describe("LLM providers", () => {
+  const openai = new OpenAIApi(new Configuration());
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    delete process.env.LLM_PROVIDER;
+  });
+
+  describe("OpenAIProvider", () => {
+    it("should map completions, usage and metadata from the API response", async () => {
+      const provider = new OpenAIProvider({ apiKey: "test-key" });
+
+      const result = await provider.createChatCompletion(request);
+
+      expect(result).toEqual({
+        content: "This is a mock response",
+        finishReason: "stop",
+        responseModel: "gpt-4-0613",
+        responseId: "chatcmpl-1",
+        usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+      });
+      expect(openai.createChatCompletion).toHaveBeenCalledWith(
+        {
+          model: "gpt-4",
+          messages: request.messages,
+          max_tokens: 500,
+          temperature: 0.7,
+        },
+        { signal: undefined }
+      );
+    });
+
+    it("should map function calls in both directions", async () => {
+      (openai.createChatCompletion as jest.Mock).mockResolvedValueOnce({
+        data: {
+          choices: [
+            {
+              message: {
+                content: null,
+                function_call: {
+                  name: "check_inventory",
+                  arguments: '{"product":"boots"}',
+                },
+              },
+            },
+          ],
+        },
+      });
+      const provider = new OpenAIProvider({ apiKey: "test-key" });
+      const functionCall = { name: "lookup", arguments: "{}" };
+      const functions = [
+        { name: "check_inventory", description: "Stock", parameters: {} },
+      ];
+
+      const result = await provider.createChatCompletion({
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: "assistant", content: "", functionCall },
+          { role: "function", name: "lookup", content: "{}" },
+        ],
+        functions,
+      });
+
+      expect(result.functionCall).toEqual({
+        name: "check_inventory",
+        arguments: '{"product":"boots"}',
+      });
+      expect(openai.createChatCompletion).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functions,
+          messages: [
+            ...request.messages,
+            { role: "assistant", content: "", function_call: functionCall },
+            { role: "function", name: "lookup", content: "{}" },
+          ],
+        }),
+        { signal: undefined }
+      );
+    });
+
+    it("should assemble streamed function call fragments", async () => {
+      const fragments = [
+        { name: "check_inventory", arguments: '{"prod' },
+        { arguments: 'uct":"boots"}' },
+      ].map(
+        (functionCall) =>
+          `data: ${JSON.stringify({
+            choices: [{ delta: { function_call: functionCall } }],
+          })}\n`
+      );
+      (openai.createChatCompletion as jest.Mock).mockResolvedValueOnce({
+        data: Readable.from([...fragments, "data: [DONE]\n"]),
+      });
+      const provider = new OpenAIProvider({ apiKey: "test-key" });
+
+      const chunks = await collect(provider.streamChatCompletion(request));
+
+      expect(chunks).toEqual([
+        {
+          type: "function_call",
+          functionCall: {
+            name: "check_inventory",
+            arguments: '{"product":"boots"}',
+          },
+        },
+        { type: "finish" },
+      ]);
+    });
+
+    it("should parse streamed server-sent events into tokens", async () => {
+      const lines = [
+        { delta: { content: "Hello" } },
+        { delta: { content: " there" } },
+        { delta: {}, finish_reason: "stop" },
+      ].map(
+        (choice) =>
+          `data: ${JSON.stringify({
+            id: "chatcmpl-1",
+            model: "gpt-4-0613",
+            choices: [choice],
+          })}\n`
+      );
+      // Split a line across chunks to exercise buffering
+      const body = [...lines, "data: [DONE]\n"].join("");
+      (openai.createChatCompletion as jest.Mock).mockResolvedValueOnce({
+        data: Readable.from([body.slice(0, 20), body.slice(20)]),
+      });
+      const provider = new OpenAIProvider({ apiKey: "test-key" });
+
+      const chunks = await collect(provider.streamChatCompletion(request));
+
+      expect(chunks).toEqual([
+        { type: "token", content: "Hello" },
+        { type: "token", content: " there" },
+        {
+          type: "finish",
+          finishReason: "stop",
+          responseModel: "gpt-4-0613",
+          responseId: "chatcmpl-1",
+        },
+      ]);
+    });
+
+    it("should return embeddings in input order", async () => {
+      const provider = new OpenAIProvider({ apiKey: "test-key" });
+
+      const embeddings = await provider.createEmbeddings(["first", "second"]);
+
+      expect(embeddings).toEqual([
+        [1, 0],
+        [0, 1],
+      ]);
+      expect(openai.createEmbedding).toHaveBeenCalledWith({
+        model: "text-embedding-ada-002",
+        input: ["first", "second"],
+      });
+    });
+
+    it("should retrieve the API key from Key Vault when none is configured", async () => {
+      const provider = new OpenAIProvider({
+        keyVaultSecretName: "openai-api-key",
+      });
+
+      await provider.initialize();
+
+      expect(getSecret).toHaveBeenCalledWith("openai-api-key");
+      expect(Configuration).toHaveBeenLastCalledWith({
+        apiKey: "vault-api-key",
+      });
+    });
+  });
+
+  describe("AzureOpenAIProvider", () => {
+    it("should target the deployment with the api-version and api-key", () => {
+      new AzureOpenAIProvider({
+        apiKey: "azure-key",
+        endpoint: "https://store.openai.azure.com/",
+        deployment: "chat",
+        apiVersion: "2023-05-15",
+      });
+
+      expect(Configuration).toHaveBeenLastCalledWith({
+        apiKey: "azure-key",
+        basePath: "https://store.openai.azure.com/openai/deployments/chat",
+        baseOptions: {
+          headers: { "api-key": "azure-key" },
+          params: { "api-version": "2023-05-15" },
+        },
+      });
+    });
+  });
+
+  describe("ScriptedProvider", () => {
+    it("should embed texts sharing words as similar vectors", async () => {
+      const provider = new ScriptedProvider();
+
+      const [boots, hikingBoots, tent] = await provider.createEmbeddings([
+        "boots",
+        "hiking boots",
+        "tent",
+      ]);
+      const dot = (a: number[], b: number[]) =>
+        a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+      expect(dot(boots, hikingBoots)).toBeGreaterThan(0);
+      expect(dot(boots, tent)).toBe(0);
+    });
+
+    it("should return scripted responses in order and then echo", async () => {
+      const provider = new ScriptedProvider(["First", "Second"]);
+
+      const results = [];
+      for (let i = 0; i < 3; i++) {
+        results.push((await provider.createChatCompletion(request)).content);
+      }
+
+      expect(results).toEqual(["First", "Second", "Echo: Hello"]);
+      expect(provider.requests).toHaveLength(3);
+    });
+
+    it("should stream a response word by word", async () => {
+      const provider = new ScriptedProvider(["Hello there friend"]);
+
+      const chunks = await collect(provider.streamChatCompletion(request));
+
+      expect(
+        chunks.map((chunk) => chunk.type === "token" && chunk.content)
+      ).toEqual(["Hello", " there", " friend", false]);
+      expect(chunks[3]).toEqual({
+        type: "finish",
+        finishReason: "stop",
+        responseModel: "gpt-4",
+      });
+    });
+  });
+
+  describe("createLLMProvider", () => {
+    it("should select the provider from the environment", () => {
+      process.env.LLM_PROVIDER = "scripted";
+      expect(createLLMProvider()).toBeInstanceOf(ScriptedProvider);
+
+      process.env.LLM_PROVIDER = "azure-openai";
+      expect(createLLMProvider()).toBeInstanceOf(AzureOpenAIProvider);
+
+      delete process.env.LLM_PROVIDER;
+      expect(createLLMProvider().name).toBe("openai");
+    });
+
+    it("should reject unknown providers", () => {
+      process.env.LLM_PROVIDER = "unknown";
+      expect(() => createLLMProvider()).toThrow("Unknown LLM provider");
+    });
+  });
+});
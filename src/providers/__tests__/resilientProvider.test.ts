@@ -0,0 +1,281 @@
+import {
+  ChatCompletionChunk,
+  CircuitBreaker,
+  getRetryAfterMs,
+  ProviderUnavailableError,
+  ResilienceConfig,
+  ResilientProvider,
+  ScriptedProvider,
+} from "..";
+
+const config: ResilienceConfig = {
+  timeoutMs: 50,
+  maxRetries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 100,
+  failureThreshold: 5,
+  resetTimeoutMs: 60000,
+};
+
+const request = {
+  model: "gpt-4",
+  messages: [{ role: "user" as const, content: "Hello" }],
+  maxTokens: 500,
+  temperature: 0.7,
+};
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers },
+  });
+
+const collect = async <T>(stream: AsyncIterable<T>): Promise<T[]> => {
+  const chunks = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
+
+describe("CircuitBreaker", () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker(
+      { failureThreshold: 2, resetTimeoutMs: 10000 },
+      () => now
+    );
+  });
+
+  it("should open after consecutive failures and reject requests", () => {
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe("closed");
+
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getRetryAfterSeconds()).toBe(10);
+  });
+
+  it("should let a single probe through once the reset timeout elapses", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 10000;
+
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getState()).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+
+    expect(breaker.getStatus()).toEqual({
+      state: "closed",
+      consecutiveFailures: 0,
+    });
+  });
+
+  it("should re-open when the probe fails", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    now = 10000;
+    breaker.tryAcquire();
+
+    breaker.recordFailure();
+
+    expect(breaker.getStatus()).toMatchObject({
+      state: "open",
+      openedAt: new Date(10000).toISOString(),
+      retryAfterSeconds: 10,
+    });
+  });
+});
+
+describe("ResilientProvider", () => {
+  let backend: ScriptedProvider;
+
+  beforeEach(() => {
+    backend = new ScriptedProvider();
+  });
+
+  it("should retry retryable failures and return the eventual result", async () => {
+    const create = jest
+      .spyOn(backend, "createChatCompletion")
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429, { "retry-after": "0" }));
+    const provider = new ResilientProvider(backend, config);
+
+    const result = await provider.createChatCompletion(request);
+
+    expect(result.content).toBe("Echo: Hello");
+    expect(create).toHaveBeenCalledTimes(3);
+    expect(provider.getHealth().circuitBreaker?.consecutiveFailures).toBe(0);
+  });
+
+  it("should pass non-retryable errors through without retrying", async () => {
+    const error = httpError(400);
+    const create = jest
+      .spyOn(backend, "createChatCompletion")
+      .mockRejectedValue(error);
+    const provider = new ResilientProvider(backend, config);
+
+    await expect(provider.createChatCompletion(request)).rejects.toBe(error);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(provider.getHealth().status).toBe("healthy");
+  });
+
+  it("should give up when retries are exhausted", async () => {
+    const create = jest
+      .spyOn(backend, "createChatCompletion")
+      .mockRejectedValue(httpError(500));
+    const provider = new ResilientProvider(backend, config);
+
+    const error = await provider.createChatCompletion(request).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableError);
+    expect(error.reason).toBe("retries_exhausted");
+    expect(create).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not wait longer than the maximum delay for Retry-After", async () => {
+    const create = jest
+      .spyOn(backend, "createChatCompletion")
+      .mockRejectedValue(httpError(429, { "retry-after": "120" }));
+    const provider = new ResilientProvider(backend, config);
+
+    const error = await provider.createChatCompletion(request).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableError);
+    expect(error.retryAfterSeconds).toBe(120);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it("should time out attempts that take too long", async () => {
+    const create = jest
+      .spyOn(backend, "createChatCompletion")
+      .mockReturnValueOnce(new Promise(() => undefined));
+    const provider = new ResilientProvider(backend, config);
+
+    const result = await provider.createChatCompletion(request);
+
+    expect(result.content).toBe("Echo: Hello");
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(create.mock.calls[0][0].signal?.aborted).toBe(true);
+  });
+
+  it("should fail fast while the circuit is open", async () => {
+    const create = jest
+      .spyOn(backend, "createChatCompletion")
+      .mockRejectedValue(httpError(502));
+    const provider = new ResilientProvider(backend, {
+      ...config,
+      maxRetries: 0,
+      failureThreshold: 2,
+    });
+
+    await expect(provider.createChatCompletion(request)).rejects.toThrow();
+    await expect(provider.createChatCompletion(request)).rejects.toThrow();
+    const error = await provider.createChatCompletion(request).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableError);
+    expect(error.reason).toBe("circuit_open");
+    expect(error.retryAfterSeconds).toBe(60);
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(provider.getHealth()).toMatchObject({
+      status: "unavailable",
+      circuitBreaker: { state: "open", consecutiveFailures: 2 },
+    });
+  });
+
+  it("should close the circuit after a successful probe", async () => {
+    jest
+      .spyOn(backend, "createChatCompletion")
+      .mockRejectedValueOnce(httpError(503));
+    const provider = new ResilientProvider(backend, {
+      ...config,
+      maxRetries: 0,
+      failureThreshold: 1,
+      resetTimeoutMs: 10,
+    });
+
+    await expect(provider.createChatCompletion(request)).rejects.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    await expect(provider.createChatCompletion(request)).resolves.toEqual(
+      expect.objectContaining({ content: "Echo: Hello" })
+    );
+    expect(provider.getHealth().status).toBe("healthy");
+  });
+
+  it("should not count cancelled requests as failures", async () => {
+    const controller = new AbortController();
+    jest
+      .spyOn(backend, "createChatCompletion")
+      .mockImplementation(() => new Promise(() => undefined));
+    const provider = new ResilientProvider(backend, config);
+
+    const pending = provider.createChatCompletion({
+      ...request,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow("aborted");
+    expect(provider.getHealth().circuitBreaker?.consecutiveFailures).toBe(0);
+  });
+
+  it("should retry a stream that fails before its first chunk", async () => {
+    const original = backend.streamChatCompletion.bind(backend);
+    const stream = jest
+      .spyOn(backend, "streamChatCompletion")
+      .mockImplementationOnce(async function* () {
+        throw httpError(503);
+      })
+      .mockImplementation(original);
+    const provider = new ResilientProvider(backend, config);
+
+    const chunks = await collect(provider.streamChatCompletion(request));
+
+    expect(
+      chunks.map((chunk) => chunk.type === "token" && chunk.content)
+    ).toEqual(["Echo:", " Hello", false]);
+    expect(stream).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry a stream that fails after output was yielded", async () => {
+    const stream = jest
+      .spyOn(backend, "streamChatCompletion")
+      .mockImplementation(
+        async function* (): AsyncGenerator<ChatCompletionChunk> {
+          yield { type: "token", content: "Partial" };
+          throw httpError(503);
+        }
+      );
+    const provider = new ResilientProvider(backend, config);
+
+    await expect(
+      collect(provider.streamChatCompletion(request))
+    ).rejects.toThrow("503");
+    expect(stream).toHaveBeenCalledTimes(1);
+    expect(provider.getHealth().circuitBreaker?.consecutiveFailures).toBe(1);
+  });
+
+  describe("getRetryAfterMs", () => {
+    it("should read seconds and HTTP dates", () => {
+      const now = Date.parse("2024-01-01T00:00:00Z");
+
+      expect(getRetryAfterMs(httpError(429, { "retry-after": "2" }))).toBe(
+        2000
+      );
+      expect(
+        getRetryAfterMs(
+          httpError(503, { "retry-after": "Mon, 01 Jan 2024 00:00:05 GMT" }),
+          now
+        )
+      ).toBe(5000);
+      expect(getRetryAfterMs(httpError(503))).toBeUndefined();
+    });
+  });
+});
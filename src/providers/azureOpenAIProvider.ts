@@ -0,0 +1,51 @@
+import { Configuration, OpenAIApi } from "openai";
+import { OpenAIProvider, OpenAIProviderConfig } from "./openAIProvider";
+
+export interface AzureOpenAIProviderConfig extends OpenAIProviderConfig {
+  endpoint: string; // e.g. https://my-resource.openai.azure.com
+  deployment: string;
+  embeddingDeployment?: string;
+  apiVersion: string;
+}
+
+/**
+ * Provider backed by an Azure OpenAI deployment. Azure selects the model by
+ * deployment, so the model named in a request is ignored by the API.
+ */
+export class AzureOpenAIProvider extends OpenAIProvider {
+  public readonly name = "azure-openai";
+
+  constructor(protected config: AzureOpenAIProviderConfig) {
+    super(config);
+  }
+
+  protected createClient(apiKey: string): OpenAIApi {
+    return this.createDeploymentClient(apiKey, this.config.deployment);
+  }
+
+  // Embeddings are served by their own deployment
+  protected createEmbeddingClient(apiKey: string): OpenAIApi {
+    return this.createDeploymentClient(
+      apiKey,
+      this.config.embeddingDeployment || this.config.deployment
+    );
+  }
+
+  private createDeploymentClient(
+    apiKey: string,
+    deployment: string
+  ): OpenAIApi {
+    const endpoint = this.config.endpoint.replace(/\/+$/, "");
+
+    return new OpenAIApi(
+      new Configuration({
+        apiKey,
+        basePath: `${endpoint}/openai/deployments/${deployment}`,
+        baseOptions: {
+          headers: { "api-key": apiKey },
+          params: { "api-version": this.config.apiVersion },
+        },
+      })
+    );
+  }
+}
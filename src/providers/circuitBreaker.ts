@@ -0,0 +1,114 @@
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  resetTimeoutMs: number; // How long the circuit stays open before a probe
+}
+
+// Breaker state as reported by health checks
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Tracks consecutive failures of a dependency and stops calling it once it
+ * looks unhealthy. After the reset timeout a single probe request is let
+ * through (half-open); its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(
+    private config: CircuitBreakerConfig,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Whether a request may be made, claiming the probe when half-open
+   */
+  public tryAcquire(): boolean {
+    if (
+      this.state === "open" &&
+      this.now() >= this.openedAt + this.config.resetTimeoutMs
+    ) {
+      this.state = "half-open";
+    }
+
+    if (this.state === "closed") {
+      return true;
+    }
+
+    if (this.state === "half-open" && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  public recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+
+    if (this.state !== "closed") {
+      this.state = "closed";
+    }
+  }
+
+  public recordFailure(): void {
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+
+    if (
+      this.state === "half-open" ||
+      (this.state === "closed" &&
+        this.consecutiveFailures >= this.config.failureThreshold)
+    ) {
+      this.openedAt = this.now();
+      this.state = "open";
+    }
+  }
+
+  /**
+   * Give up a claimed request without a verdict, e.g. when the caller
+   * cancelled it
+   */
+  public release(): void {
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Seconds until the circuit will let a probe through
+   */
+  public getRetryAfterSeconds(): number {
+    if (this.state !== "open") {
+      return 0;
+    }
+
+    const remainingMs = this.openedAt + this.config.resetTimeoutMs - this.now();
+    return Math.max(1, Math.ceil(remainingMs / 1000));
+  }
+
+  public getState(): CircuitState {
+    return this.state;
+  }
+
+  public getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt:
+        this.state === "open"
+          ? new Date(this.openedAt).toISOString()
+          : undefined,
+      retryAfterSeconds:
+        this.state === "open" ? this.getRetryAfterSeconds() : undefined,
+    };
+  }
+}
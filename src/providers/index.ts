@@ -0,0 +1,72 @@
+import { LLMProvider } from "./llmProvider";
+import { OpenAIProvider } from "./openAIProvider";
+import { AzureOpenAIProvider } from "./azureOpenAIProvider";
+import { ScriptedProvider } from "./scriptedProvider";
+import { ResilientProvider } from "./resilientProvider";
+
+export * from "./llmProvider";
+export { OpenAIProvider, OpenAIProviderConfig } from "./openAIProvider";
+export {
+  AzureOpenAIProvider,
+  AzureOpenAIProviderConfig,
+} from "./azureOpenAIProvider";
+export { ScriptedProvider, ScriptedResponse } from "./scriptedProvider";
+export * from "./circuitBreaker";
+export * from "./resilientProvider";
+
+/**
+ * Create the LLM provider selected by the LLM_PROVIDER environment variable
+ */
+export const createLLMProvider = (): LLMProvider => {
+  const provider = process.env.LLM_PROVIDER || "openai";
+
+  switch (provider) {
+    case "openai":
+      return new OpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        keyVaultSecretName: "openai-api-key",
+        embeddingModel: process.env.OPENAI_EMBEDDING_MODEL,
+      });
+    case "azure-openai":
+      return new AzureOpenAIProvider({
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        keyVaultSecretName: "azure-openai-api-key",
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT || "",
+        deployment: process.env.AZURE_OPENAI_DEPLOYMENT || "",
+        embeddingDeployment: process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2023-05-15",
+      });
+    case "scripted":
+      return new ScriptedProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+};
+
+// Shared by every service unless a provider is injected
+let sharedBaseLLMProvider: LLMProvider | undefined;
+let sharedLLMProvider: LLMProvider | undefined;
+let sharedEmbeddingProvider: LLMProvider | undefined;
+
+/**
+ * Get the configured provider without retries or a circuit breaker, for
+ * callers whose failures must not count against chat traffic
+ */
+export const getSharedBaseLLMProvider = (): LLMProvider =>
+  (sharedBaseLLMProvider ??= createLLMProvider());
+
+/**
+ * Get the configured provider, wrapped with retries and a circuit breaker,
+ * shared across the application so they all see the same breaker state
+ */
+export const getSharedLLMProvider = (): LLMProvider =>
+  (sharedLLMProvider ??= new ResilientProvider(getSharedBaseLLMProvider()));
+
+/**
+ * Get the provider used for catalog embeddings. It has its own circuit
+ * breaker so embedding failures can't open the one chat completions use.
+ */
+export const getSharedEmbeddingProvider = (): LLMProvider =>
+  (sharedEmbeddingProvider ??= new ResilientProvider(
+    getSharedBaseLLMProvider()
+  ));
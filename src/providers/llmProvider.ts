@@ -0,0 +1,97 @@
+import { ChatMessage } from "../repositories";
+import { TokenUsage } from "../services/usageService";
+import { CircuitBreakerStatus } from "./circuitBreaker";
+
+// A function the model may call, described by a JSON schema
+export interface FunctionDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// A function call requested by the model
+export interface FunctionCall {
+  name: string;
+  arguments: string; // JSON text as generated by the model
+}
+
+// Messages exchanged with the model, including those of a tool loop
+export type LLMMessage =
+  | ChatMessage
+  | { role: "assistant"; content: string; functionCall: FunctionCall }
+  | { role: "function"; name: string; content: string };
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  functions?: FunctionDefinition[];
+  signal?: AbortSignal;
+}
+
+// Details of a response as reported by the backend
+export interface ResponseMetadata {
+  finishReason?: string; // e.g. "stop", "length" or "function_call"
+  responseModel?: string; // The model that actually answered
+  responseId?: string;
+}
+
+export interface ChatCompletionResult extends ResponseMetadata {
+  content: string;
+  functionCall?: FunctionCall;
+  usage?: TokenUsage; // Not every backend reports usage
+}
+
+// Part of a streamed completion. The finish chunk, when the backend
+// reports one, comes last.
+export type ChatCompletionChunk =
+  | { type: "token"; content: string }
+  | { type: "function_call"; functionCall: FunctionCall }
+  | ({ type: "finish" } & ResponseMetadata);
+
+// Availability of a backend as reported by health checks
+export interface ProviderHealth {
+  status: "healthy" | "degraded" | "unavailable";
+  circuitBreaker?: CircuitBreakerStatus;
+}
+
+/**
+ * A chat completion backend such as OpenAI or Azure OpenAI
+ */
+export interface LLMProvider {
+  /**
+   * Identifies the backend in traces and logs, e.g. "openai"
+   */
+  readonly name: string;
+
+  /**
+   * Prepare the provider, e.g. by retrieving credentials
+   */
+  initialize?(): Promise<void>;
+
+  /**
+   * Report whether the backend is currently usable
+   */
+  getHealth?(): ProviderHealth;
+
+  /**
+   * Generate a complete response
+   */
+  createChatCompletion(
+    request: ChatCompletionRequest
+  ): Promise<ChatCompletionResult>;
+
+  /**
+   * Generate a response, yielding content tokens as they are produced. A
+   * requested function call is yielded once it is complete.
+   */
+  streamChatCompletion(
+    request: ChatCompletionRequest
+  ): AsyncIterable<ChatCompletionChunk>;
+
+  /**
+   * Embed texts as vectors, returned in the same order as the input
+   */
+  createEmbeddings(texts: string[]): Promise<number[][]>;
+}
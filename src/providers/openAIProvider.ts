@@ -0,0 +1,205 @@
+import {
+  ChatCompletionRequestMessage,
+  Configuration,
+  CreateChatCompletionRequest,
+  OpenAIApi,
+} from "openai";
+import { log } from "../config/logger";
+import { getSecret } from "../utils/azureKeyVault";
+import {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  LLMProvider,
+  ResponseMetadata,
+} from "./llmProvider";
+
+export interface OpenAIProviderConfig {
+  apiKey?: string;
+  keyVaultSecretName?: string; // Used when no API key is configured
+  embeddingModel?: string;
+}
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-ada-002";
+
+/**
+ * Provider backed by the OpenAI chat completions API
+ */
+export class OpenAIProvider implements LLMProvider {
+  public readonly name: string = "openai";
+  protected client: OpenAIApi;
+  protected embeddingClient: OpenAIApi;
+
+  constructor(protected config: OpenAIProviderConfig) {
+    this.client = this.createClient(config.apiKey || "");
+    this.embeddingClient = this.createEmbeddingClient(config.apiKey || "");
+  }
+
+  /**
+   * Retrieve the API key from Azure Key Vault if it isn't configured
+   */
+  public async initialize(): Promise<void> {
+    if (this.config.apiKey || !this.config.keyVaultSecretName) {
+      return;
+    }
+
+    log.info(`Retrieving ${this.name} API key from Azure Key Vault`);
+
+    const apiKey = await getSecret(this.config.keyVaultSecretName);
+
+    if (apiKey) {
+      this.client = this.createClient(apiKey);
+      this.embeddingClient = this.createEmbeddingClient(apiKey);
+      log.info(`Successfully configured ${this.name} with key from Key Vault`);
+    } else {
+      log.error(`Failed to retrieve ${this.name} API key from Key Vault`);
+    }
+  }
+
+  public async createChatCompletion(
+    request: ChatCompletionRequest
+  ): Promise<ChatCompletionResult> {
+    const response = await this.client.createChatCompletion(
+      this.toOpenAIRequest(request),
+      { signal: request.signal }
+    );
+
+    const choice = response.data.choices[0];
+    const message = choice?.message;
+    const usage = response.data.usage;
+
+    return {
+      content: message?.content ?? "",
+      finishReason: choice?.finish_reason,
+      responseModel: response.data.model,
+      responseId: response.data.id,
+      functionCall: message?.function_call?.name
+        ? {
+            name: message.function_call.name,
+            arguments: message.function_call.arguments ?? "{}",
+          }
+        : undefined,
+      usage: usage && {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      },
+    };
+  }
+
+  public async *streamChatCompletion(
+    request: ChatCompletionRequest
+  ): AsyncIterable<ChatCompletionChunk> {
+    // Request a streamed completion; the body is a server-sent event stream
+    const response = await this.client.createChatCompletion(
+      { ...this.toOpenAIRequest(request), stream: true },
+      { responseType: "stream", signal: request.signal }
+    );
+
+    const stream = response.data as unknown as AsyncIterable<Buffer>;
+    let buffer = "";
+
+    // Function calls arrive in fragments and are yielded once complete
+    let functionName = "";
+    let functionArguments = "";
+    const metadata: ResponseMetadata = {};
+
+    for await (const chunk of stream) {
+      buffer += chunk.toString();
+
+      // Keep any incomplete trailing line for the next chunk
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+
+        const data = line.slice("data:".length).trim();
+        if (data === "[DONE]") break;
+
+        const parsed = JSON.parse(data);
+        const choice = parsed.choices?.[0];
+        const delta = choice?.delta;
+
+        metadata.responseModel ??= parsed.model;
+        metadata.responseId ??= parsed.id;
+        metadata.finishReason = choice?.finish_reason ?? metadata.finishReason;
+
+        if (delta?.content) {
+          yield { type: "token", content: delta.content };
+        }
+        if (delta?.function_call) {
+          functionName += delta.function_call.name ?? "";
+          functionArguments += delta.function_call.arguments ?? "";
+        }
+      }
+    }
+
+    if (functionName) {
+      yield {
+        type: "function_call",
+        functionCall: {
+          name: functionName,
+          arguments: functionArguments || "{}",
+        },
+      };
+    }
+
+    yield { type: "finish", ...metadata };
+  }
+
+  public async createEmbeddings(texts: string[]): Promise<number[][]> {
+    const response = await this.embeddingClient.createEmbedding({
+      model: this.config.embeddingModel || DEFAULT_EMBEDDING_MODEL,
+      input: texts,
+    });
+
+    // Results carry their input index and aren't guaranteed to be in order
+    return [...response.data.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+
+  /**
+   * Convert a request into the shape the OpenAI API expects
+   */
+  private toOpenAIRequest(
+    request: ChatCompletionRequest
+  ): CreateChatCompletionRequest {
+    return {
+      model: request.model,
+      messages: request.messages.map(
+        (message): ChatCompletionRequestMessage => {
+          if (message.role === "function") {
+            return {
+              role: "function",
+              name: message.name,
+              content: message.content,
+            };
+          }
+
+          if ("functionCall" in message) {
+            return {
+              role: "assistant",
+              content: message.content,
+              function_call: message.functionCall,
+            };
+          }
+
+          return { role: message.role, content: message.content };
+        }
+      ),
+      functions: request.functions?.length ? request.functions : undefined,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    };
+  }
+
+  protected createClient(apiKey: string): OpenAIApi {
+    return new OpenAIApi(new Configuration({ apiKey }));
+  }
+
+  protected createEmbeddingClient(apiKey: string): OpenAIApi {
+    return this.createClient(apiKey);
+  }
+}
@@ -0,0 +1,493 @@
+import { Span, trace } from "@opentelemetry/api";
+import { log } from "../config/logger";
+import { recordLLMError } from "../config/metrics";
+import { UpstreamError } from "../errors";
+import { CircuitBreaker } from "./circuitBreaker";
+import {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  LLMProvider,
+  ProviderHealth,
+} from "./llmProvider";
+
+export interface ResilienceConfig {
+  timeoutMs: number; // Per attempt; for streams, until the first chunk
+  maxRetries: number;
+  baseDelayMs: number; // Backoff before the first retry, doubled each time
+  maxDelayMs: number; // Longest wait between attempts, including Retry-After
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeoutMs: number; // How long the circuit stays open
+}
+
+export const loadResilienceConfig = (): ResilienceConfig => ({
+  timeoutMs: Number(process.env.LLM_TIMEOUT_MS ?? 30000),
+  maxRetries: Number(process.env.LLM_MAX_RETRIES ?? 2),
+  baseDelayMs: Number(process.env.LLM_RETRY_BASE_DELAY_MS ?? 500),
+  maxDelayMs: Number(process.env.LLM_RETRY_MAX_DELAY_MS ?? 10000),
+  failureThreshold: Number(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD ?? 5),
+  resetTimeoutMs: Number(process.env.LLM_CIRCUIT_RESET_SECONDS ?? 30) * 1000,
+});
+
+export type ProviderUnavailableReason = "circuit_open" | "retries_exhausted";
+
+// Shown to clients when the LLM provider is down or the circuit is open
+const PROVIDER_UNAVAILABLE_DETAIL =
+  "The assistant is temporarily unavailable. Please try again in a moment.";
+
+/**
+ * Thrown when the LLM provider can't be used right now, either because the
+ * circuit is open or because every attempt failed
+ */
+export class ProviderUnavailableError extends UpstreamError {
+  constructor(
+    public readonly reason: ProviderUnavailableReason,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(`LLM provider unavailable: ${reason}`, 503, "provider_unavailable", {
+      detail: PROVIDER_UNAVAILABLE_DETAIL,
+      headers: { "Retry-After": String(retryAfterSeconds) },
+    });
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+/**
+ * Thrown when a provider attempt takes longer than the configured timeout
+ */
+export class ProviderTimeoutError extends UpstreamError {
+  constructor(timeoutMs: number) {
+    super(
+      `LLM request timed out after ${timeoutMs}ms`,
+      504,
+      "provider_timeout"
+    );
+    this.name = "ProviderTimeoutError";
+  }
+}
+
+// Rate limiting and server-side failures are worth another attempt
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Network failures reported by Node and axios
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNABORTED",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "EPIPE",
+  "ETIMEDOUT",
+]);
+
+// The parts of an axios or fetch error this module looks at
+interface ProviderErrorShape {
+  code?: string;
+  status?: number;
+  response?: {
+    status?: number;
+    headers?: Record<string, string | undefined>;
+  };
+}
+
+const getStatusCode = (error: unknown): number | undefined => {
+  const shape = error as ProviderErrorShape | undefined;
+  return shape?.response?.status ?? shape?.status;
+};
+
+/**
+ * Whether a failed provider call may succeed if it is repeated
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof ProviderTimeoutError) {
+    return true;
+  }
+
+  const status = getStatusCode(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUS_CODES.has(status);
+  }
+
+  const code = (error as ProviderErrorShape | undefined)?.code;
+  return code !== undefined && RETRYABLE_ERROR_CODES.has(code);
+};
+
+/**
+ * Read the Retry-After header of a failed response in milliseconds. Both
+ * the delay-seconds and HTTP date forms are supported.
+ */
+export const getRetryAfterMs = (
+  error: unknown,
+  now = Date.now()
+): number | undefined => {
+  const header = (error as ProviderErrorShape | undefined)?.response?.headers?.[
+    "retry-after"
+  ];
+
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+const abortError = () => {
+  const error = new Error("LLM request aborted");
+  error.name = "AbortError";
+  return error;
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * A single call to the wrapped provider, with its own abort signal that
+ * fires when the caller aborts or the timeout elapses
+ */
+class Attempt {
+  private controller = new AbortController();
+  private timer: NodeJS.Timeout;
+  public timedOut = false;
+
+  constructor(private parent: AbortSignal | undefined, timeoutMs: number) {
+    this.timer = setTimeout(() => {
+      this.timedOut = true;
+      this.controller.abort();
+    }, timeoutMs);
+
+    if (parent?.aborted) {
+      this.controller.abort();
+    } else {
+      parent?.addEventListener("abort", this.onParentAbort);
+    }
+  }
+
+  public get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Settle with the promise, or reject as soon as the attempt is aborted in
+   * case the provider ignores the signal
+   */
+  public race<T>(promise: Promise<T>): Promise<T> {
+    const aborted = new Promise<never>((_, reject) => {
+      if (this.signal.aborted) {
+        reject(abortError());
+      }
+      this.signal.addEventListener("abort", () => reject(abortError()), {
+        once: true,
+      });
+    });
+
+    return Promise.race([promise, aborted]);
+  }
+
+  public clearTimer(): void {
+    clearTimeout(this.timer);
+  }
+
+  public dispose(): void {
+    this.clearTimer();
+    this.parent?.removeEventListener("abort", this.onParentAbort);
+  }
+
+  private onParentAbort = () => this.controller.abort();
+}
+
+/**
+ * Wraps a provider with per-attempt timeouts, retries with exponential
+ * backoff and a circuit breaker that fails fast while the backend is down
+ */
+export class ResilientProvider implements LLMProvider {
+  public readonly name: string;
+  private breaker: CircuitBreaker;
+
+  constructor(
+    private provider: LLMProvider,
+    private config: ResilienceConfig = loadResilienceConfig()
+  ) {
+    this.name = provider.name;
+    this.breaker = new CircuitBreaker({
+      failureThreshold: config.failureThreshold,
+      resetTimeoutMs: config.resetTimeoutMs,
+    });
+  }
+
+  public async initialize(): Promise<void> {
+    await this.provider.initialize?.();
+  }
+
+  public getHealth(): ProviderHealth {
+    const circuitBreaker = this.breaker.getStatus();
+    const status = {
+      closed: "healthy",
+      "half-open": "degraded",
+      open: "unavailable",
+    } as const;
+
+    return { status: status[circuitBreaker.state], circuitBreaker };
+  }
+
+  public async createChatCompletion(
+    request: ChatCompletionRequest
+  ): Promise<ChatCompletionResult> {
+    return this.execute(
+      "chat_completion",
+      trace.getActiveSpan(),
+      request.signal,
+      async (attempt) => {
+        try {
+          return await attempt.race(
+            this.provider.createChatCompletion({
+              ...request,
+              signal: attempt.signal,
+            })
+          );
+        } finally {
+          attempt.dispose();
+        }
+      }
+    );
+  }
+
+  public streamChatCompletion(
+    request: ChatCompletionRequest
+  ): AsyncIterable<ChatCompletionChunk> {
+    // Captured now because the generator body runs outside the caller's context
+    return this.streamWithRetry(request, trace.getActiveSpan());
+  }
+
+  public async createEmbeddings(texts: string[]): Promise<number[][]> {
+    return this.execute(
+      "embeddings",
+      trace.getActiveSpan(),
+      undefined,
+      async (attempt) => {
+        try {
+          return await attempt.race(this.provider.createEmbeddings(texts));
+        } finally {
+          attempt.dispose();
+        }
+      }
+    );
+  }
+
+  /**
+   * Stream a completion, retrying until the first chunk arrives. Once output
+   * has been yielded a failure can't be retried and is passed on.
+   */
+  private async *streamWithRetry(
+    request: ChatCompletionRequest,
+    span: Span | undefined
+  ): AsyncGenerator<ChatCompletionChunk> {
+    const { attempt, iterator, first } = await this.execute(
+      "stream_chat_completion",
+      span,
+      request.signal,
+      async (attempt) => {
+        const iterator = this.provider
+          .streamChatCompletion({ ...request, signal: attempt.signal })
+          [Symbol.asyncIterator]();
+
+        try {
+          return {
+            attempt,
+            iterator,
+            first: await attempt.race(iterator.next()),
+          };
+        } catch (error) {
+          attempt.dispose();
+          throw error;
+        }
+      }
+    );
+
+    try {
+      for (let next = first; !next.done; next = await iterator.next()) {
+        yield next.value;
+      }
+    } catch (error) {
+      if (!request.signal?.aborted) {
+        this.recordError(
+          "stream_chat_completion",
+          error instanceof Error ? error.name : "unknown",
+          getStatusCode(error)
+        );
+
+        if (isRetryableError(error)) {
+          this.updateBreaker(span, () => this.breaker.recordFailure());
+        }
+      }
+      throw error;
+    } finally {
+      attempt.dispose();
+      await iterator.return?.();
+    }
+  }
+
+  /**
+   * Run an operation against the wrapped provider, retrying transient
+   * failures while the circuit allows it
+   */
+  private async execute<T>(
+    operation: string,
+    span: Span | undefined,
+    signal: AbortSignal | undefined,
+    run: (attempt: Attempt) => Promise<T>
+  ): Promise<T> {
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      if (!this.updateBreaker(span, () => this.breaker.tryAcquire())) {
+        const retryAfterSeconds = this.breaker.getRetryAfterSeconds();
+
+        span?.addEvent("llm.circuit_breaker.rejected", {
+          "llm.operation": operation,
+          "llm.circuit_breaker.retry_after_seconds": retryAfterSeconds,
+        });
+        this.recordError(operation, "circuit_open");
+
+        throw new ProviderUnavailableError("circuit_open", retryAfterSeconds);
+      }
+
+      const attempt = new Attempt(signal, this.config.timeoutMs);
+
+      try {
+        const result = await run(attempt);
+        attempt.clearTimer();
+        this.updateBreaker(span, () => this.breaker.recordSuccess());
+        return result;
+      } catch (caught) {
+        if (signal?.aborted) {
+          this.breaker.release();
+          throw caught;
+        }
+
+        const error = attempt.timedOut
+          ? new ProviderTimeoutError(this.config.timeoutMs)
+          : caught;
+        this.recordError(
+          operation,
+          error instanceof Error ? error.name : "unknown",
+          getStatusCode(error)
+        );
+
+        if (!isRetryableError(error)) {
+          this.breaker.release();
+          throw error;
+        }
+
+        this.updateBreaker(span, () => this.breaker.recordFailure());
+
+        const delayMs = Math.max(
+          this.getBackoffMs(attemptNumber),
+          getRetryAfterMs(error) ?? 0
+        );
+
+        if (
+          attemptNumber > this.config.maxRetries ||
+          delayMs > this.config.maxDelayMs ||
+          this.breaker.getState() === "open"
+        ) {
+          log.error(`${this.name} ${operation} failed after retries`, {
+            error,
+            attempts: attemptNumber,
+          });
+
+          throw new ProviderUnavailableError(
+            "retries_exhausted",
+            this.breaker.getState() === "open"
+              ? this.breaker.getRetryAfterSeconds()
+              : Math.max(1, Math.ceil(delayMs / 1000))
+          );
+        }
+
+        span?.addEvent("llm.retry", {
+          "llm.operation": operation,
+          "llm.attempt": attemptNumber,
+          "llm.retry_delay_ms": delayMs,
+          "error.type": error instanceof Error ? error.name : "unknown",
+          "http.status_code": getStatusCode(error) ?? 0,
+        });
+
+        log.warn(`Retrying ${this.name} ${operation} in ${delayMs}ms`, {
+          attempt: attemptNumber,
+          status: getStatusCode(error),
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+
+        await sleep(delayMs, signal);
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter: a random delay between half and all of
+   * the doubled base delay, capped at the maximum
+   */
+  private getBackoffMs(attemptNumber: number): number {
+    const ceiling = Math.min(
+      this.config.maxDelayMs,
+      this.config.baseDelayMs * 2 ** (attemptNumber - 1)
+    );
+
+    return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+  }
+
+  /**
+   * Count a failed call in the LLM error metrics
+   */
+  private recordError(
+    operation: string,
+    errorType: string,
+    status?: number
+  ): void {
+    recordLLMError({
+      "llm.provider": this.name,
+      "llm.operation": operation,
+      "error.type": errorType,
+      ...(status !== undefined && { "http.status_code": status }),
+    });
+  }
+
+  /**
+   * Apply a breaker update, recording any state change on the span
+   */
+  private updateBreaker<T>(span: Span | undefined, update: () => T): T {
+    const from = this.breaker.getState();
+    const result = update();
+    const to = this.breaker.getState();
+
+    if (from !== to) {
+      span?.addEvent("llm.circuit_breaker.state_change", {
+        "llm.circuit_breaker.from": from,
+        "llm.circuit_breaker.to": to,
+      });
+
+      const message = `${this.name} circuit breaker ${from} -> ${to}`;
+      if (to === "open") {
+        log.error(message);
+      } else {
+        log.warn(message);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,133 @@
+import { estimateMessageTokens, estimateTokens } from "../utils/tokenCounter";
+import {
+  ChatCompletionChunk,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  FunctionCall,
+  LLMProvider,
+} from "./llmProvider";
+
+const EMBEDDING_DIMENSIONS = 256;
+
+// A scripted reply, either text or a function call with optional text before it
+export type ScriptedResponse =
+  | string
+  | { content?: string; functionCall: FunctionCall };
+
+/**
+ * Deterministic provider for local development and tests. Scripted
+ * responses are returned in order; once they run out the provider echoes
+ * the latest user message.
+ */
+export class ScriptedProvider implements LLMProvider {
+  public readonly name = "scripted";
+
+  // Every request received, in order, for inspection in tests
+  public readonly requests: ChatCompletionRequest[] = [];
+
+  private responses: ScriptedResponse[];
+
+  constructor(responses: ScriptedResponse[] = []) {
+    this.responses = [...responses];
+  }
+
+  /**
+   * Queue further responses
+   */
+  public enqueue(...responses: ScriptedResponse[]): void {
+    this.responses.push(...responses);
+  }
+
+  public async createChatCompletion(
+    request: ChatCompletionRequest
+  ): Promise<ChatCompletionResult> {
+    const response = this.nextResponse(request);
+    const content =
+      typeof response === "string" ? response : response.content ?? "";
+    const promptTokens = estimateMessageTokens(request.messages);
+    const completionTokens = estimateTokens(
+      typeof response === "string" ? response : response.functionCall.arguments
+    );
+
+    return {
+      content,
+      functionCall:
+        typeof response === "string" ? undefined : response.functionCall,
+      finishReason: typeof response === "string" ? "stop" : "function_call",
+      responseModel: request.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  public async *streamChatCompletion(
+    request: ChatCompletionRequest
+  ): AsyncIterable<ChatCompletionChunk> {
+    const response = this.nextResponse(request);
+    const content =
+      typeof response === "string" ? response : response.content ?? "";
+
+    // Yield word by word, keeping the whitespace with the following word
+    for (const token of content.match(/\s*\S+/g) ?? []) {
+      if (request.signal?.aborted) {
+        throw new Error("The request was aborted");
+      }
+
+      yield { type: "token", content: token };
+    }
+
+    if (typeof response !== "string") {
+      yield { type: "function_call", functionCall: response.functionCall };
+      yield {
+        type: "finish",
+        finishReason: "function_call",
+        responseModel: request.model,
+      };
+      return;
+    }
+
+    yield {
+      type: "finish",
+      finishReason: "stop",
+      responseModel: request.model,
+    };
+  }
+
+  /**
+   * Embed texts as hashed bags of words, so texts sharing words are similar
+   */
+  public async createEmbeddings(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+
+      for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+        let hash = 0;
+        for (const char of word) {
+          hash = (hash * 31 + char.charCodeAt(0)) % EMBEDDING_DIMENSIONS;
+        }
+        vector[hash] += 1;
+      }
+
+      return vector;
+    });
+  }
+
+  private nextResponse(request: ChatCompletionRequest): ScriptedResponse {
+    // Snapshot the messages since callers may keep appending to the array
+    this.requests.push({ ...request, messages: [...request.messages] });
+
+    const scripted = this.responses.shift();
+    if (scripted !== undefined) {
+      return scripted;
+    }
+
+    const lastUserMessage = [...request.messages]
+      .reverse()
+      .find((message) => message.role === "user");
+
+    return `Echo: ${lastUserMessage?.content ?? ""}`;
+  }
+}
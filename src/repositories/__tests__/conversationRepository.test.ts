@@ -0,0 +1,196 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  ConversationHistory,
+  ConversationRepository,
+  FileConversationRepository,
+  InMemoryConversationRepository,
+  schedulePurge,
+} from "..";
+
+const TTL_MS = 60 * 1000;
+
+const makeConversation = (
+  id: string,
+  updatedAt: Date = new Date()
+): ConversationHistory => ({
+  id,
+  userId: "1",
+  title: "Test conversation",
+  messages: [{ role: "system", content: "You are a test assistant" }],
+  createdAt: updatedAt,
+  updatedAt,
+});
+
+describe.each([
+  [
+    "InMemoryConversationRepository",
+    async () => new InMemoryConversationRepository(TTL_MS),
+  ],
+  [
+    "FileConversationRepository",
+    async () =>
+      new FileConversationRepository(
+        await fs.mkdtemp(path.join(os.tmpdir(), "conversations-")),
+        TTL_MS
+      ),
+  ],
+])("%s", (_name, createRepository) => {
+  let repository: ConversationRepository;
+
+  beforeEach(async () => {
+    repository = await createRepository();
+  });
+
+  it("should save and retrieve a conversation", async () => {
+    const conversation = makeConversation("abc-123");
+
+    await repository.save(conversation);
+
+    expect(await repository.get("abc-123")).toEqual(conversation);
+  });
+
+  it("should keep message IDs, trace links, feedback, times and citations", async () => {
+    const conversation = makeConversation("abc-123");
+    conversation.messages.push({
+      id: "m-1",
+      role: "assistant",
+      content: "Hi",
+      traceId: "trace-1",
+      spanId: "span-1",
+      feedback: { rating: "up", createdAt: new Date() },
+      createdAt: new Date(),
+      citations: [
+        { id: "BT-100", title: "Boots", source: "products.json", score: 0.8 },
+      ],
+    });
+
+    await repository.save(conversation);
+
+    expect(await repository.get("abc-123")).toEqual(conversation);
+  });
+
+  it("should not expose unsaved changes", async () => {
+    await repository.save(makeConversation("abc-123"));
+
+    const conversation = await repository.get("abc-123");
+    conversation!.messages.push({ role: "user", content: "Unsaved" });
+
+    expect((await repository.get("abc-123"))!.messages).toHaveLength(1);
+  });
+
+  it("should delete a conversation", async () => {
+    await repository.save(makeConversation("abc-123"));
+
+    expect(await repository.delete("abc-123")).toBe(true);
+    expect(await repository.delete("abc-123")).toBe(false);
+    expect(await repository.get("abc-123")).toBeUndefined();
+  });
+
+  it("should expire conversations idle for longer than the TTL", async () => {
+    const stale = new Date(Date.now() - TTL_MS - 1000);
+    await repository.save(makeConversation("stale", stale));
+    await repository.save(makeConversation("fresh"));
+
+    expect(await repository.get("stale")).toBeUndefined();
+    expect((await repository.list()).map((c) => c.id)).toEqual(["fresh"]);
+  });
+
+  it("should purge expired conversations", async () => {
+    const stale = new Date(Date.now() - TTL_MS - 1000);
+    await repository.save(makeConversation("stale-1", stale));
+    await repository.save(makeConversation("stale-2", stale));
+    await repository.save(makeConversation("fresh"));
+
+    expect(await repository.purgeExpired()).toBe(2);
+    expect(await repository.list()).toHaveLength(1);
+  });
+
+  it("should count conversations and drop expired ones when listing", async () => {
+    const stale = new Date(Date.now() - TTL_MS - 1000);
+    await repository.save(makeConversation("stale", stale));
+    await repository.save(makeConversation("fresh"));
+
+    expect(await repository.count()).toBe(2);
+    expect(await repository.list()).toHaveLength(1);
+    expect(await repository.count()).toBe(1);
+  });
+});
+
+describe("FileConversationRepository", () => {
+  it("should reject IDs that could escape the store directory", async () => {
+    const directory = await fs.mkdtemp(
+      path.join(os.tmpdir(), "conversations-")
+    );
+    const repository = new FileConversationRepository(directory);
+
+    expect(await repository.get("../secrets")).toBeUndefined();
+    await expect(
+      repository.save(makeConversation("../secrets"))
+    ).rejects.toThrow("Invalid conversation ID");
+  });
+
+  it("should apply concurrent saves of a conversation in order", async () => {
+    const repository = new FileConversationRepository(
+      await fs.mkdtemp(path.join(os.tmpdir(), "conversations-"))
+    );
+    const saves = ["First", "Second", "Third"].map((title) =>
+      repository.save({ ...makeConversation("abc-123"), title })
+    );
+
+    await expect(Promise.all(saves)).resolves.toBeDefined();
+    expect((await repository.get("abc-123"))?.title).toBe("Third");
+  });
+
+  it("should let replicas sharing a directory save the same conversation", async () => {
+    const directory = await fs.mkdtemp(
+      path.join(os.tmpdir(), "conversations-")
+    );
+    const replicas = [
+      new FileConversationRepository(directory),
+      new FileConversationRepository(directory),
+    ];
+
+    await expect(
+      Promise.all(
+        replicas.map((replica, index) =>
+          replica.save({ ...makeConversation("abc-123"), title: `${index}` })
+        )
+      )
+    ).resolves.toBeDefined();
+    expect(await fs.readdir(directory)).toEqual(["abc-123.json"]);
+  });
+
+  it("should fail the ping when the store directory can't be used", async () => {
+    const directory = await fs.mkdtemp(
+      path.join(os.tmpdir(), "conversations-")
+    );
+    const file = path.join(directory, "not-a-directory");
+    await fs.writeFile(file, "");
+
+    await expect(
+      new FileConversationRepository(path.join(directory, "store")).ping()
+    ).resolves.toBeUndefined();
+    await expect(new FileConversationRepository(file).ping()).rejects.toThrow();
+  });
+});
+
+describe("schedulePurge", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should purge expired conversations until stopped", async () => {
+    jest.useFakeTimers();
+    const repository = new InMemoryConversationRepository(TTL_MS);
+    const purge = jest.spyOn(repository, "purgeExpired");
+
+    const stop = schedulePurge(repository, 1000);
+    await jest.advanceTimersByTimeAsync(2000);
+    stop();
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(purge).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,95 @@
+export interface ChatMessage {
+  id?: string; // Absent for system prompts and messages stored before IDs
+  role: "system" | "user" | "assistant";
+  content: string;
+  traceId?: string; // Trace and span of the completion that generated it
+  spanId?: string;
+  feedback?: MessageFeedback;
+  createdAt?: Date; // Absent for messages stored before timestamps
+  citations?: Citation[]; // Catalog entries an assistant message drew on
+}
+
+// Catalog entry a response drew on
+export interface Citation {
+  id: string;
+  title: string;
+  source: string;
+  score: number;
+}
+
+// A user's rating of an assistant message
+export interface MessageFeedback {
+  rating: "up" | "down";
+  comment?: string;
+  createdAt: Date;
+}
+
+// Summary of the oldest messages, reused while the context window is full
+export interface ContextSummary {
+  content: string;
+  messageCount: number; // Messages after the system prompt it covers
+}
+
+export interface ConversationHistory {
+  id: string;
+  userId: string;
+  title: string;
+  personaId?: string; // Absent for conversations stored before personas
+  messages: ChatMessage[];
+  contextSummary?: ContextSummary;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Storage abstraction for conversation histories
+ */
+export interface ConversationRepository {
+  /**
+   * Get a conversation by ID, or undefined if it does not exist or has expired
+   */
+  get(id: string): Promise<ConversationHistory | undefined>;
+
+  /**
+   * Create or replace a conversation
+   */
+  save(conversation: ConversationHistory): Promise<void>;
+
+  /**
+   * Delete a conversation, returning whether it existed
+   */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * List all conversations that have not expired
+   */
+  list(): Promise<ConversationHistory[]>;
+
+  /**
+   * Count the stored conversations without loading them. May include
+   * conversations that expired since the last purge.
+   */
+  count(): Promise<number>;
+
+  /**
+   * Remove expired conversations, returning how many were removed
+   */
+  purgeExpired(): Promise<number>;
+
+  /**
+   * Check that the store can be read and written, throwing if it can't
+   */
+  ping(): Promise<void>;
+}
+
+/**
+ * Check whether a conversation has been idle for longer than the TTL.
+ * A TTL of zero or less disables expiry.
+ */
+export const isExpired = (
+  conversation: ConversationHistory,
+  ttlMs: number,
+  now: number = Date.now()
+): boolean => {
+  return ttlMs > 0 && now - conversation.updatedAt.getTime() > ttlMs;
+};
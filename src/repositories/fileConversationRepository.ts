@@ -0,0 +1,186 @@
+import { constants as fsConstants, promises as fs } from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { log } from "../config/logger";
+import {
+  ChatMessage,
+  ConversationHistory,
+  ConversationRepository,
+  isExpired,
+} from "./conversationRepository";
+
+// Conversation IDs are UUIDs; anything else could escape the store directory
+const VALID_ID = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Conversation repository that stores each conversation as a JSON file.
+ * Pointing several replicas at a shared volume lets them share history.
+ */
+export class FileConversationRepository implements ConversationRepository {
+  // Pending write per conversation; writes of one conversation are queued
+  // so they can't share a temporary file or land out of order
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private directory: string, private ttlMs: number = 0) {}
+
+  public async get(id: string): Promise<ConversationHistory | undefined> {
+    if (!VALID_ID.test(id)) {
+      return undefined;
+    }
+
+    const conversation = await this.read(this.filePath(id));
+
+    if (!conversation) {
+      return undefined;
+    }
+
+    if (isExpired(conversation, this.ttlMs)) {
+      await this.delete(id);
+      return undefined;
+    }
+
+    return conversation;
+  }
+
+  public async save(conversation: ConversationHistory): Promise<void> {
+    if (!VALID_ID.test(conversation.id)) {
+      throw new Error(`Invalid conversation ID: ${conversation.id}`);
+    }
+
+    const { id } = conversation;
+    const content = JSON.stringify(conversation);
+    const write = (this.writes.get(id) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.write(id, content));
+    this.writes.set(id, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(id) === write) {
+        this.writes.delete(id);
+      }
+    }
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    if (!VALID_ID.test(id)) {
+      return false;
+    }
+
+    try {
+      await fs.unlink(this.filePath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  public async list(): Promise<ConversationHistory[]> {
+    const conversations: ConversationHistory[] = [];
+
+    for (const file of await this.listFiles()) {
+      const conversation = await this.read(path.join(this.directory, file));
+
+      if (!conversation) {
+        continue;
+      }
+
+      // Expired files are removed as they are found, between purges
+      if (isExpired(conversation, this.ttlMs)) {
+        await this.delete(conversation.id);
+      } else {
+        conversations.push(conversation);
+      }
+    }
+
+    return conversations;
+  }
+
+  public async count(): Promise<number> {
+    return (await this.listFiles()).length;
+  }
+
+  public async purgeExpired(): Promise<number> {
+    let removed = 0;
+
+    for (const file of await this.listFiles()) {
+      const conversation = await this.read(path.join(this.directory, file));
+
+      if (conversation && isExpired(conversation, this.ttlMs)) {
+        if (await this.delete(conversation.id)) {
+          removed++;
+        }
+      }
+    }
+
+    return removed;
+  }
+
+  public async ping(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.access(this.directory, fsConstants.R_OK | fsConstants.W_OK);
+  }
+
+  private async write(id: string, content: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial file.
+    // The name is unique so replicas sharing the volume never collide.
+    const filePath = this.filePath(id);
+    const tempPath = `${filePath}.${uuidv4()}.tmp`;
+    await fs.writeFile(tempPath, content, "utf8");
+    await fs.rename(tempPath, filePath);
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files.filter((file) => file.endsWith(".json"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async read(
+    filePath: string
+  ): Promise<ConversationHistory | undefined> {
+    try {
+      const raw = JSON.parse(await fs.readFile(filePath, "utf8"));
+
+      // Dates are serialized as ISO strings
+      return {
+        ...raw,
+        messages: raw.messages.map((message: ChatMessage) => ({
+          ...message,
+          ...(message.createdAt && { createdAt: new Date(message.createdAt) }),
+          ...(message.feedback && {
+            feedback: {
+              ...message.feedback,
+              createdAt: new Date(message.feedback.createdAt),
+            },
+          }),
+        })),
+        createdAt: new Date(raw.createdAt),
+        updatedAt: new Date(raw.updatedAt),
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+
+      log.error(`Failed to read conversation file '${filePath}'`, { error });
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  ConversationHistory,
+  ConversationRepository,
+  isExpired,
+} from "./conversationRepository";
+
+/**
+ * Conversation repository backed by an in-process Map.
+ * Conversations are lost on restart and are not shared across replicas.
+ */
+export class InMemoryConversationRepository implements ConversationRepository {
+  private conversations = new Map<string, ConversationHistory>();
+
+  constructor(private ttlMs: number = 0) {}
+
+  public async get(id: string): Promise<ConversationHistory | undefined> {
+    const conversation = this.conversations.get(id);
+
+    if (!conversation) {
+      return undefined;
+    }
+
+    if (isExpired(conversation, this.ttlMs)) {
+      this.conversations.delete(id);
+      return undefined;
+    }
+
+    // Return a copy so callers can't mutate stored state without saving
+    return structuredClone(conversation);
+  }
+
+  public async save(conversation: ConversationHistory): Promise<void> {
+    this.conversations.set(conversation.id, structuredClone(conversation));
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    return this.conversations.delete(id);
+  }
+
+  public async list(): Promise<ConversationHistory[]> {
+    await this.purgeExpired();
+
+    return Array.from(this.conversations.values(), (conversation) =>
+      structuredClone(conversation)
+    );
+  }
+
+  public async count(): Promise<number> {
+    return this.conversations.size;
+  }
+
+  public async purgeExpired(): Promise<number> {
+    let removed = 0;
+
+    for (const [id, conversation] of this.conversations) {
+      if (isExpired(conversation, this.ttlMs)) {
+        this.conversations.delete(id);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  public async ping(): Promise<void> {
+    // Always available while the process is running
+  }
+}
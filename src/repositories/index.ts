@@ -0,0 +1,66 @@
+import { log } from "../config/logger";
+import { ConversationRepository } from "./conversationRepository";
+import { InMemoryConversationRepository } from "./inMemoryConversationRepository";
+import { FileConversationRepository } from "./fileConversationRepository";
+
+export * from "./conversationRepository";
+export { InMemoryConversationRepository, FileConversationRepository };
+
+/**
+ * Create the conversation repository selected by configuration
+ */
+export const createConversationRepository = (): ConversationRepository => {
+  const store = process.env.CONVERSATION_STORE || "memory";
+  const ttlMinutes = Number(process.env.CONVERSATION_TTL_MINUTES ?? 1440);
+  const ttlMs = ttlMinutes * 60 * 1000;
+
+  switch (store) {
+    case "memory":
+      return new InMemoryConversationRepository(ttlMs);
+    case "file": {
+      const directory =
+        process.env.CONVERSATION_STORE_PATH || "./data/conversations";
+      log.info(`Using file conversation store at ${directory}`);
+      return new FileConversationRepository(directory, ttlMs);
+    }
+    default:
+      throw new Error(`Unknown conversation store: ${store}`);
+  }
+};
+
+/**
+ * Purge expired conversations from a repository on an interval, returning
+ * a function that stops it. The timer doesn't keep the process alive.
+ */
+export const schedulePurge = (
+  repository: ConversationRepository,
+  intervalMs: number = Number(
+    process.env.CONVERSATION_PURGE_INTERVAL_MINUTES ?? 15
+  ) *
+    60 *
+    1000
+): (() => void) => {
+  const timer = setInterval(async () => {
+    try {
+      const removed = await repository.purgeExpired();
+
+      if (removed > 0) {
+        log.info(`Purged ${removed} expired conversations`);
+      }
+    } catch (error) {
+      log.error("Failed to purge expired conversations", { error });
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
+
+// Shared by every service unless a repository is injected
+let sharedConversationRepository: ConversationRepository | undefined;
+
+/**
+ * Get the conversation repository shared across the application
+ */
+export const getSharedConversationRepository = (): ConversationRepository =>
+  (sharedConversationRepository ??= createConversationRepository());
@@ -0,0 +1,224 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  cosineSimilarity,
+  InMemoryVectorStore,
+  loadCatalog,
+  parseCsv,
+  RetrievalService,
+  toDocument,
+} from "..";
+import { ScriptedProvider } from "../../providers";
+
+// Mock OpenTelemetry
+jest.mock("@opentelemetry/api", () => {
+  const mockSpan = {
+    setAttribute: jest.fn(),
+    setStatus: jest.fn(),
+    recordException: jest.fn(),
+    end: jest.fn(),
+  };
+
+  return {
+    trace: {
+      getTracer: jest.fn().mockReturnValue({
+        startActiveSpan: jest.fn().mockImplementation((name, fn) => {
+          return fn(mockSpan);
+        }),
+      }),
+      getActiveSpan: jest.fn(),
+    },
+    SpanStatusCode: {
+      OK: "ok",
+      ERROR: "error",
+    },
+  };
+});
+
+describe("retrieval", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "catalog-"));
+
+    await fs.writeFile(
+      path.join(directory, "products.json"),
+      JSON.stringify([
+        {
+          sku: "BT-100",
+          name: "Hiking Boots",
+          description: "Waterproof leather hiking boots",
+          category: "Footwear",
+          price: 149.99,
+          stock: 3,
+        },
+        { name: "Missing SKU" },
+      ])
+    );
+    await fs.writeFile(
+      path.join(directory, "accessories.csv"),
+      'sku,name,description,price\nAC-700,Headlamp,"Bright, rechargeable headlamp for night hikes",49.95\n'
+    );
+    await fs.writeFile(path.join(directory, "README.md"), "Not a catalog");
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe("parseCsv", () => {
+    it("should parse quoted fields with commas, quotes and newlines", () => {
+      const records = parseCsv(
+        'sku,description\r\nA-1,"Say ""hi"", then\nleave"\r\nA-2,plain\r\n'
+      );
+
+      expect(records).toEqual([
+        { sku: "A-1", description: 'Say "hi", then\nleave' },
+        { sku: "A-2", description: "plain" },
+      ]);
+    });
+  });
+
+  describe("loadCatalog", () => {
+    it("should load products from JSON and CSV files", async () => {
+      const products = await loadCatalog(directory);
+
+      expect(products).toEqual([
+        {
+          source: "accessories.csv",
+          product: {
+            sku: "AC-700",
+            name: "Headlamp",
+            description: "Bright, rechargeable headlamp for night hikes",
+            category: undefined,
+            price: 49.95,
+            stock: undefined,
+          },
+        },
+        {
+          source: "products.json",
+          product: expect.objectContaining({ sku: "BT-100", stock: 3 }),
+        },
+      ]);
+    });
+
+    it("should return no products when the directory is missing", async () => {
+      expect(await loadCatalog(path.join(directory, "missing"))).toEqual([]);
+    });
+
+    it("should describe a product for retrieval", () => {
+      const document = toDocument(
+        {
+          sku: "BT-100",
+          name: "Hiking Boots",
+          description: "Waterproof leather hiking boots",
+          category: "Footwear",
+          price: 149.99,
+        },
+        "products.json"
+      );
+
+      expect(document).toEqual({
+        id: "BT-100",
+        title: "Hiking Boots",
+        text: "Hiking Boots. Waterproof leather hiking boots Category: Footwear. Price: $149.99.",
+        source: "products.json",
+      });
+    });
+  });
+
+  describe("InMemoryVectorStore", () => {
+    it("should rank documents by cosine similarity", async () => {
+      const store = new InMemoryVectorStore();
+      const document = (id: string) => ({
+        id,
+        title: id,
+        text: id,
+        source: "test",
+      });
+
+      await store.upsert([
+        { document: document("a"), embedding: [1, 0] },
+        { document: document("b"), embedding: [1, 1] },
+        { document: document("c"), embedding: [0, 1] },
+      ]);
+
+      const results = await store.search([1, 0.1], 2, 0.5);
+
+      expect(results.map((result) => result.document.id)).toEqual(["a", "b"]);
+      expect(cosineSimilarity([1, 0], [0, 0])).toBe(0);
+    });
+  });
+
+  describe("RetrievalService", () => {
+    const config = (catalogPath: string) => ({
+      enabled: true,
+      catalogPath,
+      topK: 1,
+      minScore: 0.1,
+    });
+
+    it("should index the catalog on first use and retrieve matches", async () => {
+      const provider = new ScriptedProvider();
+      const embed = jest.spyOn(provider, "createEmbeddings");
+      const retrieval = new RetrievalService(provider, config(directory));
+
+      const first = await retrieval.retrieve("waterproof boots for hiking");
+      const second = await retrieval.retrieve("a headlamp for the night");
+
+      expect(first.map((result) => result.document.id)).toEqual(["BT-100"]);
+      expect(second.map((result) => result.document.id)).toEqual(["AC-700"]);
+
+      // One batch for ingestion, then one call per query
+      expect(embed).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retrieve anything when disabled", async () => {
+      const provider = new ScriptedProvider();
+      const embed = jest.spyOn(provider, "createEmbeddings");
+      const retrieval = new RetrievalService(provider, {
+        ...config(directory),
+        enabled: false,
+      });
+
+      expect(await retrieval.retrieve("boots")).toEqual([]);
+      expect(embed).not.toHaveBeenCalled();
+    });
+
+    it("should retry indexing once the backoff has elapsed", async () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(0);
+      const provider = new ScriptedProvider();
+      const embed = jest
+        .spyOn(provider, "createEmbeddings")
+        .mockRejectedValueOnce(new Error("Embeddings unavailable"))
+        .mockRejectedValueOnce(new Error("Embeddings unavailable"));
+      const retrieval = new RetrievalService(provider, {
+        ...config(directory),
+        ingestRetryMs: 1000,
+      });
+
+      await expect(retrieval.retrieve("boots")).rejects.toThrow(
+        "Embeddings unavailable"
+      );
+
+      // Answered without the catalog until the backoff elapses
+      now.mockReturnValue(999);
+      expect(await retrieval.retrieve("boots")).toEqual([]);
+      expect(embed).toHaveBeenCalledTimes(1);
+
+      // The second failure doubles the wait
+      now.mockReturnValue(1000);
+      await expect(retrieval.retrieve("boots")).rejects.toThrow(
+        "Embeddings unavailable"
+      );
+      now.mockReturnValue(2999);
+      expect(await retrieval.retrieve("boots")).toEqual([]);
+
+      now.mockReturnValue(3000);
+      expect(await retrieval.retrieve("hiking boots")).toHaveLength(1);
+
+      now.mockRestore();
+    });
+  });
+});
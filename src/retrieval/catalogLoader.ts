@@ -0,0 +1,153 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { log } from "../config/logger";
+import { RetrievalDocument } from "./vectorStore";
+
+export interface CatalogProduct {
+  sku: string;
+  name: string;
+  description: string;
+  category?: string;
+  price?: number;
+  stock?: number;
+}
+
+/**
+ * Parse CSV text with a header row. Quoted fields may contain commas,
+ * newlines and doubled quotes.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((r) => r.some((value) => value));
+
+  return records.map((values) =>
+    Object.fromEntries(
+      (header ?? []).map((key, index) => [key.trim(), values[index] ?? ""])
+    )
+  );
+};
+
+const toNumber = (value: unknown): number | undefined =>
+  value === undefined || value === "" ? undefined : Number(value);
+
+/**
+ * Convert a raw record to a product, or undefined if it lacks a SKU or name
+ */
+const toProduct = (
+  record: Record<string, unknown>
+): CatalogProduct | undefined => {
+  if (!record.sku || !record.name) {
+    return undefined;
+  }
+
+  return {
+    sku: String(record.sku),
+    name: String(record.name),
+    description: String(record.description ?? ""),
+    category: record.category ? String(record.category) : undefined,
+    price: toNumber(record.price),
+    stock: toNumber(record.stock),
+  };
+};
+
+/**
+ * Load products from the JSON and CSV files in a directory. JSON files hold
+ * an array of products; CSV files have a header row naming the fields.
+ */
+export const loadCatalog = async (
+  directory: string
+): Promise<{ product: CatalogProduct; source: string }[]> => {
+  let files: string[];
+
+  try {
+    files = (await fs.readdir(directory)).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      log.warn(`Catalog directory ${directory} does not exist`);
+      return [];
+    }
+    throw error;
+  }
+
+  const products: { product: CatalogProduct; source: string }[] = [];
+
+  for (const file of files) {
+    const extension = path.extname(file).toLowerCase();
+    if (extension !== ".json" && extension !== ".csv") continue;
+
+    const text = await fs.readFile(path.join(directory, file), "utf8");
+    const records: Record<string, unknown>[] =
+      extension === ".json" ? JSON.parse(text) : parseCsv(text);
+
+    for (const record of records) {
+      const product = toProduct(record);
+
+      if (product) {
+        products.push({ product, source: file });
+      } else {
+        log.warn(`Skipping catalog record without a SKU or name in ${file}`);
+      }
+    }
+  }
+
+  return products;
+};
+
+/**
+ * Build the retrievable document for a product
+ */
+export const toDocument = (
+  product: CatalogProduct,
+  source: string
+): RetrievalDocument => {
+  const details = [
+    product.category && `Category: ${product.category}.`,
+    product.price !== undefined && `Price: $${product.price.toFixed(2)}.`,
+  ].filter(Boolean);
+
+  return {
+    id: product.sku,
+    title: product.name,
+    text: [`${product.name}.`, product.description, ...details]
+      .filter(Boolean)
+      .join(" "),
+    source,
+  };
+};
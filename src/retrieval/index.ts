@@ -0,0 +1,12 @@
+export * from "./vectorStore";
+export {
+  CatalogProduct,
+  loadCatalog,
+  parseCsv,
+  toDocument,
+} from "./catalogLoader";
+export {
+  RetrievalConfig,
+  RetrievalService,
+  loadRetrievalConfig,
+} from "./retrievalService";
@@ -0,0 +1,175 @@
+import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { log } from "../config/logger";
+import { recordSpanError } from "../errors";
+import { LLMProvider } from "../providers";
+import { loadCatalog, toDocument } from "./catalogLoader";
+import {
+  InMemoryVectorStore,
+  ScoredDocument,
+  VectorStore,
+} from "./vectorStore";
+
+export interface RetrievalConfig {
+  enabled: boolean;
+  catalogPath: string;
+  topK: number;
+  minScore: number; // Matches below this similarity are ignored
+  ingestRetryMs?: number; // Wait after a failed ingest, doubled each failure
+}
+
+export const loadRetrievalConfig = (): RetrievalConfig => ({
+  enabled: process.env.RAG_ENABLED !== "false",
+  catalogPath: process.env.RAG_CATALOG_PATH || "./data/catalog",
+  topK: Number(process.env.RAG_TOP_K ?? 3),
+  minScore: Number(process.env.RAG_MIN_SCORE ?? 0.3),
+  ingestRetryMs: Number(process.env.RAG_INGEST_RETRY_SECONDS ?? 30) * 1000,
+});
+
+// Texts embedded per provider request during ingestion
+const EMBEDDING_BATCH_SIZE = 16;
+
+// Wait after the first failed ingest when none is configured, and the cap
+const DEFAULT_INGEST_RETRY_MS = 30 * 1000;
+const MAX_INGEST_RETRY_MS = 10 * 60 * 1000;
+
+/**
+ * Indexes the product catalog and retrieves the entries relevant to a query
+ */
+export class RetrievalService {
+  private indexing?: Promise<number>;
+  private ingestFailures = 0;
+  private nextIngestAt = 0;
+
+  constructor(
+    private provider: LLMProvider,
+    private config: RetrievalConfig = loadRetrievalConfig(),
+    private store: VectorStore = new InMemoryVectorStore()
+  ) {}
+
+  /**
+   * Load, embed and index the catalog, returning the number of documents
+   */
+  public async ingest(directory = this.config.catalogPath): Promise<number> {
+    const tracer = trace.getTracer("retrieval-service");
+
+    return tracer.startActiveSpan("ingest-catalog", async (span) => {
+      try {
+        span.setAttribute("retrieval.catalog_path", directory);
+
+        const documents = (await loadCatalog(directory)).map(
+          ({ product, source }) => toDocument(product, source)
+        );
+
+        for (let i = 0; i < documents.length; i += EMBEDDING_BATCH_SIZE) {
+          const batch = documents.slice(i, i + EMBEDDING_BATCH_SIZE);
+          const embeddings = await this.provider.createEmbeddings(
+            batch.map((document) => document.text)
+          );
+
+          await this.store.upsert(
+            batch.map((document, index) => ({
+              document,
+              embedding: embeddings[index],
+            }))
+          );
+        }
+
+        span.setAttribute("retrieval.document_count", documents.length);
+        span.setStatus({ code: SpanStatusCode.OK });
+        log.info(`Indexed ${documents.length} catalog documents`);
+
+        return documents.length;
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Failed to ingest catalog", { error });
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Get the catalog documents most relevant to a query. The catalog is
+   * indexed on first use.
+   */
+  public async retrieve(query: string): Promise<ScoredDocument[]> {
+    if (!this.config.enabled) {
+      return [];
+    }
+
+    if (this.indexing === undefined && Date.now() < this.nextIngestAt) {
+      // Indexing failed recently; answer without the catalog until it's retried
+      return [];
+    }
+
+    await this.ensureIndexed();
+
+    const tracer = trace.getTracer("retrieval-service");
+
+    return tracer.startActiveSpan("retrieve-context", async (span) => {
+      try {
+        span.setAttribute("retrieval.top_k", this.config.topK);
+
+        if ((await this.store.size()) === 0) {
+          span.setAttribute("retrieval.document_count", 0);
+          span.setStatus({ code: SpanStatusCode.OK });
+          return [];
+        }
+
+        const [embedding] = await this.provider.createEmbeddings([query]);
+        const results = await this.store.search(
+          embedding,
+          this.config.topK,
+          this.config.minScore
+        );
+
+        span.setAttribute("retrieval.document_count", results.length);
+        if (results.length > 0) {
+          span.setAttribute("retrieval.top_score", results[0].score);
+        }
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return results;
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Failed to retrieve context", { error });
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Index the catalog once. After a failure it is retried on a later call
+   * once the backoff has elapsed, so a broken embeddings backend isn't
+   * asked to embed the whole catalog again on every message.
+   */
+  private ensureIndexed(): Promise<number> {
+    this.indexing ??= this.ingest().then(
+      (count) => {
+        this.ingestFailures = 0;
+        return count;
+      },
+      (error) => {
+        const retryMs = Math.min(
+          MAX_INGEST_RETRY_MS,
+          (this.config.ingestRetryMs ?? DEFAULT_INGEST_RETRY_MS) *
+            2 ** this.ingestFailures
+        );
+
+        this.ingestFailures++;
+        this.nextIngestAt = Date.now() + retryMs;
+        this.indexing = undefined;
+        throw error;
+      }
+    );
+
+    return this.indexing;
+  }
+}
@@ -0,0 +1,90 @@
+// A piece of content that can be retrieved and cited
+export interface RetrievalDocument {
+  id: string;
+  title: string;
+  text: string;
+  source: string; // File the document was loaded from
+}
+
+export interface VectorEntry {
+  document: RetrievalDocument;
+  embedding: number[];
+}
+
+export interface ScoredDocument {
+  document: RetrievalDocument;
+  score: number; // Cosine similarity to the query
+}
+
+/**
+ * Storage and similarity search for embedded documents
+ */
+export interface VectorStore {
+  /**
+   * Add entries, replacing any with the same document ID
+   */
+  upsert(entries: VectorEntry[]): Promise<void>;
+
+  /**
+   * Get up to k documents most similar to an embedding, best first
+   */
+  search(
+    embedding: number[],
+    k: number,
+    minScore?: number
+  ): Promise<ScoredDocument[]>;
+
+  /**
+   * Number of stored documents
+   */
+  size(): Promise<number>;
+}
+
+/**
+ * Cosine similarity of two vectors, or 0 if either has no magnitude
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Vector store that searches every entry in process. Suitable for catalogs
+ * of a few thousand documents.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  private entries = new Map<string, VectorEntry>();
+
+  public async upsert(entries: VectorEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.entries.set(entry.document.id, entry);
+    }
+  }
+
+  public async search(
+    embedding: number[],
+    k: number,
+    minScore = 0
+  ): Promise<ScoredDocument[]> {
+    return Array.from(this.entries.values(), (entry) => ({
+      document: entry.document,
+      score: cosineSimilarity(embedding, entry.embedding),
+    }))
+      .filter((result) => result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  public async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
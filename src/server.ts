@@ -8,16 +8,27 @@ import swaggerUi from "swagger-ui-express";
 import path from "path";
 import { initTelemetry } from "./config/telemetry";
 import { log } from "./config/logger";
+import { loadTrustProxy } from "./config/trustProxy";
+import { observeActiveConversations } from "./config/metrics";
+import { getSharedConversationRepository, schedulePurge } from "./repositories";
 import chatbotRoutes from "./api/chatbot";
 import authRoutes from "./api/auth";
+import adminRoutes from "./api/admin";
+import healthRoutes from "./api/health";
+import metricsRoutes from "./api/metrics";
 import swaggerSpec from "./api/swagger";
+import { errorHandler, notFoundHandler } from "./middleware/errorHandler";
 
 // Initialize OpenTelemetry - must be done before any other imports
-initTelemetry();
+const telemetryReady = initTelemetry();
 
 const app = express();
 const port = process.env.PORT || 8080;
 
+// Take the client address from X-Forwarded-For when behind a proxy, so
+// per-IP limits apply to clients rather than to the proxy
+app.set("trust proxy", loadTrustProxy());
+
 // Middleware
 app.use(
   helmet({
@@ -30,39 +41,57 @@ app.use(express.json());
 // API Routes
 app.use("/api/chatbot", chatbotRoutes);
 app.use("/api/auth", authRoutes);
+app.use("/api/admin", adminRoutes);
 
 // Swagger documentation
 app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 
-// Health check endpoint
-app.get("/health", (req, res) => {
-  res.status(200).json({ status: "ok" });
-});
+// Liveness and readiness checks; /health is kept as an alias of /health/live
+app.use("/health", healthRoutes);
+
+// Prometheus scrape endpoint when OTEL_METRICS_EXPORTER=prometheus
+app.use("/metrics", metricsRoutes);
 
 // Serve static files from dist/public
 app.use(express.static(path.join(__dirname, "../dist/public")));
 
+// Unknown API routes get a problem response rather than the app
+app.use("/api", notFoundHandler);
+
 // For all other routes, send the index.html file
 app.get("*", (req, res) => {
-  if (req.url.startsWith("/api")) {
-    return res.status(404).json({ error: "API endpoint not found" });
-  }
   res.sendFile(path.join(__dirname, "../dist/public/index.html"));
 });
 
-// Start server
-app.listen(port, () => {
-  log.info(`Server running on port ${port}`);
+// Turn errors from any route into problem responses; must come last
+app.use(errorHandler);
+
+let stopPurge: (() => void) | undefined;
+
+// Start server once metrics can be recorded; instruments created before the
+// meter provider is registered would never report
+telemetryReady.then(() => {
+  // Report the number of active conversations with the other metrics
+  observeActiveConversations(() => getSharedConversationRepository().count());
+
+  // Expired conversations would otherwise stay in the store until read
+  stopPurge = schedulePurge(getSharedConversationRepository());
+
+  app.listen(port, () => {
+    log.info(`Server running on port ${port}`);
+  });
 });
 
 // Handle graceful shutdown
 process.on("SIGTERM", () => {
   log.info("SIGTERM received, shutting down gracefully");
+  stopPurge?.();
   process.exit(0);
 });
 
 process.on("SIGINT", () => {
   log.info("SIGINT received, shutting down gracefully");
+  stopPurge?.();
   process.exit(0);
 });
 
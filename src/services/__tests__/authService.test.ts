@@ -0,0 +1,186 @@
+import jwt from "jsonwebtoken";
+import { AuthService } from "../authService";
+import { TokenService } from "../tokenService";
+import {
+  InMemoryRateLimitStore,
+  LoginRateLimiter,
+  LoginRateLimitError,
+} from "../loginRateLimiter";
+import { TokenPayload } from "../../middleware/auth";
+
+const IP = "127.0.0.1";
+
+describe("AuthService", () => {
+  let authService: AuthService;
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = "test-secret";
+
+    authService = new AuthService(
+      new LoginRateLimiter(new InMemoryRateLimitStore())
+    );
+  });
+
+  describe("login", () => {
+    it("should issue tokens for the seeded test user", async () => {
+      const tokens = await authService.login("test", "password123", IP);
+
+      expect(tokens).not.toBeNull();
+      expect(jwt.verify(tokens!.token, "test-secret")).toMatchObject({
+        userId: "1",
+        username: "test",
+        role: "user",
+        jti: expect.any(String),
+      });
+      expect(tokens!.refreshToken).toEqual(expect.any(String));
+      expect(tokens!.expiresIn).toBe(15 * 60);
+    });
+
+    it("should reject an invalid password", async () => {
+      expect(await authService.login("test", "wrong-password", IP)).toBeNull();
+    });
+
+    it("should reject an unknown user", async () => {
+      expect(await authService.login("nobody", "password123", IP)).toBeNull();
+    });
+  });
+
+  describe("login rate limiting", () => {
+    it("should lock the account after consecutive failures", async () => {
+      for (let i = 0; i < 5; i++) {
+        expect(
+          await authService.login("test", "wrong-password", IP)
+        ).toBeNull();
+      }
+
+      // Even the correct password is refused while locked
+      await expect(
+        authService.login("test", "password123", IP)
+      ).rejects.toMatchObject({
+        reason: "account_locked",
+        retryAfterSeconds: 900,
+      });
+    });
+
+    it("should reset the failure count after a successful login", async () => {
+      for (let i = 0; i < 4; i++) {
+        await authService.login("test", "wrong-password", IP);
+      }
+      await authService.login("test", "password123", IP);
+
+      expect(await authService.login("test", "wrong-password", IP)).toBeNull();
+      expect(await authService.login("test", "password123", IP)).not.toBeNull();
+    });
+
+    it("should refuse attempts over the per-IP limit", async () => {
+      for (let i = 0; i < 20; i++) {
+        await authService.login(`user${i}`, "password123", IP);
+      }
+
+      await expect(
+        authService.login("test", "password123", IP)
+      ).rejects.toBeInstanceOf(LoginRateLimitError);
+      expect(
+        await authService.login("test", "password123", "10.0.0.1")
+      ).not.toBeNull();
+    });
+  });
+
+  describe("register", () => {
+    it("should allow a registered user to log in", async () => {
+      expect(await authService.register("alice", "correct-horse")).toBe(true);
+
+      expect(
+        await authService.login("alice", "correct-horse", IP)
+      ).not.toBeNull();
+      expect(await authService.login("alice", "wrong-horse", IP)).toBeNull();
+    });
+
+    it("should give each registered user a unique ID", async () => {
+      await authService.register("carol", "correct-horse");
+      await authService.register("dave", "correct-horse");
+
+      const ids = (await authService.listUsers())
+        .filter((user) => ["carol", "dave"].includes(user.username))
+        .map((user) => user.userId);
+
+      expect(ids).toHaveLength(2);
+      expect(ids[0]).not.toBe(ids[1]);
+      // Not derived from the user count, which restarts with the process
+      expect(ids[0]).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it("should reject a duplicate username", async () => {
+      expect(await authService.register("bob", "correct-horse")).toBe(true);
+      expect(await authService.register("bob", "another-horse")).toBe(false);
+    });
+  });
+
+  describe("listUsers", () => {
+    it("should list users without their password hashes", async () => {
+      const users = await authService.listUsers();
+
+      expect(users).toContainEqual({
+        userId: "1",
+        username: "test",
+        role: "user",
+      });
+      expect(users[0]).not.toHaveProperty("passwordHash");
+    });
+  });
+
+  describe("refresh", () => {
+    it("should rotate the refresh token", async () => {
+      const tokens = await authService.login("test", "password123", IP);
+
+      const refreshed = await authService.refresh(tokens!.refreshToken);
+
+      expect(refreshed).not.toBeNull();
+      expect(refreshed!.refreshToken).not.toBe(tokens!.refreshToken);
+      expect(jwt.verify(refreshed!.token, "test-secret")).toMatchObject({
+        userId: "1",
+      });
+    });
+
+    it("should reject an unknown refresh token", async () => {
+      expect(await authService.refresh("not-a-token")).toBeNull();
+    });
+
+    it("should revoke the token family when a rotated token is reused", async () => {
+      const tokens = await authService.login("test", "password123", IP);
+      const refreshed = await authService.refresh(tokens!.refreshToken);
+
+      // Replaying the original token is treated as theft
+      expect(await authService.refresh(tokens!.refreshToken)).toBeNull();
+
+      // so the legitimately rotated token no longer works either
+      expect(await authService.refresh(refreshed!.refreshToken)).toBeNull();
+    });
+  });
+
+  describe("logout", () => {
+    it("should revoke the access and refresh tokens", async () => {
+      const tokens = await authService.login("test", "password123", IP);
+      const payload = jwt.verify(tokens!.token, "test-secret") as TokenPayload;
+
+      await authService.logout(payload, tokens!.refreshToken);
+
+      expect(new TokenService().isAccessTokenRevoked(payload.jti)).toBe(true);
+      expect(await authService.refresh(tokens!.refreshToken)).toBeNull();
+    });
+
+    it("should not revoke another user's refresh token", async () => {
+      await authService.register("carol", "correct-horse");
+      const victim = await authService.login("test", "password123", IP);
+      const attacker = await authService.login("carol", "correct-horse", IP);
+      const payload = jwt.verify(
+        attacker!.token,
+        "test-secret"
+      ) as TokenPayload;
+
+      await authService.logout(payload, victim!.refreshToken);
+
+      expect(await authService.refresh(victim!.refreshToken)).not.toBeNull();
+    });
+  });
+});
@@ -1,67 +1,92 @@
-import { ChatService } from "../chatService";
-import { Configuration, OpenAIApi } from "openai";
-
-// Mock OpenAI
-jest.mock("openai", () => {
-  const mockOpenAIApi = {
-    createChatCompletion: jest.fn().mockResolvedValue({
-      data: {
-        choices: [
-          {
-            message: {
-              content: "This is a mock response",
-            },
-          },
-        ],
-      },
-    }),
-  };
-
-  return {
-    Configuration: jest.fn().mockImplementation(() => ({})),
-    OpenAIApi: jest.fn().mockImplementation(() => mockOpenAIApi),
-  };
-});
-
-// Mock Azure Key Vault
-jest.mock("../../utils/azureKeyVault", () => ({
-  getSecret: jest.fn().mockResolvedValue("mock-api-key"),
-}));
+import { ChatService, ConversationAccessError } from "../chatService";
+import { NotFoundError } from "../../errors";
+import { InMemoryConversationRepository } from "../../repositories";
+import { QuotaExceededError, UsageService } from "../usageService";
+import {
+  ProviderUnavailableError,
+  ResilientProvider,
+  ScriptedProvider,
+} from "../../providers";
+import { InMemoryVectorStore, RetrievalService } from "../../retrieval";
+import { ContextWindowManager } from "../contextWindow";
+import { Tool, ToolRegistry } from "../../tools";
+import { PersonaNotFoundError, PersonaService } from "../personaService";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { metrics, trace } from "@opentelemetry/api";
 
 // Mock OpenTelemetry
 jest.mock("@opentelemetry/api", () => {
   const mockSpan = {
     setAttribute: jest.fn(),
     setStatus: jest.fn(),
+    addEvent: jest.fn(),
+    recordException: jest.fn(),
     end: jest.fn(),
+    spanContext: jest.fn().mockReturnValue({
+      traceId: "trace-1",
+      spanId: "span-1",
+      traceFlags: 1,
+    }),
   };
 
   const mockTracer = {
-    startActiveSpan: jest.fn().mockImplementation((name, fn) => {
-      return fn(mockSpan);
+    // The span callback comes last, after the name and any options
+    startActiveSpan: jest.fn().mockImplementation((name, ...args) => {
+      return args[args.length - 1](mockSpan);
     }),
+    startSpan: jest.fn().mockReturnValue(mockSpan),
+  };
+
+  const mockCounter = { add: jest.fn() };
+  const mockMeter = {
+    createCounter: jest.fn().mockReturnValue(mockCounter),
+    createHistogram: jest.fn().mockReturnValue({ record: jest.fn() }),
   };
 
   return {
     trace: {
       getTracer: jest.fn().mockReturnValue(mockTracer),
-      SpanStatusCode: {
-        OK: "ok",
-        ERROR: "error",
-      },
+      getActiveSpan: jest.fn(),
+      setSpan: jest.fn(),
+    },
+    metrics: {
+      getMeter: jest.fn().mockReturnValue(mockMeter),
+    },
+    context: {
+      active: jest.fn(),
+      with: jest.fn().mockImplementation((ctx, fn) => fn()),
+    },
+    isSpanContextValid: jest.fn().mockReturnValue(true),
+    SpanStatusCode: {
+      OK: "ok",
+      ERROR: "error",
+    },
+    TraceFlags: {
+      SAMPLED: 1,
     },
   };
 });
 
 describe("ChatService", () => {
   let chatService: ChatService;
+  let provider: ScriptedProvider;
+
+  const alice = { userId: "1" };
+  const mallory = { userId: "2" };
 
   beforeEach(() => {
     // Reset environment between tests
-    process.env.OPENAI_API_KEY = "test-key";
     process.env.OPENAI_MODEL = "gpt-4";
+    process.env.RAG_ENABLED = "false";
 
-    chatService = new ChatService();
+    provider = new ScriptedProvider();
+    chatService = new ChatService(
+      new InMemoryConversationRepository(),
+      new UsageService(),
+      provider
+    );
   });
 
   afterEach(() => {
@@ -72,31 +97,1315 @@ describe("ChatService", () => {
     it("should process a message and return a response", async () => {
       const message = "Hello, chatbot!";
 
-      const result = await chatService.processMessage(message);
+      const result = await chatService.processMessage(
+        message,
+        undefined,
+        alice
+      );
 
-      expect(result).toHaveProperty("response", "This is a mock response");
+      expect(result).toHaveProperty("response", "Echo: Hello, chatbot!");
       expect(result).toHaveProperty("conversationId");
     });
 
     it("should use an existing conversation if ID is provided", async () => {
       // First message to create a conversation
-      const firstResult = await chatService.processMessage("First message");
+      const firstResult = await chatService.processMessage(
+        "First message",
+        undefined,
+        alice
+      );
       const conversationId = firstResult.conversationId;
 
       // Second message using the same conversation
       const secondResult = await chatService.processMessage(
         "Second message",
-        conversationId
+        conversationId,
+        alice
       );
 
       expect(secondResult.conversationId).toBe(conversationId);
     });
+
+    it("should count token usage by model in the metrics", async () => {
+      await chatService.processMessage("Hello", undefined, alice);
+
+      const counter = metrics.getMeter("test").createCounter("test");
+      expect(counter.add).toHaveBeenCalledWith(expect.any(Number), {
+        "llm.provider": "scripted",
+        "llm.model": "gpt-4",
+      });
+    });
+  });
+
+  describe("context window", () => {
+    it("should record how the context was prepared on the span", async () => {
+      const span = trace.getTracer("test").startSpan("test");
+
+      await chatService.processMessage("Hello", undefined, alice);
+
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "context.strategy",
+        "sliding-window"
+      );
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "context.dropped_count",
+        0
+      );
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "context.summarized_count",
+        0
+      );
+    });
+  });
+
+  describe("GenAI telemetry", () => {
+    afterEach(() => {
+      delete process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT;
+    });
+
+    it("should follow the GenAI semantic conventions on the span", async () => {
+      const span = trace.getTracer("test").startSpan("test");
+
+      await chatService.processMessage("Hello", undefined, alice);
+
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "gen_ai.system",
+        "scripted"
+      );
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "gen_ai.request.model",
+        "gpt-4"
+      );
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "gen_ai.response.finish_reasons",
+        ["stop"]
+      );
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "gen_ai.usage.input_tokens",
+        expect.any(Number)
+      );
+      expect(span.addEvent).not.toHaveBeenCalledWith(
+        "gen_ai.content.prompt",
+        expect.anything()
+      );
+    });
+
+    it("should attach redacted content when capture is enabled", async () => {
+      process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT = "true";
+      chatService = new ChatService(
+        new InMemoryConversationRepository(),
+        new UsageService(),
+        provider
+      );
+      const span = trace.getTracer("test").startSpan("test");
+
+      await chatService.processMessage(
+        "Reach me at jane@example.com",
+        undefined,
+        alice
+      );
+
+      expect(span.addEvent).toHaveBeenCalledWith("gen_ai.content.prompt", {
+        "gen_ai.prompt": expect.stringContaining("Reach me at [EMAIL]"),
+      });
+      expect(span.addEvent).toHaveBeenCalledWith("gen_ai.content.completion", {
+        "gen_ai.completion": expect.stringContaining(
+          "Echo: Reach me at [EMAIL]"
+        ),
+      });
+      expect(
+        JSON.stringify(jest.mocked(span.addEvent).mock.calls)
+      ).not.toContain("jane@example.com");
+    });
+
+    it("should report the finish reason of a stream", async () => {
+      const span = trace.getTracer("test").startSpan("test");
+
+      for await (const event of chatService.processMessageStream(
+        "Hello",
+        undefined,
+        alice
+      )) {
+        expect(event).toBeDefined();
+      }
+
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "gen_ai.response.finish_reasons",
+        ["stop"]
+      );
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "gen_ai.usage.output_tokens",
+        expect.any(Number)
+      );
+    });
+  });
+
+  describe("tool calling", () => {
+    let stockTool: Tool;
+
+    const stockCall = {
+      functionCall: {
+        name: "check_inventory",
+        arguments: '{"product":"BT-100"}',
+      },
+    };
+
+    beforeEach(() => {
+      process.env.TOOL_MAX_ITERATIONS = "2";
+
+      stockTool = {
+        name: "check_inventory",
+        description: "Check stock",
+        parameters: {
+          type: "object",
+          properties: { product: { type: "string" } },
+          required: ["product"],
+        },
+        execute: jest.fn().mockResolvedValue({ stock: 4 }),
+      };
+
+      chatService = new ChatService(
+        new InMemoryConversationRepository(),
+        new UsageService(),
+        provider,
+        undefined,
+        undefined,
+        new ToolRegistry([stockTool])
+      );
+    });
+
+    afterEach(() => {
+      delete process.env.TOOL_MAX_ITERATIONS;
+      delete process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT;
+    });
+
+    it("should run called tools and answer with their results", async () => {
+      provider.enqueue(stockCall, "We have 4 in stock.");
+
+      const result = await chatService.processMessage(
+        "Are BT-100 boots in stock?",
+        undefined,
+        alice
+      );
+
+      expect(result.response).toBe("We have 4 in stock.");
+      expect(stockTool.execute).toHaveBeenCalledWith(
+        { product: "BT-100" },
+        { userId: "1" }
+      );
+      expect(provider.requests[0].functions).toEqual([
+        expect.objectContaining({ name: "check_inventory" }),
+      ]);
+      expect(provider.requests[1].messages.slice(-2)).toEqual([
+        {
+          role: "assistant",
+          content: "",
+          functionCall: stockCall.functionCall,
+        },
+        { role: "function", name: "check_inventory", content: '{"stock":4}' },
+      ]);
+
+      // Only the final answer is kept in the history
+      const conversation = await chatService.getConversation(
+        result.conversationId,
+        alice
+      );
+      expect(conversation?.messages).toEqual([
+        expect.objectContaining({
+          role: "user",
+          content: "Are BT-100 boots in stock?",
+        }),
+        expect.objectContaining({
+          role: "assistant",
+          content: "We have 4 in stock.",
+        }),
+      ]);
+    });
+
+    it("should stop offering tools after the iteration limit", async () => {
+      provider.enqueue(stockCall, stockCall, "Done checking.");
+
+      const result = await chatService.processMessage(
+        "Check everything",
+        undefined,
+        alice
+      );
+
+      expect(result.response).toBe("Done checking.");
+      expect(stockTool.execute).toHaveBeenCalledTimes(2);
+      expect(provider.requests[2].functions).toBeUndefined();
+    });
+
+    it("should capture tool call completions when capture is enabled", async () => {
+      process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT = "true";
+      chatService = new ChatService(
+        new InMemoryConversationRepository(),
+        new UsageService(),
+        provider,
+        undefined,
+        undefined,
+        new ToolRegistry([stockTool])
+      );
+      const span = trace.getTracer("test").startSpan("test");
+      provider.enqueue(stockCall, "We have 4 in stock.", stockCall, "Still 4.");
+
+      await chatService.processMessage("Any BT-100?", undefined, alice);
+      for await (const _event of chatService.processMessageStream(
+        "And now?",
+        undefined,
+        alice
+      )) {
+        // Drain the stream
+      }
+
+      const completions = jest
+        .mocked(span.addEvent)
+        .mock.calls.filter(([name]) => name === "gen_ai.content.completion")
+        .map(([, attributes]) =>
+          JSON.parse(
+            String((attributes as Record<string, unknown>)["gen_ai.completion"])
+          )
+        );
+      expect(completions).toEqual([
+        [{ role: "assistant", content: "", ...stockCall }],
+        [{ role: "assistant", content: "We have 4 in stock." }],
+        [{ role: "assistant", content: "", ...stockCall }],
+        [{ role: "assistant", content: "Still 4." }],
+      ]);
+    });
+
+    it("should run tools while streaming", async () => {
+      provider.enqueue(stockCall, "In stock now");
+
+      const events = [];
+      for await (const event of chatService.processMessageStream(
+        "Are BT-100 boots in stock?",
+        undefined,
+        alice
+      )) {
+        events.push(event);
+      }
+
+      expect(stockTool.execute).toHaveBeenCalledTimes(1);
+      expect(events[events.length - 1]).toMatchObject({
+        type: "done",
+        response: "In stock now",
+      });
+    });
+
+    it("should save only the final answer of a streamed tool call", async () => {
+      provider.enqueue(
+        { content: "Let me check.", ...stockCall },
+        "We have 4 in stock."
+      );
+
+      const events = [];
+      for await (const event of chatService.processMessageStream(
+        "Are BT-100 boots in stock?",
+        undefined,
+        alice
+      )) {
+        events.push(event);
+      }
+      const done = events[events.length - 1] as { conversationId: string };
+
+      // The text before the tool call was streamed but isn't the answer
+      expect(events[0]).toEqual({ type: "token", content: "Let" });
+      expect(done).toMatchObject({
+        type: "done",
+        response: "We have 4 in stock.",
+      });
+      const conversation = await chatService.getConversation(
+        done.conversationId,
+        alice
+      );
+      expect(
+        conversation?.messages[conversation.messages.length - 1]
+      ).toMatchObject({
+        role: "assistant",
+        content: "We have 4 in stock.",
+      });
+    });
+  });
+
+  describe("personas", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "personas-"));
+      const personasPath = path.join(directory, "personas.json");
+      await fs.writeFile(
+        personasPath,
+        JSON.stringify([
+          {
+            id: "helper",
+            name: "Helper",
+            systemPrompt: "You are a helper.",
+            temperature: 0.7,
+            maxTokens: 500,
+          },
+          {
+            id: "terse",
+            name: "Terse",
+            systemPrompt: "Answer in five words.",
+            model: "gpt-3.5-turbo",
+            temperature: 0.1,
+            maxTokens: 50,
+          },
+        ])
+      );
+
+      chatService = new ChatService(
+        new InMemoryConversationRepository(),
+        new UsageService(),
+        provider,
+        undefined,
+        undefined,
+        undefined,
+        new PersonaService(personasPath, "helper")
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("should start conversations with the default persona", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "Hello",
+        undefined,
+        alice
+      );
+
+      expect(provider.requests[0]).toMatchObject({
+        model: "gpt-4",
+        temperature: 0.7,
+        maxTokens: 500,
+      });
+      expect(provider.requests[0].messages[0].content).toBe(
+        "You are a helper."
+      );
+      expect(await chatService.listConversations(alice)).toEqual([
+        expect.objectContaining({ id: conversationId, personaId: "helper" }),
+      ]);
+    });
+
+    it("should keep a conversation's persona on later turns", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "Hello",
+        undefined,
+        alice,
+        "terse"
+      );
+      await chatService.processMessage(
+        "Again",
+        conversationId,
+        alice,
+        "helper"
+      );
+
+      for (const request of provider.requests) {
+        expect(request).toMatchObject({
+          model: "gpt-3.5-turbo",
+          temperature: 0.1,
+          maxTokens: 50,
+        });
+        expect(request.messages[0].content).toBe("Answer in five words.");
+      }
+
+      const span = trace.getTracer("test").startSpan("test");
+      expect(span.setAttribute).toHaveBeenCalledWith("persona.id", "terse");
+    });
+
+    it("should refuse unknown personas", async () => {
+      await expect(
+        chatService.processMessage("Hello", undefined, alice, "missing")
+      ).rejects.toBeInstanceOf(PersonaNotFoundError);
+      expect(provider.requests).toHaveLength(0);
+    });
+  });
+
+  describe("catalog retrieval", () => {
+    const boots = {
+      id: "BT-100",
+      title: "Ridgeline Hiking Boots",
+      text: "Waterproof leather hiking boots.",
+      source: "products.json",
+    };
+    const tent = {
+      id: "TN-400",
+      title: "Basecamp Tent",
+      text: "Two person backpacking tent.",
+      source: "products.json",
+    };
+
+    let retrieval: RetrievalService;
+
+    beforeEach(async () => {
+      const store = new InMemoryVectorStore();
+      const embeddings = await provider.createEmbeddings([
+        boots.text,
+        tent.text,
+      ]);
+      await store.upsert([
+        { document: boots, embedding: embeddings[0] },
+        { document: tent, embedding: embeddings[1] },
+      ]);
+      retrieval = new RetrievalService(
+        provider,
+        { enabled: true, catalogPath: "", topK: 1, minScore: 0.1 },
+        store
+      );
+
+      chatService = new ChatService(
+        new InMemoryConversationRepository(),
+        new UsageService(),
+        provider,
+        new ContextWindowManager(provider),
+        retrieval
+      );
+    });
+
+    it("should inject matching catalog entries and cite them", async () => {
+      const result = await chatService.processMessage(
+        "Are your hiking boots waterproof?",
+        undefined,
+        alice
+      );
+
+      expect(result.citations).toEqual([
+        {
+          id: "BT-100",
+          title: "Ridgeline Hiking Boots",
+          source: "products.json",
+          score: expect.any(Number),
+        },
+      ]);
+
+      // The entries precede the latest message but aren't stored
+      const messages = provider.requests[0].messages;
+      expect(messages[messages.length - 2].role).toBe("system");
+      expect(messages[messages.length - 2].content).toContain(
+        "[1] Ridgeline Hiking Boots (SKU BT-100)"
+      );
+      const conversation = await chatService.getConversation(
+        result.conversationId,
+        alice
+      );
+      expect(conversation?.messages).toHaveLength(2);
+
+      // Both messages keep their time and the reply its sources
+      expect(conversation?.messages).toEqual([
+        expect.objectContaining({ createdAt: expect.anything() }),
+        expect.objectContaining({
+          createdAt: expect.anything(),
+          citations: result.citations,
+        }),
+      ]);
+    });
+
+    it("should keep catalog entries out of the history summary", async () => {
+      const repository = new InMemoryConversationRepository();
+      chatService = new ChatService(
+        repository,
+        new UsageService(),
+        provider,
+        // Room for little more than the latest message once 500 tokens are
+        // kept for the reply
+        new ContextWindowManager(provider, {
+          strategy: "summarize",
+          contextTokens: {},
+          defaultContextTokens: 650,
+        }),
+        retrieval
+      );
+
+      let conversationId: string | undefined;
+      for (const message of [
+        "Are your hiking boots waterproof?",
+        "Do you have a backpacking tent?",
+        "Which hiking boots fit wide feet?",
+      ]) {
+        ({ conversationId } = await chatService.processMessage(
+          message,
+          conversationId,
+          alice
+        ));
+      }
+
+      const summaryRequests = provider.requests.filter((request) =>
+        request.messages[0].content.startsWith("Summarize")
+      );
+      expect(summaryRequests.length).toBeGreaterThan(0);
+      for (const request of summaryRequests) {
+        expect(request.messages[1].content).not.toContain("Catalog entries");
+      }
+
+      // The summary and the messages sent after it make up the stored history
+      const conversation = await repository.get(conversationId!);
+      const history = conversation!.messages.filter(
+        (message) => message.role !== "system"
+      );
+      const sent = provider.requests[provider.requests.length - 1].messages;
+      const recent = sent.filter((message) => message.role !== "system");
+      expect(sent[sent.length - 2].content).toContain("Catalog entries");
+      expect(conversation!.contextSummary!.messageCount + recent.length).toBe(
+        history.length - 1
+      );
+    });
+
+    it("should include citations in the done event of a stream", async () => {
+      const events = [];
+      for await (const event of chatService.processMessageStream(
+        "Do you have a backpacking tent?",
+        undefined,
+        alice
+      )) {
+        events.push(event);
+      }
+      const done = events[events.length - 1] as { conversationId: string };
+
+      expect(done).toMatchObject({
+        type: "done",
+        citations: [expect.objectContaining({ id: "TN-400" })],
+      });
+
+      const conversation = await chatService.getConversation(
+        done.conversationId,
+        alice
+      );
+      expect(conversation?.messages).toEqual([
+        expect.objectContaining({ createdAt: expect.anything() }),
+        expect.objectContaining({
+          createdAt: expect.anything(),
+          citations: [expect.objectContaining({ id: "TN-400" })],
+        }),
+      ]);
+    });
+  });
+
+  describe("processMessageStream", () => {
+    const collect = async (
+      stream: AsyncIterable<unknown>
+    ): Promise<unknown[]> => {
+      const events = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+      return events;
+    };
+
+    it("should stream tokens followed by a done event", async () => {
+      provider.enqueue("Hello there");
+
+      const events = await collect(
+        chatService.processMessageStream("Hi, chatbot!", undefined, alice)
+      );
+
+      expect(events).toEqual([
+        { type: "token", content: "Hello" },
+        { type: "token", content: " there" },
+        {
+          type: "done",
+          response: "Hello there",
+          conversationId: expect.any(String),
+          userMessageId: expect.any(String),
+          messageId: expect.any(String),
+          citations: [],
+        },
+      ]);
+    });
+
+    it("should continue the conversation once the stream completes", async () => {
+      provider.enqueue("Streamed");
+
+      const events = await collect(
+        chatService.processMessageStream("First message", undefined, alice)
+      );
+      const done = events[events.length - 1] as { conversationId: string };
+
+      const result = await chatService.processMessage(
+        "Second message",
+        done.conversationId,
+        alice
+      );
+
+      expect(result.conversationId).toBe(done.conversationId);
+      const messages = provider.requests[1].messages;
+      expect(messages.map((m) => m.content)).toEqual([
+        expect.any(String),
+        "First message",
+        "Streamed",
+        "Second message",
+      ]);
+    });
+
+    it("should not commit the conversation when the stream is cancelled", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "First message",
+        undefined,
+        alice
+      );
+
+      provider.enqueue("Partial answer");
+
+      const stream = chatService.processMessageStream(
+        "Cancelled message",
+        conversationId,
+        alice
+      );
+      const first = await stream.next();
+      await stream.return(undefined);
+
+      expect(first.value).toEqual({ type: "token", content: "Partial" });
+
+      await chatService.processMessage("Next message", conversationId, alice);
+      const messages = provider.requests[2].messages;
+      expect(messages.map((m) => m.content)).toEqual([
+        expect.any(String),
+        "First message",
+        "Echo: First message",
+        "Next message",
+      ]);
+    });
+  });
+
+  describe("history rewrites", () => {
+    const contents = async (conversationId: string) =>
+      (await chatService.getConversation(conversationId, alice))?.messages.map(
+        (message) => message.content
+      );
+
+    it("should replace the last response when regenerating", async () => {
+      const first = await chatService.processMessage("Hello", undefined, alice);
+      provider.enqueue("Better answer");
+
+      const result = await chatService.regenerateResponse(
+        first.conversationId,
+        alice
+      );
+
+      expect(result.response).toBe("Better answer");
+      expect(result.messageId).not.toBe(first.messageId);
+      expect(provider.requests[1].messages.map((m) => m.content)).toEqual([
+        expect.any(String),
+        "Hello",
+      ]);
+      expect(await contents(first.conversationId)).toEqual([
+        "Hello",
+        "Better answer",
+      ]);
+
+      const tracer = trace.getTracer("test");
+      expect(tracer.startActiveSpan).toHaveBeenCalledWith(
+        "rewind-history",
+        expect.any(Function)
+      );
+      const span = tracer.startSpan("test");
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "history.action",
+        "regenerate"
+      );
+      expect(span.setAttribute).toHaveBeenCalledWith(
+        "history.removed_count",
+        2
+      );
+    });
+
+    it("should drop everything after an edited message", async () => {
+      const first = await chatService.processMessage("Hello", undefined, alice);
+      await chatService.processMessage(
+        "Second message",
+        first.conversationId,
+        alice
+      );
+
+      const result = await chatService.editMessage(
+        first.conversationId,
+        first.userMessageId,
+        "Hi",
+        alice
+      );
+
+      expect(result.response).toBe("Echo: Hi");
+      expect(await contents(first.conversationId)).toEqual(["Hi", "Echo: Hi"]);
+    });
+
+    it("should only edit the user's own messages", async () => {
+      const first = await chatService.processMessage("Hello", undefined, alice);
+
+      await expect(
+        chatService.editMessage(
+          first.conversationId,
+          first.messageId,
+          "Hi",
+          alice
+        )
+      ).rejects.toBeInstanceOf(NotFoundError);
+      await expect(
+        chatService.regenerateResponse("missing", alice)
+      ).rejects.toBeInstanceOf(NotFoundError);
+      await expect(
+        chatService.regenerateResponse(first.conversationId, mallory)
+      ).rejects.toBeInstanceOf(ConversationAccessError);
+      expect(provider.requests).toHaveLength(1);
+    });
+
+    it("should drop a context summary of removed messages", async () => {
+      const repository = new InMemoryConversationRepository();
+      chatService = new ChatService(
+        repository,
+        new UsageService(),
+        provider,
+        new ContextWindowManager(provider, {
+          strategy: "summarize",
+          contextTokens: {},
+          defaultContextTokens: 1300,
+        })
+      );
+      const first = await chatService.processMessage(
+        `My order is 1234. ${"x".repeat(1200)}`,
+        undefined,
+        alice
+      );
+
+      // As if the first exchange had been summarized on an earlier turn
+      const stored = await repository.get(first.conversationId);
+      await repository.save({
+        ...stored!,
+        contextSummary: { content: "Asked about order 1234", messageCount: 2 },
+      });
+
+      await chatService.editMessage(
+        first.conversationId,
+        first.userMessageId,
+        `My order is 5678. ${"y".repeat(1200)}`,
+        alice
+      );
+      expect(
+        (await repository.get(first.conversationId))?.contextSummary
+      ).toBeUndefined();
+
+      await chatService.processMessage(
+        "z".repeat(1200),
+        first.conversationId,
+        alice
+      );
+
+      const prompt = provider.requests[provider.requests.length - 1].messages
+        .map((message) => message.content)
+        .join("\n");
+      expect(prompt).toContain("Summary of the earlier conversation");
+      expect(prompt).not.toContain("order 1234");
+    });
+
+    it("should restore the history when the new response fails", async () => {
+      const first = await chatService.processMessage("Hello", undefined, alice);
+      jest
+        .spyOn(provider, "createChatCompletion")
+        .mockRejectedValueOnce(new Error("Provider down"));
+
+      await expect(
+        chatService.editMessage(
+          first.conversationId,
+          first.userMessageId,
+          "Hi",
+          alice
+        )
+      ).rejects.toThrow("Provider down");
+
+      expect(await contents(first.conversationId)).toEqual([
+        "Hello",
+        "Echo: Hello",
+      ]);
+    });
+
+    it("should restore the history when a regenerated stream is stopped", async () => {
+      const first = await chatService.processMessage("Hello", undefined, alice);
+      provider.enqueue("Partial answer");
+
+      const stream = chatService.regenerateResponseStream(
+        first.conversationId,
+        alice
+      );
+      expect((await stream.next()).value).toEqual({
+        type: "token",
+        content: "Partial",
+      });
+      await stream.return(undefined);
+
+      expect(await contents(first.conversationId)).toEqual([
+        "Hello",
+        "Echo: Hello",
+      ]);
+    });
+
+    it("should stream the response to an edited message", async () => {
+      const first = await chatService.processMessage("Hello", undefined, alice);
+      provider.enqueue("Streamed");
+
+      const events = [];
+      for await (const event of chatService.editMessageStream(
+        first.conversationId,
+        first.userMessageId,
+        "Hi",
+        alice
+      )) {
+        events.push(event);
+      }
+
+      expect(events[events.length - 1]).toMatchObject({
+        type: "done",
+        response: "Streamed",
+        conversationId: first.conversationId,
+      });
+      expect(await contents(first.conversationId)).toEqual(["Hi", "Streamed"]);
+    });
+  });
+
+  describe("conversation management", () => {
+    it("should list conversations titled after their first message", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "Do you sell hiking boots?",
+        undefined,
+        alice
+      );
+
+      const conversations = await chatService.listConversations(alice);
+
+      expect(conversations).toEqual([
+        expect.objectContaining({
+          id: conversationId,
+          title: "Do you sell hiking boots?",
+          messageCount: 2,
+        }),
+      ]);
+    });
+
+    it("should return history without the system prompt", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "Hello",
+        undefined,
+        alice
+      );
+
+      const conversation = await chatService.getConversation(
+        conversationId,
+        alice
+      );
+
+      expect(conversation?.messages).toEqual([
+        {
+          id: expect.any(String),
+          role: "user",
+          content: "Hello",
+          createdAt: expect.anything(),
+        },
+        {
+          id: expect.any(String),
+          role: "assistant",
+          content: "Echo: Hello",
+          createdAt: expect.anything(),
+          traceId: "trace-1",
+          spanId: "span-1",
+        },
+      ]);
+    });
+
+    it("should rename and delete a conversation", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "Hello",
+        undefined,
+        alice
+      );
+
+      const renamed = await chatService.renameConversation(
+        conversationId,
+        "Greetings",
+        alice
+      );
+      expect(renamed?.title).toBe("Greetings");
+
+      expect(await chatService.deleteConversation(conversationId, alice)).toBe(
+        true
+      );
+      expect(
+        await chatService.getConversation(conversationId, alice)
+      ).toBeUndefined();
+    });
+
+    it("should return undefined for unknown conversations", async () => {
+      expect(
+        await chatService.getConversation("missing", alice)
+      ).toBeUndefined();
+      expect(
+        await chatService.renameConversation("missing", "Title", alice)
+      ).toBeUndefined();
+      expect(await chatService.deleteConversation("missing", alice)).toBe(
+        false
+      );
+    });
+  });
+
+  describe("feedback", () => {
+    it("should store feedback on the rated message", async () => {
+      const { conversationId, messageId } = await chatService.processMessage(
+        "Hello",
+        undefined,
+        alice
+      );
+
+      const feedback = await chatService.recordFeedback(
+        conversationId,
+        messageId,
+        { rating: "down", comment: " Too vague " },
+        alice
+      );
+
+      expect(feedback).toMatchObject({
+        conversationId,
+        messageId,
+        userId: "1",
+        rating: "down",
+        comment: "Too vague",
+        traceId: "trace-1",
+      });
+
+      const conversation = await chatService.getConversation(
+        conversationId,
+        alice
+      );
+      expect(conversation?.messages[1].feedback).toMatchObject({
+        rating: "down",
+        comment: "Too vague",
+      });
+    });
+
+    it("should link the feedback span to the completion", async () => {
+      const { conversationId, messageId } = await chatService.processMessage(
+        "Hello",
+        undefined,
+        alice
+      );
+
+      await chatService.recordFeedback(
+        conversationId,
+        messageId,
+        { rating: "up" },
+        alice
+      );
+
+      expect(trace.getTracer("").startActiveSpan).toHaveBeenCalledWith(
+        "record-feedback",
+        {
+          links: [
+            {
+              context: { traceId: "trace-1", spanId: "span-1", traceFlags: 1 },
+            },
+          ],
+        },
+        expect.any(Function)
+      );
+    });
+
+    it("should only accept feedback on assistant messages", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "Hello",
+        undefined,
+        alice
+      );
+      const conversation = await chatService.getConversation(
+        conversationId,
+        alice
+      );
+
+      expect(
+        await chatService.recordFeedback(
+          conversationId,
+          conversation!.messages[0].id!,
+          { rating: "up" },
+          alice
+        )
+      ).toBeUndefined();
+      expect(
+        await chatService.recordFeedback(
+          "missing",
+          "missing",
+          { rating: "up" },
+          alice
+        )
+      ).toBeUndefined();
+    });
+
+    it("should not accept feedback on another user's conversation", async () => {
+      const { conversationId, messageId } = await chatService.processMessage(
+        "Hello",
+        undefined,
+        alice
+      );
+
+      await expect(
+        chatService.recordFeedback(
+          conversationId,
+          messageId,
+          { rating: "up" },
+          mallory
+        )
+      ).rejects.toThrow(ConversationAccessError);
+    });
+
+    it("should report ratings by persona, newest first", async () => {
+      const first = await chatService.processMessage("Hi", undefined, alice);
+      const second = await chatService.processMessage(
+        "Hey",
+        undefined,
+        mallory
+      );
+
+      await chatService.recordFeedback(
+        first.conversationId,
+        first.messageId,
+        { rating: "up" },
+        alice
+      );
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await chatService.recordFeedback(
+        second.conversationId,
+        second.messageId,
+        { rating: "down", comment: "Wrong answer" },
+        mallory
+      );
+
+      const report = await chatService.getFeedbackReport();
+
+      expect(report).toMatchObject({
+        total: 2,
+        up: 1,
+        down: 1,
+        byPersona: { "retail-assistant": { up: 1, down: 1 } },
+      });
+      expect(report.recent.map((entry) => entry.messageId)).toEqual([
+        second.messageId,
+        first.messageId,
+      ]);
+    });
+  });
+
+  describe("conversation ownership", () => {
+    it("should record the owner of a new conversation", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "Hello",
+        undefined,
+        alice
+      );
+
+      expect(await chatService.listConversations(alice)).toHaveLength(1);
+      expect(await chatService.listConversations(mallory)).toHaveLength(0);
+      expect(
+        await chatService.getConversation(conversationId, alice)
+      ).toBeDefined();
+    });
+
+    it("should refuse to continue another user's conversation", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "Private question",
+        undefined,
+        alice
+      );
+
+      await expect(
+        chatService.processMessage("Intrusion", conversationId, mallory)
+      ).rejects.toBeInstanceOf(ConversationAccessError);
+
+      // The conversation is untouched and no completion was requested
+      expect(provider.requests).toHaveLength(1);
+      const conversation = await chatService.getConversation(
+        conversationId,
+        alice
+      );
+      expect(conversation?.messages).toHaveLength(2);
+    });
+
+    it("should refuse to stream into another user's conversation", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "Private question",
+        undefined,
+        alice
+      );
+
+      const stream = chatService.processMessageStream(
+        "Intrusion",
+        conversationId,
+        mallory
+      );
+
+      await expect(stream.next()).rejects.toBeInstanceOf(
+        ConversationAccessError
+      );
+    });
+
+    it("should refuse to read, rename or delete another user's conversation", async () => {
+      const { conversationId } = await chatService.processMessage(
+        "Private question",
+        undefined,
+        alice
+      );
+
+      await expect(
+        chatService.getConversation(conversationId, mallory)
+      ).rejects.toBeInstanceOf(ConversationAccessError);
+      await expect(
+        chatService.renameConversation(conversationId, "Mine now", mallory)
+      ).rejects.toBeInstanceOf(ConversationAccessError);
+      await expect(
+        chatService.deleteConversation(conversationId, mallory)
+      ).rejects.toBeInstanceOf(ConversationAccessError);
+
+      const conversation = await chatService.getConversation(
+        conversationId,
+        alice
+      );
+      expect(conversation?.title).toBe("Private question");
+    });
+  });
+
+  describe("token quotas", () => {
+    const limitedUsage = (daily = 10) =>
+      new UsageService({
+        roles: {
+          user: { daily, monthly: null },
+          admin: { daily: null, monthly: null },
+        },
+        users: {},
+      });
+
+    it("should refuse messages once the quota is used up", async () => {
+      const user = { userId: "quota-user", role: "user" as const };
+      const usage = limitedUsage(1000);
+      chatService = new ChatService(
+        new InMemoryConversationRepository(),
+        usage,
+        provider
+      );
+
+      const { conversationId } = await chatService.processMessage(
+        "Hello",
+        undefined,
+        user
+      );
+      usage.recordUsage(user, {
+        promptTokens: 1000,
+        completionTokens: 0,
+        totalTokens: 1000,
+      });
+
+      await expect(
+        chatService.processMessage("Hello again", conversationId, user)
+      ).rejects.toBeInstanceOf(QuotaExceededError);
+      expect(provider.requests).toHaveLength(1);
+    });
+
+    it("should refuse messages the remaining quota can't cover", async () => {
+      const user = { userId: "quota-estimate-user", role: "user" as const };
+      const usage = limitedUsage(1000);
+      // Less than the default persona's 500 token replies
+      usage.recordUsage(user, {
+        promptTokens: 600,
+        completionTokens: 0,
+        totalTokens: 600,
+      });
+      chatService = new ChatService(
+        new InMemoryConversationRepository(),
+        usage,
+        provider
+      );
+
+      await expect(
+        chatService.processMessage("Hello", undefined, user)
+      ).rejects.toBeInstanceOf(QuotaExceededError);
+      await expect(
+        chatService.processMessageStream("Hello", undefined, user).next()
+      ).rejects.toBeInstanceOf(QuotaExceededError);
+      expect(provider.requests).toHaveLength(0);
+    });
+
+    it("should not count a stream the provider never answered", async () => {
+      const user = {
+        userId: "quota-failed-stream-user",
+        role: "user" as const,
+      };
+      const usage = limitedUsage(1000);
+      jest.spyOn(provider, "streamChatCompletion").mockImplementation(() => {
+        throw Object.assign(new Error("Bad gateway"), { status: 502 });
+      });
+      chatService = new ChatService(
+        new InMemoryConversationRepository(),
+        usage,
+        provider
+      );
+
+      await expect(
+        chatService.processMessageStream("Hello", undefined, user).next()
+      ).rejects.toThrow("Bad gateway");
+      expect(usage.getUsage(user).daily.used).toBe(0);
+    });
+
+    it("should refuse streamed messages once the quota is used up", async () => {
+      const user = { userId: "quota-stream-user", role: "user" as const };
+      const usage = limitedUsage();
+      usage.recordUsage(user, {
+        promptTokens: 10,
+        completionTokens: 0,
+        totalTokens: 10,
+      });
+      chatService = new ChatService(
+        new InMemoryConversationRepository(),
+        usage,
+        provider
+      );
+
+      await expect(
+        chatService.processMessageStream("Hello", undefined, user).next()
+      ).rejects.toBeInstanceOf(QuotaExceededError);
+    });
   });
 
   describe("getHealth", () => {
     it("should return healthy status", () => {
-      const status = chatService.getHealth();
-      expect(status).toBe("healthy");
+      const health = chatService.getHealth();
+
+      expect(health.status).toBe("healthy");
+      expect(health.llm).toEqual({ provider: "scripted", status: "healthy" });
+    });
+
+    it("should report degraded while the provider circuit is open", async () => {
+      const failing = new ResilientProvider(provider, {
+        timeoutMs: 1000,
+        maxRetries: 0,
+        baseDelayMs: 1,
+        maxDelayMs: 10,
+        failureThreshold: 1,
+        resetTimeoutMs: 60000,
+      });
+      jest
+        .spyOn(provider, "createChatCompletion")
+        .mockRejectedValue(
+          Object.assign(new Error("Bad gateway"), { status: 502 })
+        );
+      chatService = new ChatService(
+        new InMemoryConversationRepository(),
+        new UsageService(),
+        failing
+      );
+
+      await expect(
+        chatService.processMessage("Hello", undefined, alice)
+      ).rejects.toBeInstanceOf(ProviderUnavailableError);
+
+      const health = chatService.getHealth();
+      expect(health.status).toBe("degraded");
+      expect(health.llm.status).toBe("unavailable");
+      expect(health.llm.circuitBreaker?.state).toBe("open");
     });
   });
 });
@@ -0,0 +1,226 @@
+import {
+  ContextWindowConfig,
+  ContextWindowManager,
+  loadContextWindowConfig,
+} from "../contextWindow";
+import { ScriptedProvider } from "../../providers";
+import { ChatMessage } from "../../repositories";
+
+// Mock OpenTelemetry
+jest.mock("@opentelemetry/api", () => {
+  const mockSpan = {
+    setAttribute: jest.fn(),
+    setStatus: jest.fn(),
+    recordException: jest.fn(),
+    end: jest.fn(),
+  };
+
+  return {
+    trace: {
+      getTracer: jest.fn().mockReturnValue({
+        startActiveSpan: jest.fn().mockImplementation((name, fn) => {
+          return fn(mockSpan);
+        }),
+      }),
+      getActiveSpan: jest.fn(),
+    },
+    SpanStatusCode: {
+      OK: "ok",
+      ERROR: "error",
+    },
+  };
+});
+
+// Each message is 10 characters, estimated at 3 content + 4 overhead tokens
+const message = (role: ChatMessage["role"], index: number): ChatMessage => ({
+  role,
+  content: `message-${index}`.padEnd(10, "."),
+});
+
+const conversation = (turns: number): ChatMessage[] => [
+  message("system", 0),
+  ...Array.from({ length: turns * 2 }, (_, i) =>
+    message(i % 2 === 0 ? "user" : "assistant", i + 1)
+  ),
+];
+
+const config = (
+  overrides: Partial<ContextWindowConfig> = {}
+): ContextWindowConfig => ({
+  strategy: "sliding-window",
+  contextTokens: { "test-model": 100 },
+  defaultContextTokens: 1000,
+  ...overrides,
+});
+
+describe("ContextWindowManager", () => {
+  afterEach(() => {
+    delete process.env.CONTEXT_STRATEGY;
+    delete process.env.CONTEXT_TOKEN_BUDGETS;
+  });
+
+  it("should reserve completion tokens from the model's context", () => {
+    const manager = new ContextWindowManager(new ScriptedProvider(), config());
+
+    expect(manager.getTokenBudget("test-model", 30)).toBe(70);
+    expect(manager.getTokenBudget("other-model", 30)).toBe(970);
+  });
+
+  it("should send history unchanged when it fits", async () => {
+    const manager = new ContextWindowManager(new ScriptedProvider(), config());
+    const messages = conversation(2);
+
+    const prepared = await manager.prepare(messages, "test-model", 30);
+
+    expect(prepared.messages).toEqual(messages);
+    expect(prepared.droppedCount).toBe(0);
+    expect(prepared.summarizedCount).toBe(0);
+  });
+
+  it("should drop the oldest messages with a sliding window", async () => {
+    const manager = new ContextWindowManager(new ScriptedProvider(), config());
+    const messages = conversation(10); // 21 messages, 147 tokens
+
+    const prepared = await manager.prepare(messages, "test-model", 30);
+
+    // 70 token budget: the system prompt plus the 9 latest messages
+    expect(prepared.messages).toEqual([messages[0], ...messages.slice(12)]);
+    expect(prepared.droppedCount).toBe(11);
+    expect(prepared.promptTokens).toBeLessThanOrEqual(prepared.tokenBudget);
+  });
+
+  it("should always keep the latest message", async () => {
+    const manager = new ContextWindowManager(new ScriptedProvider(), config());
+    const latest = { role: "user" as const, content: "x".repeat(400) };
+
+    const prepared = await manager.prepare(
+      [message("system", 0), message("user", 1), latest],
+      "test-model",
+      30
+    );
+
+    expect(prepared.messages).toEqual([message("system", 0), latest]);
+  });
+
+  it("should summarize older messages into a system message", async () => {
+    const provider = new ScriptedProvider(["They asked about boots."]);
+    const manager = new ContextWindowManager(
+      provider,
+      config({ strategy: "summarize", contextTokens: { "test-model": 600 } })
+    );
+    const messages = conversation(60);
+
+    const prepared = await manager.prepare(messages, "test-model", 30);
+
+    expect(prepared.messages[1]).toEqual({
+      role: "system",
+      content: "Summary of the earlier conversation: They asked about boots.",
+    });
+    expect(prepared.summarizedCount).toBeGreaterThan(0);
+    expect(prepared.messages).toHaveLength(
+      messages.length - prepared.summarizedCount + 1
+    );
+    expect(prepared.summary).toEqual({
+      content: "They asked about boots.",
+      messageCount: prepared.summarizedCount,
+    });
+    expect(prepared.usage?.totalTokens).toBeGreaterThan(0);
+    expect(provider.requests[0].messages[1].content).toContain("message-1");
+  });
+
+  it("should place context before the latest message without summarizing it", async () => {
+    const provider = new ScriptedProvider(["They asked about boots."]);
+    const manager = new ContextWindowManager(
+      provider,
+      config({ strategy: "summarize", contextTokens: { "test-model": 600 } })
+    );
+    const messages = conversation(60);
+    const catalog: ChatMessage = { role: "system", content: "Catalog entry" };
+
+    const prepared = await manager.prepare(
+      messages,
+      "test-model",
+      30,
+      undefined,
+      [catalog]
+    );
+
+    expect(prepared.messages.slice(-2)).toEqual([
+      catalog,
+      messages[messages.length - 1],
+    ]);
+    expect(prepared.messages).toHaveLength(
+      messages.length - prepared.summarizedCount + 2
+    );
+    expect(prepared.summary?.messageCount).toBe(prepared.summarizedCount);
+    expect(provider.requests[0].messages[1].content).not.toContain(
+      "Catalog entry"
+    );
+  });
+
+  it("should reuse or extend a previous summary", async () => {
+    const provider = new ScriptedProvider(["First summary", "Second summary"]);
+    const manager = new ContextWindowManager(
+      provider,
+      config({ strategy: "summarize", contextTokens: { "test-model": 600 } })
+    );
+    const messages = conversation(60);
+
+    const first = await manager.prepare(messages, "test-model", 30);
+    const reused = await manager.prepare(
+      messages,
+      "test-model",
+      30,
+      first.summary
+    );
+    const extended = await manager.prepare(
+      [...messages, message("assistant", 121), message("user", 122)],
+      "test-model",
+      30,
+      first.summary
+    );
+
+    expect(reused.summary).toEqual(first.summary);
+    expect(reused.usage).toBeUndefined();
+    expect(extended.summary?.content).toBe("Second summary");
+    expect(provider.requests).toHaveLength(2);
+
+    const transcript = provider.requests[1].messages[1].content;
+    expect(transcript).toContain("Earlier summary: First summary");
+    expect(transcript).not.toContain("message-1.");
+  });
+
+  it("should fall back to a sliding window when summarizing fails", async () => {
+    const provider = new ScriptedProvider();
+    jest
+      .spyOn(provider, "createChatCompletion")
+      .mockRejectedValueOnce(new Error("LLM unavailable"));
+    const manager = new ContextWindowManager(
+      provider,
+      config({ strategy: "summarize", contextTokens: { "test-model": 600 } })
+    );
+
+    const prepared = await manager.prepare(conversation(60), "test-model", 30);
+
+    expect(prepared.strategy).toBe("sliding-window");
+    expect(prepared.droppedCount).toBeGreaterThan(0);
+    expect(prepared.summary).toBeUndefined();
+  });
+
+  it("should load budgets and strategy from the environment", () => {
+    process.env.CONTEXT_STRATEGY = "summarize";
+    process.env.CONTEXT_TOKEN_BUDGETS = '{"my-deployment":16000}';
+
+    const loaded = loadContextWindowConfig();
+
+    expect(loaded.strategy).toBe("summarize");
+    expect(loaded.contextTokens["my-deployment"]).toBe(16000);
+    expect(loaded.contextTokens["gpt-4"]).toBe(8192);
+  });
+
+  it("should reject unknown strategies", () => {
+    process.env.CONTEXT_STRATEGY = "truncate-everything";
+
+    expect(() => loadContextWindowConfig()).toThrow("Unknown context strategy");
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  InMemoryRateLimitStore,
+  LoginRateLimiter,
+  LoginRateLimitError,
+} from "../loginRateLimiter";
+
+describe("LoginRateLimiter", () => {
+  let limiter: LoginRateLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date("2024-01-01T00:00:00Z"));
+
+    limiter = new LoginRateLimiter(new InMemoryRateLimitStore(), {
+      windowMs: 60 * 1000,
+      maxAttemptsPerIp: 3,
+      maxAttemptsPerUsername: 2,
+      lockoutThreshold: 2,
+      lockoutMs: 5 * 60 * 1000,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should limit attempts per username within the window", async () => {
+    await limiter.checkAttempt("1.1.1.1", "alice");
+    await limiter.checkAttempt("2.2.2.2", "Alice");
+
+    await expect(
+      limiter.checkAttempt("3.3.3.3", "alice")
+    ).rejects.toMatchObject({
+      reason: "username_rate_limited",
+      retryAfterSeconds: 60,
+    });
+  });
+
+  it("should limit attempts per IP within the window", async () => {
+    await limiter.checkAttempt("1.1.1.1", "alice");
+    await limiter.checkAttempt("1.1.1.1", "bob");
+    await limiter.checkAttempt("1.1.1.1", "carol");
+
+    await expect(limiter.checkAttempt("1.1.1.1", "dave")).rejects.toMatchObject(
+      { reason: "ip_rate_limited" }
+    );
+  });
+
+  it("should allow attempts again as old ones slide out of the window", async () => {
+    await limiter.checkAttempt("1.1.1.1", "alice");
+    jest.advanceTimersByTime(30 * 1000);
+    await limiter.checkAttempt("1.1.1.1", "alice");
+
+    await expect(
+      limiter.checkAttempt("1.1.1.1", "alice")
+    ).rejects.toMatchObject({ retryAfterSeconds: 30 });
+
+    jest.advanceTimersByTime(30 * 1000 + 1);
+    await expect(
+      limiter.checkAttempt("1.1.1.1", "alice")
+    ).resolves.toBeUndefined();
+  });
+
+  it("should lock out a username after consecutive failures", async () => {
+    expect(await limiter.recordFailure("alice")).toEqual({
+      failures: 1,
+      locked: false,
+    });
+    expect(await limiter.recordFailure("alice")).toEqual({
+      failures: 2,
+      locked: true,
+    });
+
+    jest.advanceTimersByTime(2 * 60 * 1000);
+    await expect(
+      limiter.checkAttempt("1.1.1.1", "alice")
+    ).rejects.toMatchObject({
+      reason: "account_locked",
+      retryAfterSeconds: 180,
+    });
+
+    jest.advanceTimersByTime(3 * 60 * 1000);
+    await expect(
+      limiter.checkAttempt("1.1.1.1", "alice")
+    ).resolves.toBeUndefined();
+  });
+
+  it("should not count failures before a success towards lockout", async () => {
+    await limiter.recordFailure("alice");
+    await limiter.recordSuccess("alice");
+
+    expect(await limiter.recordFailure("alice")).toEqual({
+      failures: 1,
+      locked: false,
+    });
+    await expect(
+      limiter.checkAttempt("1.1.1.1", "alice")
+    ).resolves.toBeUndefined();
+  });
+
+  it("should forget failures once the window passes without one", async () => {
+    await limiter.recordFailure("alice");
+    jest.advanceTimersByTime(60 * 1000);
+
+    expect(await limiter.recordFailure("alice")).toEqual({
+      failures: 1,
+      locked: false,
+    });
+  });
+
+  it("should sweep expired entries from the in-memory store", async () => {
+    const store = new InMemoryRateLimitStore(30 * 1000);
+    const sweep = jest.spyOn(store, "sweep");
+    const now = Date.now();
+
+    await store.recordHit("ip:1.1.1.1", now, 60 * 1000);
+    await store.incrementFailures("user:alice", now, 60 * 1000);
+    await store.incrementFailures("user:bob", now + 30 * 1000, 60 * 1000);
+    await store.setLockout("user:carol", now + 30 * 1000);
+
+    expect(store.sweep(now + 60 * 1000)).toBe(3);
+    expect(store.sweep(now + 90 * 1000)).toBe(1);
+
+    jest.advanceTimersByTime(30 * 1000);
+    expect(sweep).toHaveBeenLastCalledWith(Date.now());
+  });
+
+  it("should throw LoginRateLimitError", async () => {
+    await limiter.recordFailure("alice");
+    await limiter.recordFailure("alice");
+
+    await expect(
+      limiter.checkAttempt("1.1.1.1", "alice")
+    ).rejects.toBeInstanceOf(LoginRateLimitError);
+  });
+});
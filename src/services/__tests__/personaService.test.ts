@@ -0,0 +1,155 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  Persona,
+  PersonaConflictError,
+  PersonaNotFoundError,
+  PersonaService,
+} from "../personaService";
+
+// Mock OpenTelemetry
+jest.mock("@opentelemetry/api", () => {
+  const mockSpan = {
+    setAttribute: jest.fn(),
+    setStatus: jest.fn(),
+    recordException: jest.fn(),
+    end: jest.fn(),
+  };
+
+  return {
+    trace: {
+      getTracer: jest.fn().mockReturnValue({
+        startActiveSpan: jest.fn().mockImplementation((name, fn) => {
+          return fn(mockSpan);
+        }),
+      }),
+      getActiveSpan: jest.fn(),
+    },
+    SpanStatusCode: {
+      OK: "ok",
+      ERROR: "error",
+    },
+  };
+});
+
+describe("PersonaService", () => {
+  let directory: string;
+  let filePath: string;
+
+  const helper: Persona = {
+    id: "helper",
+    name: "Helper",
+    systemPrompt: "You help.",
+    temperature: 0.5,
+    maxTokens: 200,
+  };
+  const expert: Persona = {
+    id: "expert",
+    name: "Expert",
+    systemPrompt: "You are an expert.",
+    model: "gpt-4-32k",
+    temperature: 0.2,
+    maxTokens: 800,
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "personas-"));
+    filePath = path.join(directory, "personas.json");
+    await fs.writeFile(filePath, JSON.stringify([helper, expert]));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should load personas from the file", async () => {
+    const personas = new PersonaService(filePath, "helper");
+
+    expect(await personas.list()).toEqual([helper, expert]);
+    expect(await personas.get("expert")).toEqual(expert);
+  });
+
+  it("should resolve the default persona or a named one", async () => {
+    const personas = new PersonaService(filePath, "helper");
+
+    expect(await personas.resolve()).toEqual(helper);
+    expect(await personas.resolve("expert")).toEqual(expert);
+    await expect(personas.resolve("missing")).rejects.toBeInstanceOf(
+      PersonaNotFoundError
+    );
+  });
+
+  it("should use the built-in persona without a file", async () => {
+    const personas = new PersonaService(path.join(directory, "missing.json"));
+
+    const persona = await personas.resolve();
+
+    expect(persona.id).toBe("retail-assistant");
+    expect(await personas.list()).toEqual([persona]);
+  });
+
+  it("should persist created, updated and deleted personas", async () => {
+    const personas = new PersonaService(filePath, "helper");
+
+    await personas.create({ ...helper, id: "new-one", name: "New" });
+    await personas.update({ ...expert, temperature: 1 });
+    expect(await personas.delete("helper-missing")).toBe(false);
+
+    const stored = JSON.parse(await fs.readFile(filePath, "utf8"));
+    expect(stored.map((persona: Persona) => persona.id)).toEqual([
+      "helper",
+      "expert",
+      "new-one",
+    ]);
+    expect(stored[1].temperature).toBe(1);
+
+    const reloaded = new PersonaService(filePath, "expert");
+    expect(await reloaded.delete("helper")).toBe(true);
+    expect(await new PersonaService(filePath).list()).toHaveLength(2);
+  });
+
+  it("should leave personas unchanged when they can't be written", async () => {
+    const personas = new PersonaService(filePath, "helper");
+    await personas.list();
+    jest
+      .spyOn(fs, "rename")
+      .mockRejectedValue(
+        Object.assign(new Error("Disk full"), { code: "ENOSPC" })
+      );
+
+    await expect(personas.create({ ...helper, id: "new-one" })).rejects.toThrow(
+      "Disk full"
+    );
+    await expect(
+      personas.update({ ...expert, temperature: 1 })
+    ).rejects.toThrow("Disk full");
+    await expect(personas.delete("expert")).rejects.toThrow("Disk full");
+
+    expect(await personas.list()).toEqual([helper, expert]);
+  });
+
+  it("should apply concurrent changes without losing any", async () => {
+    const personas = new PersonaService(filePath, "helper");
+
+    await Promise.all([
+      personas.create({ ...helper, id: "first" }),
+      personas.create({ ...helper, id: "second" }),
+    ]);
+
+    expect(await new PersonaService(filePath).list()).toHaveLength(4);
+  });
+
+  it("should refuse duplicate IDs and deleting the default persona", async () => {
+    const personas = new PersonaService(filePath, "helper");
+
+    await expect(personas.create(expert)).rejects.toBeInstanceOf(
+      PersonaConflictError
+    );
+    await expect(personas.delete("helper")).rejects.toBeInstanceOf(
+      PersonaConflictError
+    );
+    expect(await personas.update({ ...helper, id: "missing" })).toBeUndefined();
+  });
+});
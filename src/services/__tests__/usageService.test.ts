@@ -0,0 +1,108 @@
+import { QuotaExceededError, UsageService } from "../usageService";
+
+const usage = (totalTokens: number) => ({
+  promptTokens: totalTokens / 2,
+  completionTokens: totalTokens / 2,
+  totalTokens,
+});
+
+describe("UsageService", () => {
+  let usageService: UsageService;
+  let userId = 0;
+  let subject: { userId: string };
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date("2024-01-15T12:00:00Z"));
+
+    usageService = new UsageService({
+      roles: {
+        user: { daily: 100, monthly: 150 },
+        admin: { daily: null, monthly: null },
+      },
+      users: { vip: { daily: 1000 } },
+    });
+
+    // Usage counters are shared, so every test gets a fresh user
+    subject = { userId: `usage-test-${userId++}` };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should report usage against the quota", () => {
+    usageService.recordUsage(subject, usage(40));
+
+    expect(usageService.getUsage(subject)).toEqual({
+      daily: {
+        used: 40,
+        limit: 100,
+        remaining: 60,
+        resetsAt: new Date("2024-01-16T00:00:00Z"),
+      },
+      monthly: {
+        used: 40,
+        limit: 150,
+        remaining: 110,
+        resetsAt: new Date("2024-02-01T00:00:00Z"),
+      },
+    });
+  });
+
+  it("should throw once the daily quota is used up", () => {
+    usageService.recordUsage(subject, usage(100));
+
+    expect(() => usageService.assertWithinQuota(subject)).toThrow(
+      QuotaExceededError
+    );
+  });
+
+  it("should throw when a request could use more than is left", () => {
+    usageService.recordUsage(subject, usage(40));
+
+    expect(() => usageService.assertWithinQuota(subject, 60)).not.toThrow();
+    expect(() => usageService.assertWithinQuota(subject, 61)).toThrow(
+      expect.objectContaining({ period: "daily" })
+    );
+  });
+
+  it("should reset the daily count but keep the monthly count", () => {
+    usageService.recordUsage(subject, usage(100));
+
+    jest.setSystemTime(new Date("2024-01-16T00:00:01Z"));
+
+    expect(usageService.getUsage(subject).daily.used).toBe(0);
+    expect(usageService.getUsage(subject).monthly.used).toBe(100);
+  });
+
+  it("should enforce the monthly quota across days", () => {
+    usageService.recordUsage(subject, usage(90));
+    jest.setSystemTime(new Date("2024-01-16T12:00:00Z"));
+    usageService.recordUsage(subject, usage(60));
+
+    expect(() => usageService.assertWithinQuota(subject)).toThrow(
+      expect.objectContaining({ period: "monthly" })
+    );
+
+    jest.setSystemTime(new Date("2024-02-01T00:00:01Z"));
+    expect(() => usageService.assertWithinQuota(subject)).not.toThrow();
+  });
+
+  it("should apply role and per-user quotas", () => {
+    expect(usageService.getQuota({ userId: "1", role: "admin" })).toEqual({
+      daily: null,
+      monthly: null,
+    });
+    expect(usageService.getQuota({ userId: "vip", role: "user" })).toEqual({
+      daily: 1000,
+      monthly: 150,
+    });
+  });
+
+  it("should never block unlimited users", () => {
+    const admin = { userId: subject.userId, role: "admin" as const };
+    usageService.recordUsage(admin, usage(1000000));
+
+    expect(() => usageService.assertWithinQuota(admin)).not.toThrow();
+  });
+});
@@ -1,6 +1,17 @@
-import { generateToken } from "../middleware/auth";
+import jwt from "jsonwebtoken";
+import { v4 as uuidv4 } from "uuid";
+import { generateToken, Role, TokenPayload } from "../middleware/auth";
 import { log } from "../config/logger";
-import { trace } from "@opentelemetry/api";
+import { recordAuthFailure } from "../config/metrics";
+import { recordSpanError } from "../errors";
+import { trace, Span, SpanStatusCode } from "@opentelemetry/api";
+import { TokenService } from "./tokenService";
+import { LoginRateLimiter, LoginRateLimitError } from "./loginRateLimiter";
+import {
+  hashPassword,
+  hashPasswordSync,
+  verifyPassword,
+} from "../utils/password";
 
 // Simple in-memory user storage for demo
 // In a real application, this would be stored in a database
@@ -9,7 +20,8 @@ const users = new Map<
   {
     userId: string;
     username: string;
-    password: string; // In a real app, this would be hashed
+    role: Role;
+    passwordHash: string;
   }
 >();
 
@@ -17,60 +29,127 @@ const users = new Map<
 users.set("test", {
   userId: "1",
   username: "test",
-  password: "password123", // Would be hashed in production
+  role: "user",
+  passwordHash: hashPasswordSync("password123"),
 });
 
+// Seed an administrator when credentials are configured
+if (process.env.ADMIN_PASSWORD) {
+  const username = process.env.ADMIN_USERNAME || "admin";
+
+  users.set(username, {
+    userId: "admin",
+    username,
+    role: "admin",
+    passwordHash: hashPasswordSync(process.env.ADMIN_PASSWORD),
+  });
+}
+
+const findUserById = (userId: string) =>
+  Array.from(users.values()).find((user) => user.userId === userId);
+
+// Compared against when a user doesn't exist so both paths take equally long
+const dummyPasswordHash = hashPasswordSync("not-a-real-password");
+
+// User details that are safe to expose
+export interface UserSummary {
+  userId: string;
+  username: string;
+  role: Role;
+}
+
+// Tokens returned after a successful login or refresh
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+}
+
 export class AuthService {
+  private tokenService = new TokenService();
+
+  constructor(private rateLimiter: LoginRateLimiter = new LoginRateLimiter()) {}
+
   /**
-   * Authenticate a user and generate a JWT token
+   * Authenticate a user and generate access and refresh tokens.
+   * Throws LoginRateLimitError when the attempt is rate limited or the
+   * account is locked out.
    */
   public async login(
     username: string,
-    password: string
-  ): Promise<string | null> {
+    password: string,
+    ip: string
+  ): Promise<AuthTokens | null> {
     const tracer = trace.getTracer("auth-service");
 
     return tracer.startActiveSpan("login-user", async (span) => {
       try {
         span.setAttribute("auth.username", username);
+        span.setAttribute("client.address", ip);
+
+        // Refuse the attempt before checking credentials if over the limit
+        await this.rateLimiter.checkAttempt(ip, username);
+        span.setAttribute("ratelimit.limited", false);
 
         // Find user
         const user = users.get(username);
 
         if (!user) {
-          span.setStatus({ code: trace.SpanStatusCode.ERROR });
+          await verifyPassword(password, dummyPasswordHash);
+
+          span.setStatus({ code: SpanStatusCode.ERROR });
           span.setAttribute("error.type", "user_not_found");
+          recordAuthFailure("login", "user_not_found");
+          await this.recordFailure(username, span);
 
           log.warn(`Login failed: User ${username} not found`);
           return null;
         }
 
         // Check password
-        if (user.password !== password) {
-          span.setStatus({ code: trace.SpanStatusCode.ERROR });
+        if (!(await verifyPassword(password, user.passwordHash))) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
           span.setAttribute("error.type", "invalid_password");
+          recordAuthFailure("login", "invalid_password");
+          await this.recordFailure(username, span);
 
           log.warn(`Login failed: Invalid password for user ${username}`);
           return null;
         }
 
-        // Generate token
-        const token = generateToken(user.userId, user.username);
+        await this.rateLimiter.recordSuccess(username);
+
+        // Generate tokens, starting a new refresh token family
+        const tokens = this.issueTokens(
+          user,
+          this.tokenService.issueRefreshToken(user.userId)
+        );
 
-        span.setStatus({ code: trace.SpanStatusCode.OK });
+        span.setStatus({ code: SpanStatusCode.OK });
         log.info(`User ${username} logged in successfully`);
 
-        return token;
+        return tokens;
       } catch (error) {
-        span.setStatus({ code: trace.SpanStatusCode.ERROR });
-        span.setAttribute(
-          "error.type",
-          error instanceof Error ? error.name : "unknown"
-        );
-        span.setAttribute(
-          "error.message",
-          error instanceof Error ? error.message : "Unknown error"
-        );
+        if (error instanceof LoginRateLimitError) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+          span.setAttribute("error.type", "rate_limited");
+          span.setAttribute("ratelimit.limited", true);
+          recordAuthFailure("login", "rate_limited");
+          span.setAttribute("ratelimit.reason", error.reason);
+          span.setAttribute(
+            "ratelimit.retry_after_seconds",
+            error.retryAfterSeconds
+          );
+
+          log.warn(`Login refused for user ${username}: ${error.reason}`, {
+            ip,
+            retryAfterSeconds: error.retryAfterSeconds,
+          });
+
+          throw error;
+        }
+
+        recordSpanError(span, error);
 
         log.error("Login error", { error });
 
@@ -81,6 +160,121 @@ export class AuthService {
     });
   }
 
+  /**
+   * Exchange a refresh token for a new access token and rotated refresh token
+   */
+  public async refresh(refreshToken: string): Promise<AuthTokens | null> {
+    const tracer = trace.getTracer("auth-service");
+
+    return tracer.startActiveSpan("refresh-token", async (span) => {
+      try {
+        const result = this.tokenService.rotateRefreshToken(refreshToken);
+
+        span.setAttribute("refresh_token.status", result.status);
+
+        if (result.status !== "rotated") {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+          span.setAttribute("error.type", `refresh_token_${result.status}`);
+          recordAuthFailure("refresh", `refresh_token_${result.status}`);
+          span.setAttribute(
+            "refresh_token.reuse_detected",
+            result.status === "reused"
+          );
+
+          log.warn(`Token refresh failed: refresh token ${result.status}`);
+          return null;
+        }
+
+        const user = findUserById(result.userId);
+
+        if (!user) {
+          this.tokenService.revokeRefreshToken(
+            result.refreshToken,
+            result.userId
+          );
+
+          span.setStatus({ code: SpanStatusCode.ERROR });
+          span.setAttribute("error.type", "user_not_found");
+          recordAuthFailure("refresh", "user_not_found");
+
+          log.warn(`Token refresh failed: User ${result.userId} not found`);
+          return null;
+        }
+
+        span.setAttribute("user.id", user.userId);
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return this.issueTokens(user, result.refreshToken);
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Token refresh error", { error });
+
+        return null;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Log out by revoking the refresh token family and the current access token
+   */
+  public async logout(
+    user: TokenPayload,
+    refreshToken?: string
+  ): Promise<void> {
+    const tracer = trace.getTracer("auth-service");
+
+    return tracer.startActiveSpan("logout-user", async (span) => {
+      try {
+        span.setAttribute("user.id", user.userId);
+
+        this.tokenService.revokeAccessToken(user.jti, user.exp);
+
+        const refreshTokenRevoked = refreshToken
+          ? this.tokenService.revokeRefreshToken(refreshToken, user.userId)
+          : false;
+
+        span.setAttribute("refresh_token.revoked", refreshTokenRevoked);
+        span.setStatus({ code: SpanStatusCode.OK });
+        log.info(`User ${user.username} logged out`);
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Logout error", { error });
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * List all users without their credentials
+   */
+  public async listUsers(): Promise<UserSummary[]> {
+    const tracer = trace.getTracer("auth-service");
+
+    return tracer.startActiveSpan("list-users", async (span) => {
+      const result = Array.from(
+        users.values(),
+        ({ userId, username, role }) => ({
+          userId,
+          username,
+          role,
+        })
+      );
+
+      span.setAttribute("user.count", result.length);
+      span.setStatus({ code: SpanStatusCode.OK });
+      span.end();
+
+      return result;
+    });
+  }
+
   /**
    * Register a new user
    */
@@ -91,37 +285,34 @@ export class AuthService {
       try {
         span.setAttribute("auth.username", username);
 
+        // Hash before the existence check so no await separates it from the insert
+        const passwordHash = await hashPassword(password);
+
         // Check if user already exists
         if (users.has(username)) {
-          span.setStatus({ code: trace.SpanStatusCode.ERROR });
+          span.setStatus({ code: SpanStatusCode.ERROR });
           span.setAttribute("error.type", "user_already_exists");
 
           log.warn(`Registration failed: User ${username} already exists`);
           return false;
         }
 
-        // Create new user
-        const userId = `${users.size + 1}`;
+        // Create new user. Users are lost on restart but their stored
+        // conversations are not, so IDs must never be handed out again.
+        const userId = uuidv4();
         users.set(username, {
           userId,
           username,
-          password, // Would be hashed in production
+          role: "user",
+          passwordHash,
         });
 
-        span.setStatus({ code: trace.SpanStatusCode.OK });
+        span.setStatus({ code: SpanStatusCode.OK });
         log.info(`User ${username} registered successfully`);
 
         return true;
       } catch (error) {
-        span.setStatus({ code: trace.SpanStatusCode.ERROR });
-        span.setAttribute(
-          "error.type",
-          error instanceof Error ? error.name : "unknown"
-        );
-        span.setAttribute(
-          "error.message",
-          error instanceof Error ? error.message : "Unknown error"
-        );
+        recordSpanError(span, error);
 
         log.error("Registration error", { error });
 
@@ -131,4 +322,28 @@ export class AuthService {
       }
     });
   }
+
+  /**
+   * Record a failed login attempt on the login span
+   */
+  private async recordFailure(username: string, span: Span): Promise<void> {
+    const { failures, locked } = await this.rateLimiter.recordFailure(username);
+
+    span.setAttribute("auth.consecutive_failures", failures);
+    span.setAttribute("auth.locked_out", locked);
+
+    if (locked) {
+      log.warn(`Account ${username} locked after ${failures} failed logins`);
+    }
+  }
+
+  /**
+   * Build the token response for a user
+   */
+  private issueTokens(user: UserSummary, refreshToken: string): AuthTokens {
+    const token = generateToken(user.userId, user.username, user.role);
+    const { iat, exp } = jwt.decode(token) as TokenPayload;
+
+    return { token, refreshToken, expiresIn: exp - iat };
+  }
 }
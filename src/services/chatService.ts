@@ -1,81 +1,175 @@
-import { Configuration, OpenAIApi } from "openai";
 import { v4 as uuidv4 } from "uuid";
 import { log } from "../config/logger";
-import { trace } from "@opentelemetry/api";
-import { getSecret } from "../utils/azureKeyVault";
+import { recordFeedback, recordTokenUsage } from "../config/metrics";
+import { ForbiddenError, NotFoundError, recordSpanError } from "../errors";
+import {
+  addGenAiCompletionEvent,
+  addGenAiPromptEvent,
+  setGenAiRequestAttributes,
+  setGenAiResponseAttributes,
+} from "../config/genAiTelemetry";
+import {
+  trace,
+  context,
+  Context,
+  isSpanContextValid,
+  Span,
+  SpanStatusCode,
+  TraceFlags,
+} from "@opentelemetry/api";
+import {
+  ChatMessage,
+  Citation,
+  MessageFeedback,
+  ContextSummary,
+  ConversationHistory,
+  ConversationRepository,
+  getSharedConversationRepository,
+} from "../repositories";
+import { Role } from "../middleware/auth";
+import { TokenUsage, UsageService } from "./usageService";
+import { estimateMessageTokens, estimateTokens } from "../utils/tokenCounter";
+import {
+  ChatCompletionChunk,
+  FunctionCall,
+  LLMMessage,
+  LLMProvider,
+  getSharedEmbeddingProvider,
+  getSharedLLMProvider,
+  ProviderHealth,
+  ResponseMetadata,
+} from "../providers";
+import { ContextWindowManager, PreparedContext } from "./contextWindow";
+import { RetrievalService, ScoredDocument } from "../retrieval";
+import { createDefaultToolRegistry, ToolRegistry } from "../tools";
+import {
+  getSharedPersonaService,
+  Persona,
+  PersonaService,
+} from "./personaService";
 
-interface ChatMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
+// The authenticated user a request is made on behalf of
+export interface ChatUser {
+  userId: string;
+  role?: Role;
 }
 
-interface ConversationHistory {
+/**
+ * Thrown when a user tries to access a conversation owned by someone else
+ */
+export class ConversationAccessError extends ForbiddenError {
+  constructor(conversationId: string) {
+    super(`Access to conversation ${conversationId} is forbidden`);
+    this.name = "ConversationAccessError";
+  }
+}
+
+// Conversation as listed by the management API
+export interface ConversationSummary {
   id: string;
-  messages: ChatMessage[];
+  title: string;
+  personaId?: string;
+  messageCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
-// In-memory storage for conversation history
-// In a production app, this would be stored in a database
-const conversations = new Map<string, ConversationHistory>();
+// Conversation with its visible history (the system prompt is omitted)
+export interface ConversationDetail extends ConversationSummary {
+  messages: ChatMessage[];
+}
+
+// Maximum length of a title derived from the first message
+const MAX_TITLE_LENGTH = 60;
+
+// Result of processing a message
+export interface ChatResult {
+  response: string;
+  conversationId: string;
+  userMessageId: string; // ID of the user message, e.g. to edit it
+  messageId: string; // ID of the assistant message, e.g. for feedback
+  citations: Citation[];
+}
+
+// Trace and span of the completion that generated an assistant message
+type CompletionTrace = Pick<ChatMessage, "traceId" | "spanId">;
+
+// Feedback as listed in the admin report
+export interface FeedbackEntry extends MessageFeedback {
+  conversationId: string;
+  messageId: string;
+  userId: string;
+  personaId?: string;
+  traceId?: string;
+}
+
+// Feedback across all conversations that have not expired
+export interface FeedbackReport {
+  total: number;
+  up: number;
+  down: number;
+  byPersona: Record<string, { up: number; down: number }>;
+  recent: FeedbackEntry[]; // Newest first
+}
+
+// Entries listed in the feedback report
+const RECENT_FEEDBACK_LIMIT = 50;
+
+// Events emitted while streaming a response
+export type ChatStreamEvent =
+  | { type: "token"; content: string }
+  | ({ type: "done" } & ChatResult);
+
+// Health of the chat service and the LLM provider behind it
+export interface ChatServiceHealth {
+  status: "healthy" | "degraded";
+  llm: ProviderHealth & { provider: string };
+}
 
 export class ChatService {
-  private openai: OpenAIApi;
-  private systemPrompt: string;
   private model: string;
+  private maxToolIterations: number;
+  private captureMessageContent: boolean;
 
-  constructor() {
-    // Initialize OpenAI configuration
-    const apiKey = process.env.OPENAI_API_KEY || "";
-    const configuration = new Configuration({ apiKey });
-    this.openai = new OpenAIApi(configuration);
-
-    // Set the model from environment or default
+  constructor(
+    private conversations: ConversationRepository = getSharedConversationRepository(),
+    private usage: UsageService = new UsageService(),
+    private provider: LLMProvider = getSharedLLMProvider(),
+    private contextWindow: ContextWindowManager = new ContextWindowManager(
+      provider
+    ),
+    private retrieval: RetrievalService = new RetrievalService(
+      getSharedEmbeddingProvider()
+    ),
+    private tools: ToolRegistry = createDefaultToolRegistry(),
+    private personas: PersonaService = getSharedPersonaService()
+  ) {
+    // Set the model from environment or default; personas may override it
     this.model = process.env.OPENAI_MODEL || "gpt-4";
 
-    // System prompt for the chatbot
-    this.systemPrompt =
-      "You are an intelligent assistant for a retail store, helping customers with product information, " +
-      "inventory checks, and general inquiries. Be friendly, helpful, and concise. " +
-      "If you don't know the answer to a question, say so instead of making up information.";
+    // Tool calls allowed per response before the model must answer
+    this.maxToolIterations = Number(process.env.TOOL_MAX_ITERATIONS ?? 5);
+
+    // Prompts and completions are only attached to spans when opted in
+    this.captureMessageContent =
+      process.env.OTEL_INSTRUMENTATION_GENAI_CAPTURE_MESSAGE_CONTENT === "true";
   }
 
   /**
-   * Initialize the service by retrieving secrets
+   * Initialize the service by preparing the LLM provider
    */
   public async initialize(): Promise<void> {
     const tracer = trace.getTracer("chatbot-service");
 
     return tracer.startActiveSpan("initialize-chat-service", async (span) => {
       try {
-        // Attempt to get API key from Azure Key Vault if not in env
-        if (!process.env.OPENAI_API_KEY) {
-          log.info("Retrieving OpenAI API key from Azure Key Vault");
+        span.setAttribute("llm.provider", this.provider.name);
 
-          const apiKey = await getSecret("openai-api-key");
+        await this.provider.initialize?.();
 
-          if (apiKey) {
-            const configuration = new Configuration({ apiKey });
-            this.openai = new OpenAIApi(configuration);
-
-            log.info("Successfully configured OpenAI with key from Key Vault");
-          } else {
-            log.error("Failed to retrieve OpenAI API key from Key Vault");
-          }
-        }
-
-        span.setStatus({ code: trace.SpanStatusCode.OK });
+        span.setStatus({ code: SpanStatusCode.OK });
       } catch (error) {
-        span.setStatus({ code: trace.SpanStatusCode.ERROR });
-        span.setAttribute(
-          "error.type",
-          error instanceof Error ? error.name : "unknown"
-        );
-        span.setAttribute(
-          "error.message",
-          error instanceof Error ? error.message : "Unknown error"
-        );
+        recordSpanError(span, error);
 
         log.error("Failed to initialize chat service", { error });
 
@@ -87,24 +181,36 @@ export class ChatService {
   }
 
   /**
-   * Process a user message and get a response from the AI
+   * Process a user message and get a response from the AI. The persona only
+   * applies when starting a new conversation.
    */
   public async processMessage(
     message: string,
-    conversationId?: string
-  ): Promise<{ response: string; conversationId: string }> {
+    conversationId: string | undefined,
+    user: ChatUser,
+    personaId?: string
+  ): Promise<ChatResult> {
     const tracer = trace.getTracer("chatbot-service");
 
     return tracer.startActiveSpan("process-message", async (span) => {
       try {
         // Create a new conversation or get existing one
-        const conversation = this.getOrCreateConversation(conversationId);
+        const { conversation, persona } = await this.getOrCreateConversation(
+          conversationId,
+          message,
+          user,
+          personaId
+        );
+        span.setAttribute("persona.id", persona.id);
 
         // Add user message to history
-        conversation.messages.push({
+        const prompt: ChatMessage = {
+          id: uuidv4(),
           role: "user",
           content: message,
-        });
+          createdAt: new Date(),
+        };
+        conversation.messages.push(prompt);
 
         // Update timestamp
         conversation.updatedAt = new Date();
@@ -115,36 +221,768 @@ export class ChatService {
           conversation.messages.length
         );
 
-        // Get response from OpenAI
-        const response = await this.getAIResponse(conversation.messages);
+        // Refuse before calling the LLM if the user's token budget is spent
+        this.usage.assertWithinQuota(user);
+
+        // Ground the answer in the catalog entries relevant to the message
+        const retrieved = await this.retrieveContext(message);
+        span.setAttribute("retrieval.document_count", retrieved.length);
+
+        // Fit the history into the model's context window
+        const prepared = await this.prepareContext(
+          conversation.messages,
+          conversation.contextSummary,
+          persona,
+          user,
+          this.toCatalogContext(retrieved)
+        );
+        this.setContextAttributes(span, prepared);
+
+        // Refuse if the remaining budget can't cover the prompt and a full reply
+        this.usage.assertWithinQuota(
+          user,
+          estimateMessageTokens(prepared.messages) + persona.maxTokens
+        );
+        conversation.contextSummary = prepared.summary;
+
+        // Get response from the LLM
+        const {
+          content: response,
+          usage,
+          trace: completionTrace,
+        } = await this.getAIResponse(prepared.messages, persona, user);
+
+        this.recordUsage(user, usage, persona.model ?? this.model);
+        span.setAttribute("usage.total_tokens", usage.totalTokens);
 
-        // Add AI response to history
-        conversation.messages.push({
+        // Add AI response to history, linked to the completion's trace
+        const citations = this.toCitations(retrieved);
+        const reply: ChatMessage = {
+          id: uuidv4(),
           role: "assistant",
           content: response,
-        });
+          createdAt: new Date(),
+          ...(citations.length > 0 && { citations }),
+          ...completionTrace,
+        };
+        conversation.messages.push(reply);
 
         // Update conversation in storage
-        conversations.set(conversation.id, conversation);
+        await this.conversations.save(conversation);
 
-        span.setStatus({ code: trace.SpanStatusCode.OK });
+        span.setStatus({ code: SpanStatusCode.OK });
 
         return {
           response,
           conversationId: conversation.id,
+          userMessageId: prompt.id!,
+          messageId: reply.id!,
+          citations,
         };
       } catch (error) {
-        span.setStatus({ code: trace.SpanStatusCode.ERROR });
-        span.setAttribute(
-          "error.type",
-          error instanceof Error ? error.name : "unknown"
+        recordSpanError(span, error);
+
+        log.error("Failed to process message", { error });
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Process a user message and stream the AI response as it is generated.
+   * The conversation history is only committed once the stream finishes.
+   */
+  public async *processMessageStream(
+    message: string,
+    conversationId: string | undefined,
+    user: ChatUser,
+    personaId?: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamEvent> {
+    const tracer = trace.getTracer("chatbot-service");
+    const span = tracer.startSpan("process-message-stream");
+    const spanContext = trace.setSpan(context.active(), span);
+
+    const sentAt = new Date();
+    let completed = false;
+    let failed = false;
+    let promptTokens: number | undefined;
+    let generated = ""; // Everything streamed, including text before tool calls
+    let response = ""; // The final answer, saved to the history
+    let model = this.model;
+
+    try {
+      // Create a new conversation or get existing one
+      const { conversation, persona } = await this.getOrCreateConversation(
+        conversationId,
+        message,
+        user,
+        personaId
+      );
+      span.setAttribute("persona.id", persona.id);
+      model = persona.model ?? this.model;
+
+      // Work on a copy so nothing is committed until the stream finishes
+      const messages: ChatMessage[] = [
+        ...conversation.messages,
+        { role: "user", content: message },
+      ];
+
+      span.setAttribute("conversation.id", conversation.id);
+      span.setAttribute("conversation.message_count", messages.length);
+
+      // Refuse before calling the LLM if the user's token budget is spent
+      this.usage.assertWithinQuota(user);
+
+      // Ground the answer in the catalog entries relevant to the message
+      const retrieved = await this.retrieveContext(message);
+      span.setAttribute("retrieval.document_count", retrieved.length);
+
+      // Fit the history into the model's context window
+      const prepared = await this.prepareContext(
+        messages,
+        conversation.contextSummary,
+        persona,
+        user,
+        this.toCatalogContext(retrieved)
+      );
+      this.setContextAttributes(span, prepared);
+
+      // Refuse if the remaining budget can't cover the prompt and a full reply
+      this.usage.assertWithinQuota(
+        user,
+        estimateMessageTokens(prepared.messages) + persona.maxTokens
+      );
+
+      // Streamed responses don't report usage, so it is estimated. Nothing
+      // is counted until the provider has answered.
+      const estimatedPromptTokens = estimateMessageTokens(prepared.messages);
+
+      const completionTrace: CompletionTrace = {};
+
+      for await (const chunk of this.streamAIResponse(
+        prepared.messages,
+        persona,
+        user,
+        spanContext,
+        completionTrace,
+        signal
+      )) {
+        promptTokens = estimatedPromptTokens;
+
+        if (chunk.type === "token") {
+          generated += chunk.content;
+          response += chunk.content;
+          yield { type: "token", content: chunk.content };
+        } else {
+          // Like getAIResponse, only the answer after the last tool call is kept
+          response = "";
+        }
+      }
+      promptTokens = estimatedPromptTokens;
+
+      const reply =
+        response.trim() || "Sorry, I could not generate a response.";
+
+      // Commit the exchange to the conversation history
+      const promptId = uuidv4();
+      const replyId = uuidv4();
+      const citations = this.toCitations(retrieved);
+      conversation.messages.push(
+        { id: promptId, role: "user", content: message, createdAt: sentAt },
+        {
+          id: replyId,
+          role: "assistant",
+          content: reply,
+          createdAt: new Date(),
+          ...(citations.length > 0 && { citations }),
+          ...completionTrace,
+        }
+      );
+      conversation.contextSummary = prepared.summary;
+      conversation.updatedAt = new Date();
+      await this.conversations.save(conversation);
+
+      completed = true;
+      span.setAttribute("stream.cancelled", false);
+      span.setStatus({ code: SpanStatusCode.OK });
+
+      yield {
+        type: "done",
+        response: reply,
+        conversationId: conversation.id,
+        userMessageId: promptId,
+        messageId: replyId,
+        citations,
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        // Cancellation is recorded in the finally block
+        throw error;
+      }
+
+      failed = true;
+      recordSpanError(span, error);
+
+      log.error("Failed to process streamed message", { error });
+
+      throw error;
+    } finally {
+      // The consumer stopped iterating or the request was aborted
+      if (!completed && !failed) {
+        span.setAttribute("stream.cancelled", true);
+        span.addEvent("stream.cancelled");
+        log.info("Streamed message was cancelled before completion");
+      }
+
+      // Tokens generated before a cancellation or failure still count
+      // towards the quota, but a request the provider never answered doesn't
+      if (promptTokens !== undefined) {
+        const completionTokens = estimateTokens(generated);
+        const totalTokens = promptTokens + completionTokens;
+
+        this.recordUsage(
+          user,
+          { promptTokens, completionTokens, totalTokens },
+          model
+        );
+        span.setAttribute("usage.total_tokens", totalTokens);
+      }
+
+      span.end();
+    }
+  }
+
+  /**
+   * Replace the last assistant response with a new one generated for the
+   * same user message
+   */
+  public async regenerateResponse(
+    conversationId: string,
+    user: ChatUser
+  ): Promise<ChatResult> {
+    const { original, message } = await this.rewindHistory(
+      conversationId,
+      user
+    );
+
+    try {
+      return await this.processMessage(message, conversationId, user);
+    } catch (error) {
+      await this.restoreHistory(original);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a user message and everything after it with the edited message
+   * and a new response to it
+   */
+  public async editMessage(
+    conversationId: string,
+    messageId: string,
+    message: string,
+    user: ChatUser
+  ): Promise<ChatResult> {
+    const { original } = await this.rewindHistory(
+      conversationId,
+      user,
+      messageId
+    );
+
+    try {
+      return await this.processMessage(message, conversationId, user);
+    } catch (error) {
+      await this.restoreHistory(original);
+      throw error;
+    }
+  }
+
+  /**
+   * Streaming variant of regenerateResponse
+   */
+  public async *regenerateResponseStream(
+    conversationId: string,
+    user: ChatUser,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamEvent> {
+    const { original, message } = await this.rewindHistory(
+      conversationId,
+      user
+    );
+
+    yield* this.restoreUnlessCompleted(
+      original,
+      this.processMessageStream(
+        message,
+        conversationId,
+        user,
+        undefined,
+        signal
+      )
+    );
+  }
+
+  /**
+   * Streaming variant of editMessage
+   */
+  public async *editMessageStream(
+    conversationId: string,
+    messageId: string,
+    message: string,
+    user: ChatUser,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamEvent> {
+    const { original } = await this.rewindHistory(
+      conversationId,
+      user,
+      messageId
+    );
+
+    yield* this.restoreUnlessCompleted(
+      original,
+      this.processMessageStream(
+        message,
+        conversationId,
+        user,
+        undefined,
+        signal
+      )
+    );
+  }
+
+  /**
+   * List a user's conversations, most recently updated first
+   */
+  public async listConversations(
+    user: ChatUser
+  ): Promise<ConversationSummary[]> {
+    const tracer = trace.getTracer("chatbot-service");
+
+    return tracer.startActiveSpan("list-conversations", async (span) => {
+      try {
+        span.setAttribute("user.id", user.userId);
+
+        const conversations = (await this.conversations.list()).filter(
+          (conversation) => conversation.userId === user.userId
+        );
+
+        span.setAttribute("conversation.count", conversations.length);
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return conversations
+          .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+          .map((conversation) => this.toSummary(conversation));
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Failed to list conversations", { error });
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Get a conversation with its message history
+   */
+  public async getConversation(
+    conversationId: string,
+    user: ChatUser
+  ): Promise<ConversationDetail | undefined> {
+    const tracer = trace.getTracer("chatbot-service");
+
+    return tracer.startActiveSpan("get-conversation", async (span) => {
+      try {
+        span.setAttribute("conversation.id", conversationId);
+
+        const conversation = await this.getOwnedConversation(
+          conversationId,
+          user
+        );
+
+        span.setAttribute("conversation.found", !!conversation);
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return conversation && this.toDetail(conversation);
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Failed to get conversation", { error });
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Rename a conversation
+   */
+  public async renameConversation(
+    conversationId: string,
+    title: string,
+    user: ChatUser
+  ): Promise<ConversationSummary | undefined> {
+    const tracer = trace.getTracer("chatbot-service");
+
+    return tracer.startActiveSpan("rename-conversation", async (span) => {
+      try {
+        span.setAttribute("conversation.id", conversationId);
+
+        const conversation = await this.getOwnedConversation(
+          conversationId,
+          user
+        );
+
+        if (!conversation) {
+          span.setAttribute("conversation.found", false);
+          span.setStatus({ code: SpanStatusCode.OK });
+          return undefined;
+        }
+
+        conversation.title = title;
+        conversation.updatedAt = new Date();
+        await this.conversations.save(conversation);
+
+        span.setAttribute("conversation.found", true);
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return this.toSummary(conversation);
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Failed to rename conversation", { error });
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Delete a conversation, returning whether it existed
+   */
+  public async deleteConversation(
+    conversationId: string,
+    user: ChatUser
+  ): Promise<boolean> {
+    const tracer = trace.getTracer("chatbot-service");
+
+    return tracer.startActiveSpan("delete-conversation", async (span) => {
+      try {
+        span.setAttribute("conversation.id", conversationId);
+
+        const conversation = await this.getOwnedConversation(
+          conversationId,
+          user
+        );
+        const deleted =
+          !!conversation && (await this.conversations.delete(conversationId));
+
+        span.setAttribute("conversation.found", deleted);
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return deleted;
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Failed to delete conversation", { error });
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Rate an assistant message, replacing any earlier feedback on it. The
+   * feedback span links to the completion that generated the message.
+   * Returns undefined if the conversation or message doesn't exist.
+   */
+  public async recordFeedback(
+    conversationId: string,
+    messageId: string,
+    feedback: Omit<MessageFeedback, "createdAt">,
+    user: ChatUser
+  ): Promise<FeedbackEntry | undefined> {
+    const tracer = trace.getTracer("chatbot-service");
+    const conversation = await this.getOwnedConversation(conversationId, user);
+    const message = conversation?.messages.find(
+      (candidate) =>
+        candidate.id === messageId && candidate.role === "assistant"
+    );
+
+    const links =
+      message?.traceId && message.spanId
+        ? [
+            {
+              context: {
+                traceId: message.traceId,
+                spanId: message.spanId,
+                traceFlags: TraceFlags.SAMPLED,
+              },
+            },
+          ]
+        : [];
+
+    return tracer.startActiveSpan(
+      "record-feedback",
+      { links },
+      async (span) => {
+        try {
+          span.setAttribute("conversation.id", conversationId);
+          span.setAttribute("message.id", messageId);
+
+          if (!conversation || !message) {
+            span.setAttribute("message.found", false);
+            span.setStatus({ code: SpanStatusCode.OK });
+            return undefined;
+          }
+
+          message.feedback = {
+            rating: feedback.rating,
+            comment: feedback.comment?.trim() || undefined,
+            createdAt: new Date(),
+          };
+          await this.conversations.save(conversation);
+
+          span.setAttribute("message.found", true);
+          span.setAttribute("feedback.rating", feedback.rating);
+          span.setAttribute("feedback.has_comment", !!message.feedback.comment);
+          if (message.traceId) {
+            span.setAttribute("feedback.trace_id", message.traceId);
+          }
+
+          recordFeedback(feedback.rating, {
+            "persona.id": conversation.personaId ?? "unknown",
+          });
+          log.info("Feedback recorded", {
+            conversationId,
+            messageId,
+            rating: feedback.rating,
+            completionTraceId: message.traceId,
+          });
+
+          span.setStatus({ code: SpanStatusCode.OK });
+
+          return this.toFeedbackEntry(conversation, message);
+        } catch (error) {
+          recordSpanError(span, error);
+
+          log.error("Failed to record feedback", { error });
+
+          throw error;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  /**
+   * Summarize the feedback on every stored conversation (admin only)
+   */
+  public async getFeedbackReport(): Promise<FeedbackReport> {
+    const tracer = trace.getTracer("chatbot-service");
+
+    return tracer.startActiveSpan("get-feedback-report", async (span) => {
+      try {
+        const entries = (await this.conversations.list()).flatMap(
+          (conversation) =>
+            conversation.messages
+              .filter((message) => message.feedback)
+              .map((message) => this.toFeedbackEntry(conversation, message))
+        );
+
+        const report: FeedbackReport = {
+          total: entries.length,
+          up: 0,
+          down: 0,
+          byPersona: {},
+          recent: entries
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+            .slice(0, RECENT_FEEDBACK_LIMIT),
+        };
+
+        for (const entry of entries) {
+          const persona = (report.byPersona[entry.personaId ?? "unknown"] ??= {
+            up: 0,
+            down: 0,
+          });
+          report[entry.rating]++;
+          persona[entry.rating]++;
+        }
+
+        span.setAttribute("feedback.count", report.total);
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return report;
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Failed to build feedback report", { error });
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Describe the feedback on a message for the admin report
+   */
+  private toFeedbackEntry(
+    conversation: ConversationHistory,
+    message: ChatMessage
+  ): FeedbackEntry {
+    return {
+      ...message.feedback!,
+      conversationId: conversation.id,
+      messageId: message.id!,
+      userId: conversation.userId,
+      personaId: conversation.personaId,
+      traceId: message.traceId,
+    };
+  }
+
+  /**
+   * Convert a stored conversation into its API summary
+   */
+  private toSummary(conversation: ConversationHistory): ConversationSummary {
+    return {
+      id: conversation.id,
+      title: conversation.title,
+      personaId: conversation.personaId,
+      messageCount: this.visibleMessages(conversation).length,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    };
+  }
+
+  /**
+   * Convert a stored conversation into its API representation with history
+   */
+  private toDetail(conversation: ConversationHistory): ConversationDetail {
+    return {
+      ...this.toSummary(conversation),
+      messages: this.visibleMessages(conversation),
+    };
+  }
+
+  /**
+   * Messages shown to users, i.e. everything except the system prompt
+   */
+  private visibleMessages(conversation: ConversationHistory): ChatMessage[] {
+    return conversation.messages.filter((message) => message.role !== "system");
+  }
+
+  /**
+   * Get a conversation, refusing access if it belongs to another user
+   */
+  private async getOwnedConversation(
+    conversationId: string,
+    user: ChatUser
+  ): Promise<ConversationHistory | undefined> {
+    const conversation = await this.conversations.get(conversationId);
+
+    if (conversation && conversation.userId !== user.userId) {
+      log.warn("Conversation access denied", {
+        conversationId,
+        userId: user.userId,
+      });
+      throw new ConversationAccessError(conversationId);
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Remove a user message and everything after it from a conversation so
+   * the message can be processed again. Without a message ID the last user
+   * message is removed. Returns the history as it was before and the
+   * content of the removed message.
+   */
+  private async rewindHistory(
+    conversationId: string,
+    user: ChatUser,
+    messageId?: string
+  ): Promise<{ original: ConversationHistory; message: string }> {
+    const tracer = trace.getTracer("chatbot-service");
+
+    return tracer.startActiveSpan("rewind-history", async (span) => {
+      try {
+        span.setAttribute("conversation.id", conversationId);
+        span.setAttribute("history.action", messageId ? "edit" : "regenerate");
+
+        const conversation = await this.getOwnedConversation(
+          conversationId,
+          user
         );
+
+        if (!conversation) {
+          throw new NotFoundError("Conversation not found");
+        }
+
+        const index = messageId
+          ? conversation.messages.findIndex(
+              (message) => message.id === messageId && message.role === "user"
+            )
+          : conversation.messages
+              .map((message) => message.role)
+              .lastIndexOf("user");
+
+        if (index === -1) {
+          throw new NotFoundError("Message not found");
+        }
+
+        const kept = conversation.messages.slice(0, index);
+        const removed = conversation.messages.slice(index);
+
+        // A summary covering removed messages would bring them back into
+        // later prompts once the history grows past it again
+        const summaryCovered = conversation.contextSummary?.messageCount ?? 0;
+        const keepSummary =
+          summaryCovered <=
+          kept.filter((message) => message.role !== "system").length;
+
+        await this.conversations.save({
+          ...conversation,
+          messages: kept,
+          contextSummary: keepSummary ? conversation.contextSummary : undefined,
+          updatedAt: new Date(),
+        });
+
+        if (removed[0].id) {
+          span.setAttribute("message.id", removed[0].id);
+        }
+        span.setAttribute("history.removed_count", removed.length);
         span.setAttribute(
-          "error.message",
-          error instanceof Error ? error.message : "Unknown error"
+          "history.summary_cleared",
+          !!conversation.contextSummary && !keepSummary
         );
+        span.setStatus({ code: SpanStatusCode.OK });
 
-        log.error("Failed to process message", { error });
+        log.info("Conversation history rewound", {
+          conversationId,
+          messageId: removed[0].id,
+          removedCount: removed.length,
+        });
+
+        return { original: conversation, message: removed[0].content };
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Failed to rewind conversation history", { error });
 
         throw error;
       } finally {
@@ -154,75 +992,314 @@ export class ChatService {
   }
 
   /**
-   * Get or create a conversation
+   * Put back the history a failed or cancelled rewrite removed. Errors are
+   * only logged so they don't hide the failure that led here.
+   */
+  private async restoreHistory(original: ConversationHistory): Promise<void> {
+    const tracer = trace.getTracer("chatbot-service");
+
+    return tracer.startActiveSpan("restore-history", async (span) => {
+      try {
+        span.setAttribute("conversation.id", original.id);
+        span.setAttribute(
+          "conversation.message_count",
+          original.messages.length
+        );
+
+        await this.conversations.save(original);
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        log.info("Conversation history restored", {
+          conversationId: original.id,
+        });
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error("Failed to restore conversation history", { error });
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Pass on the events of a stream that rewrites the history, restoring the
+   * original history if the stream fails or is cancelled before it is done
+   */
+  private async *restoreUnlessCompleted(
+    original: ConversationHistory,
+    events: AsyncGenerator<ChatStreamEvent>
+  ): AsyncGenerator<ChatStreamEvent> {
+    let completed = false;
+
+    try {
+      for await (const event of events) {
+        // The new history is saved before the done event is sent
+        completed ||= event.type === "done";
+        yield event;
+      }
+    } finally {
+      if (!completed) {
+        await this.restoreHistory(original);
+      }
+    }
+  }
+
+  /**
+   * Get or create a conversation with its persona, titling new ones after
+   * the first message
    */
-  private getOrCreateConversation(
-    conversationId?: string
-  ): ConversationHistory {
+  private async getOrCreateConversation(
+    conversationId: string | undefined,
+    firstMessage: string,
+    user: ChatUser,
+    personaId?: string
+  ): Promise<{ conversation: ConversationHistory; persona: Persona }> {
     // If conversation ID is provided and exists, return it
-    if (conversationId && conversations.has(conversationId)) {
-      return conversations.get(conversationId)!;
+    const existing = conversationId
+      ? await this.getOwnedConversation(conversationId, user)
+      : undefined;
+
+    if (existing) {
+      // Fall back to the default if the persona has since been deleted
+      const persona =
+        (existing.personaId && (await this.personas.get(existing.personaId))) ||
+        (await this.personas.resolve());
+
+      return { conversation: existing, persona };
     }
 
+    const persona = await this.personas.resolve(personaId);
+
     // Create a new conversation
     const newConversation: ConversationHistory = {
       id: uuidv4(),
+      userId: user.userId,
+      personaId: persona.id,
+      title:
+        firstMessage.length > MAX_TITLE_LENGTH
+          ? `${firstMessage.slice(0, MAX_TITLE_LENGTH - 3).trimEnd()}...`
+          : firstMessage,
       messages: [
         {
           role: "system",
-          content: this.systemPrompt,
+          content: persona.systemPrompt,
         },
       ],
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    // Store the new conversation
-    conversations.set(newConversation.id, newConversation);
+    // New conversations are stored once the first exchange completes
+    return { conversation: newConversation, persona };
+  }
+
+  /**
+   * Retrieve catalog entries for a message. Answers are still attempted
+   * without them if retrieval fails.
+   */
+  private async retrieveContext(message: string): Promise<ScoredDocument[]> {
+    try {
+      return await this.retrieval.retrieve(message);
+    } catch (error) {
+      log.warn("Continuing without catalog context", { error });
+      return [];
+    }
+  }
+
+  /**
+   * Turn retrieved catalog entries into a system message for the context
+   * window to place ahead of the latest message. The entries are numbered so
+   * the model can cite them.
+   */
+  private toCatalogContext(retrieved: ScoredDocument[]): ChatMessage[] {
+    if (retrieved.length === 0) {
+      return [];
+    }
+
+    const entries = retrieved.map(
+      ({ document }, index) =>
+        `[${index + 1}] ${document.title} (SKU ${document.id}): ${
+          document.text
+        }`
+    );
+
+    return [
+      {
+        role: "system",
+        content:
+          "Catalog entries relevant to the customer's message. Answer product questions from these entries " +
+          "and cite the ones you use by number, e.g. [1].\n" +
+          entries.join("\n"),
+      },
+    ];
+  }
+
+  /**
+   * Convert retrieved documents into the citations returned to clients
+   */
+  private toCitations(retrieved: ScoredDocument[]): Citation[] {
+    return retrieved.map(({ document, score }) => ({
+      id: document.id,
+      title: document.title,
+      source: document.source,
+      score,
+    }));
+  }
+
+  /**
+   * Fit messages into the model's context window alongside any context that
+   * isn't stored, charging any tokens spent summarizing to the user
+   */
+  private async prepareContext(
+    messages: ChatMessage[],
+    previousSummary: ContextSummary | undefined,
+    persona: Persona,
+    user: ChatUser,
+    context: ChatMessage[] = []
+  ): Promise<PreparedContext> {
+    const model = persona.model ?? this.model;
+    const prepared = await this.contextWindow.prepare(
+      // IDs, trace links and feedback are not for the model
+      messages.map(({ role, content }) => ({ role, content })),
+      model,
+      persona.maxTokens,
+      previousSummary,
+      context
+    );
+
+    if (prepared.usage) {
+      this.recordUsage(user, prepared.usage, model);
+    }
+
+    return prepared;
+  }
 
-    return newConversation;
+  /**
+   * Count tokens towards the user's quota and in the token usage metrics
+   */
+  private recordUsage(user: ChatUser, usage: TokenUsage, model: string): void {
+    this.usage.recordUsage(user, usage);
+    recordTokenUsage(usage, {
+      "llm.provider": this.provider.name,
+      "llm.model": model,
+    });
   }
 
   /**
-   * Get a response from OpenAI
+   * Record how the context window was filled on a span
    */
-  private async getAIResponse(messages: ChatMessage[]): Promise<string> {
+  private setContextAttributes(span: Span, prepared: PreparedContext): void {
+    span.setAttribute("context.strategy", prepared.strategy);
+    span.setAttribute("context.token_budget", prepared.tokenBudget);
+    span.setAttribute("context.prompt_tokens", prepared.promptTokens);
+    span.setAttribute("context.dropped_count", prepared.droppedCount);
+    span.setAttribute("context.summarized_count", prepared.summarizedCount);
+  }
+
+  /**
+   * Get a response from the LLM along with the tokens it used, running any
+   * tools the model calls
+   */
+  private async getAIResponse(
+    messages: ChatMessage[],
+    persona: Persona,
+    user: ChatUser
+  ): Promise<{ content: string; usage: TokenUsage; trace: CompletionTrace }> {
     const tracer = trace.getTracer("chatbot-service");
+    const model = persona.model ?? this.model;
 
     return tracer.startActiveSpan("openai-completion", async (span) => {
       try {
         // Add metrics for the request
-        span.setAttribute("openai.model", this.model);
+        span.setAttribute("llm.provider", this.provider.name);
+        span.setAttribute("persona.id", persona.id);
         span.setAttribute("openai.message_count", messages.length);
-
-        // Call OpenAI API
-        const response = await this.openai.createChatCompletion({
-          model: this.model,
-          messages: messages,
-          max_tokens: 500,
-          temperature: 0.7,
+        setGenAiRequestAttributes(span, this.provider.name, {
+          model,
+          maxTokens: persona.maxTokens,
+          temperature: persona.temperature,
         });
 
+        if (this.captureMessageContent) {
+          addGenAiPromptEvent(span, messages);
+        }
+
+        const functions = this.tools.getDefinitions();
+        const exchange: LLMMessage[] = [...messages];
+        const usage: TokenUsage = {
+          promptTokens: 0,
+          completionTokens: 0,
+          totalTokens: 0,
+        };
+        let toolCallCount = 0;
+        let content = "";
+        let metadata: ResponseMetadata = {};
+
+        for (let iteration = 0; ; iteration++) {
+          // Once the limit is reached the model has to answer without tools
+          const toolsAllowed = iteration < this.maxToolIterations;
+
+          const result = await this.provider.createChatCompletion({
+            model,
+            messages: exchange,
+            maxTokens: persona.maxTokens,
+            temperature: persona.temperature,
+            functions: toolsAllowed ? functions : undefined,
+          });
+
+          // Fall back to an estimate if the provider didn't report usage
+          const callUsage = result.usage ?? {
+            promptTokens: estimateMessageTokens(exchange),
+            completionTokens: estimateTokens(result.content),
+            totalTokens:
+              estimateMessageTokens(exchange) + estimateTokens(result.content),
+          };
+          usage.promptTokens += callUsage.promptTokens;
+          usage.completionTokens += callUsage.completionTokens;
+          usage.totalTokens += callUsage.totalTokens;
+          metadata = result;
+
+          if (!result.functionCall || !toolsAllowed) {
+            content = result.content;
+            break;
+          }
+
+          toolCallCount++;
+          if (this.captureMessageContent) {
+            addGenAiCompletionEvent(span, result.content, result.functionCall);
+          }
+          exchange.push(
+            ...(await this.runTool(result.content, result.functionCall, user))
+          );
+        }
+
         // Extract and return the response text
         const responseText =
-          response.data.choices[0]?.message?.content?.trim() ||
-          "Sorry, I could not generate a response.";
+          content.trim() || "Sorry, I could not generate a response.";
+
+        span.setAttribute("tool.call_count", toolCallCount);
+        setGenAiResponseAttributes(span, metadata, usage);
+
+        if (this.captureMessageContent) {
+          addGenAiCompletionEvent(span, content);
+        }
 
-        span.setStatus({ code: trace.SpanStatusCode.OK });
+        span.setStatus({ code: SpanStatusCode.OK });
 
-        return responseText;
+        return {
+          content: responseText,
+          usage,
+          trace: this.getCompletionTrace(span),
+        };
       } catch (error) {
-        span.setStatus({ code: trace.SpanStatusCode.ERROR });
-        span.setAttribute(
-          "error.type",
-          error instanceof Error ? error.name : "unknown"
-        );
-        span.setAttribute(
-          "error.message",
-          error instanceof Error ? error.message : "Unknown error"
-        );
+        recordSpanError(span, error);
 
-        log.error("OpenAI API request failed", { error });
+        log.error("LLM request failed", {
+          error,
+          provider: this.provider.name,
+        });
 
         throw error;
       } finally {
@@ -232,9 +1309,177 @@ export class ChatService {
   }
 
   /**
-   * Get service health status
+   * Stream a response from the LLM, yielding content tokens and function
+   * calls as they arrive and running any tools the model calls in between.
+   * The completion span is written to completionTrace.
+   */
+  private async *streamAIResponse(
+    messages: ChatMessage[],
+    persona: Persona,
+    user: ChatUser,
+    parentContext: Context,
+    completionTrace: CompletionTrace,
+    signal?: AbortSignal
+  ): AsyncGenerator<Exclude<ChatCompletionChunk, { type: "finish" }>> {
+    const tracer = trace.getTracer("chatbot-service");
+    const model = persona.model ?? this.model;
+    const span = tracer.startSpan(
+      "openai-completion-stream",
+      undefined,
+      parentContext
+    );
+    const spanContext = trace.setSpan(parentContext, span);
+    Object.assign(completionTrace, this.getCompletionTrace(span));
+
+    try {
+      span.setAttribute("llm.provider", this.provider.name);
+      span.setAttribute("persona.id", persona.id);
+      span.setAttribute("openai.message_count", messages.length);
+      setGenAiRequestAttributes(span, this.provider.name, {
+        model,
+        maxTokens: persona.maxTokens,
+        temperature: persona.temperature,
+      });
+
+      if (this.captureMessageContent) {
+        addGenAiPromptEvent(span, messages);
+      }
+
+      const functions = this.tools.getDefinitions();
+      const exchange: LLMMessage[] = [...messages];
+      let chunkCount = 0;
+      let toolCallCount = 0;
+      let content = "";
+      let metadata: ResponseMetadata = {};
+      // Streams don't report usage, so it is estimated
+      let promptTokens = 0;
+      let completionTokens = 0;
+
+      for (let iteration = 0; ; iteration++) {
+        // Once the limit is reached the model has to answer without tools
+        const toolsAllowed = iteration < this.maxToolIterations;
+        let functionCall: FunctionCall | undefined;
+        content = "";
+        promptTokens += estimateMessageTokens(exchange);
+
+        // Started in the span's context so retries are recorded on it
+        const stream = context.with(spanContext, () =>
+          this.provider.streamChatCompletion({
+            model,
+            messages: exchange,
+            maxTokens: persona.maxTokens,
+            temperature: persona.temperature,
+            functions: toolsAllowed ? functions : undefined,
+            signal,
+          })
+        );
+
+        for await (const chunk of stream) {
+          if (chunk.type === "function_call") {
+            functionCall = chunk.functionCall;
+            yield chunk;
+            continue;
+          }
+
+          if (chunk.type === "finish") {
+            metadata = chunk;
+            continue;
+          }
+
+          chunkCount++;
+          content += chunk.content;
+          yield chunk;
+        }
+
+        completionTokens += estimateTokens(content);
+
+        if (!functionCall || !toolsAllowed) break;
+
+        toolCallCount++;
+        const call = functionCall;
+        if (this.captureMessageContent) {
+          addGenAiCompletionEvent(span, content, call);
+        }
+        exchange.push(
+          ...(await context.with(spanContext, () =>
+            this.runTool(content, call, user)
+          ))
+        );
+      }
+
+      span.setAttribute("tool.call_count", toolCallCount);
+      span.setAttribute("openai.stream_chunk_count", chunkCount);
+      setGenAiResponseAttributes(span, metadata, {
+        promptTokens,
+        completionTokens,
+      });
+
+      if (this.captureMessageContent) {
+        addGenAiCompletionEvent(span, content);
+      }
+      span.setStatus({ code: SpanStatusCode.OK });
+    } catch (error) {
+      if (signal?.aborted) {
+        span.setAttribute("stream.cancelled", true);
+        log.info("LLM stream aborted by client");
+        throw error;
+      }
+
+      recordSpanError(span, error);
+
+      log.error("LLM streaming request failed", {
+        error,
+        provider: this.provider.name,
+      });
+
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * The trace and span IDs stored on the message a completion produced.
+   * Empty when tracing is disabled.
+   */
+  private getCompletionTrace(span: Span): CompletionTrace {
+    const spanContext = span.spanContext();
+
+    return isSpanContextValid(spanContext)
+      ? { traceId: spanContext.traceId, spanId: spanContext.spanId }
+      : {};
+  }
+
+  /**
+   * Run a tool the model called, returning the messages that record the
+   * call and its result
+   */
+  private async runTool(
+    content: string,
+    functionCall: FunctionCall,
+    user: ChatUser
+  ): Promise<LLMMessage[]> {
+    const result = await this.tools.execute(functionCall, {
+      userId: user.userId,
+    });
+
+    return [
+      { role: "assistant", content, functionCall },
+      { role: "function", name: functionCall.name, content: result },
+    ];
+  }
+
+  /**
+   * Get service health status, degraded while the LLM provider is failing
    */
-  public getHealth(): string {
-    return "healthy";
+  public getHealth(): ChatServiceHealth {
+    const llm: ProviderHealth = this.provider.getHealth?.() ?? {
+      status: "healthy",
+    };
+
+    return {
+      status: llm.status === "healthy" ? "healthy" : "degraded",
+      llm: { provider: this.provider.name, ...llm },
+    };
   }
 }
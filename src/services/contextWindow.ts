@@ -0,0 +1,285 @@
+import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { log } from "../config/logger";
+import { recordSpanError } from "../errors";
+import { ChatMessage, ContextSummary } from "../repositories";
+import { LLMProvider } from "../providers";
+import { TokenUsage } from "./usageService";
+import { estimateMessageTokens, estimateTokens } from "../utils/tokenCounter";
+
+// How history is shortened once it no longer fits the model's context
+export type ContextStrategy = "sliding-window" | "summarize";
+
+export interface ContextWindowConfig {
+  strategy: ContextStrategy;
+  contextTokens: Record<string, number>; // Context window size per model
+  defaultContextTokens: number; // For models without an entry
+}
+
+// Context window sizes of the models we commonly deploy
+const DEFAULT_CONTEXT_TOKENS: Record<string, number> = {
+  "gpt-4": 8192,
+  "gpt-4-32k": 32768,
+  "gpt-3.5-turbo": 4096,
+  "gpt-3.5-turbo-16k": 16384,
+};
+
+/**
+ * Load context window configuration from the environment.
+ * CONTEXT_TOKEN_BUDGETS is a JSON object of model name to context size.
+ */
+export const loadContextWindowConfig = (): ContextWindowConfig => {
+  const strategy = process.env.CONTEXT_STRATEGY || "sliding-window";
+  let contextTokens = DEFAULT_CONTEXT_TOKENS;
+
+  if (process.env.CONTEXT_TOKEN_BUDGETS) {
+    try {
+      contextTokens = {
+        ...DEFAULT_CONTEXT_TOKENS,
+        ...JSON.parse(process.env.CONTEXT_TOKEN_BUDGETS),
+      };
+    } catch (error) {
+      log.error("Invalid CONTEXT_TOKEN_BUDGETS configuration, using defaults", {
+        error,
+      });
+    }
+  }
+
+  if (strategy !== "sliding-window" && strategy !== "summarize") {
+    throw new Error(`Unknown context strategy: ${strategy}`);
+  }
+
+  return {
+    strategy,
+    contextTokens,
+    defaultContextTokens: Number(process.env.CONTEXT_DEFAULT_TOKENS ?? 4096),
+  };
+};
+
+// The messages to send for a turn and how they were chosen
+export interface PreparedContext {
+  messages: ChatMessage[];
+  strategy: ContextStrategy;
+  tokenBudget: number;
+  promptTokens: number; // Estimated tokens of the prepared messages
+  droppedCount: number; // Messages left out entirely
+  summarizedCount: number; // Messages replaced by the summary
+  summary?: ContextSummary; // Summary to keep for later turns
+  usage?: TokenUsage; // Tokens spent summarizing
+}
+
+const SUMMARY_PROMPT =
+  "Summarize the following conversation between a customer and a retail store assistant. " +
+  "Keep names, products, order details, decisions and open questions. Be concise.";
+
+// Upper bound on the tokens a summary may use
+const MAX_SUMMARY_TOKENS = 300;
+
+/**
+ * Fits conversation history into a model's context window, either by
+ * dropping the oldest messages or by summarizing them with the LLM
+ */
+export class ContextWindowManager {
+  constructor(
+    private provider: LLMProvider,
+    private config: ContextWindowConfig = loadContextWindowConfig()
+  ) {}
+
+  /**
+   * Get the prompt token budget for a model, leaving room for the completion
+   */
+  public getTokenBudget(model: string, maxCompletionTokens: number): number {
+    const contextTokens =
+      this.config.contextTokens[model] ?? this.config.defaultContextTokens;
+
+    return contextTokens - maxCompletionTokens;
+  }
+
+  /**
+   * Choose the messages to send for a turn. Leading system messages and the
+   * latest message are always kept. Context messages, such as retrieved
+   * catalog entries, go just before the latest message; they are never
+   * dropped or summarized since they aren't part of the stored history.
+   */
+  public async prepare(
+    messages: ChatMessage[],
+    model: string,
+    maxCompletionTokens: number,
+    previousSummary?: ContextSummary,
+    context: ChatMessage[] = []
+  ): Promise<PreparedContext> {
+    const tokenBudget = this.getTokenBudget(model, maxCompletionTokens);
+    const promptTokens = estimateMessageTokens([...messages, ...context]);
+    const prepared = {
+      strategy: this.config.strategy,
+      tokenBudget,
+      droppedCount: 0,
+      summarizedCount: 0,
+    };
+    const withContext = (selected: ChatMessage[]) =>
+      context.length > 0
+        ? [...selected.slice(0, -1), ...context, ...selected.slice(-1)]
+        : selected;
+
+    if (promptTokens <= tokenBudget) {
+      return {
+        ...prepared,
+        messages: withContext(messages),
+        promptTokens,
+        summary: previousSummary,
+      };
+    }
+
+    const firstNonSystem = messages.findIndex(
+      (message) => message.role !== "system"
+    );
+    const systemCount =
+      firstNonSystem === -1 ? messages.length : firstNonSystem;
+    const system = messages.slice(0, systemCount);
+    const history = messages.slice(systemCount);
+    const available =
+      tokenBudget - estimateMessageTokens([...system, ...context]);
+
+    if (this.config.strategy === "sliding-window") {
+      const recent = this.fitRecent(history, available);
+      const result = [...system, ...withContext(recent)];
+
+      return {
+        ...prepared,
+        messages: result,
+        promptTokens: estimateMessageTokens(result),
+        droppedCount: history.length - recent.length,
+      };
+    }
+
+    // Leave room for the summary alongside the most recent messages
+    const recent = this.fitRecent(
+      history,
+      available - MAX_SUMMARY_TOKENS - estimateTokens(SUMMARY_PROMPT)
+    );
+    const older = history.slice(0, history.length - recent.length);
+
+    try {
+      const { summary, usage } = await this.summarize(
+        older,
+        model,
+        previousSummary
+      );
+      const result = [
+        ...system,
+        {
+          role: "system" as const,
+          content: `Summary of the earlier conversation: ${summary.content}`,
+        },
+        ...withContext(recent),
+      ];
+
+      return {
+        ...prepared,
+        messages: result,
+        promptTokens: estimateMessageTokens(result),
+        summarizedCount: older.length,
+        summary,
+        usage,
+      };
+    } catch (error) {
+      // Dropping the older messages is better than failing the turn
+      log.warn("History summarization failed, dropping older messages", {
+        error,
+      });
+
+      const result = [...system, ...withContext(recent)];
+
+      return {
+        ...prepared,
+        strategy: "sliding-window",
+        messages: result,
+        promptTokens: estimateMessageTokens(result),
+        droppedCount: older.length,
+      };
+    }
+  }
+
+  /**
+   * The longest run of most recent messages that fits the budget, always
+   * including the latest message
+   */
+  private fitRecent(history: ChatMessage[], budget: number): ChatMessage[] {
+    let used = 0;
+    let start = history.length;
+
+    while (start > 0) {
+      const tokens = estimateMessageTokens([history[start - 1]]);
+      if (start < history.length && used + tokens > budget) break;
+
+      used += tokens;
+      start--;
+    }
+
+    return history.slice(start);
+  }
+
+  /**
+   * Summarize older messages, extending the previous summary when it covers
+   * a prefix of them
+   */
+  private async summarize(
+    older: ChatMessage[],
+    model: string,
+    previousSummary?: ContextSummary
+  ): Promise<{ summary: ContextSummary; usage?: TokenUsage }> {
+    // History may have shrunk since the previous summary was made
+    const reusable =
+      previousSummary && previousSummary.messageCount <= older.length
+        ? previousSummary
+        : undefined;
+
+    if (reusable?.messageCount === older.length) {
+      return { summary: reusable };
+    }
+
+    const tracer = trace.getTracer("chatbot-service");
+
+    return tracer.startActiveSpan("summarize-history", async (span) => {
+      try {
+        const pending = older.slice(reusable?.messageCount ?? 0);
+        const transcript = [
+          ...(reusable ? [`Earlier summary: ${reusable.content}`] : []),
+          ...pending.map((message) => `${message.role}: ${message.content}`),
+        ].join("\n");
+
+        span.setAttribute("context.summarized_count", pending.length);
+        span.setAttribute("context.summary_extended", !!reusable);
+
+        const result = await this.provider.createChatCompletion({
+          model,
+          messages: [
+            { role: "system", content: SUMMARY_PROMPT },
+            { role: "user", content: transcript },
+          ],
+          maxTokens: MAX_SUMMARY_TOKENS,
+          temperature: 0,
+        });
+
+        const content = result.content.trim();
+        const promptTokens = estimateTokens(SUMMARY_PROMPT + transcript);
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return {
+          summary: { content, messageCount: older.length },
+          usage: result.usage ?? {
+            promptTokens,
+            completionTokens: estimateTokens(content),
+            totalTokens: promptTokens + estimateTokens(content),
+          },
+        };
+      } catch (error) {
+        recordSpanError(span, error);
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+}
@@ -0,0 +1,299 @@
+import { RateLimitError } from "../errors";
+
+/**
+ * Storage for login rate limiting state. The in-memory implementation is
+ * used by default; a shared store (e.g. Redis) can be plugged in so limits
+ * apply across replicas.
+ */
+export interface RateLimitStore {
+  /**
+   * Record a hit for a key and return the hit timestamps still inside the window
+   */
+  recordHit(key: string, now: number, windowMs: number): Promise<number[]>;
+
+  /**
+   * Get the hit timestamps for a key that are still inside the window
+   */
+  getHits(key: string, now: number, windowMs: number): Promise<number[]>;
+
+  /**
+   * Increment the consecutive failure count for a key and return it. The
+   * count starts over once windowMs passes without a failure.
+   */
+  incrementFailures(
+    key: string,
+    now: number,
+    windowMs: number
+  ): Promise<number>;
+
+  /**
+   * Reset the consecutive failure count for a key
+   */
+  resetFailures(key: string): Promise<void>;
+
+  /**
+   * Lock a key until the given time (ms since epoch)
+   */
+  setLockout(key: string, until: number): Promise<void>;
+
+  /**
+   * Get the time a key is locked until, if it is locked
+   */
+  getLockout(key: string, now: number): Promise<number | undefined>;
+}
+
+// Entries are kept until expiresAt (ms since epoch)
+interface HitsEntry {
+  timestamps: number[];
+  expiresAt: number;
+}
+
+interface FailuresEntry {
+  count: number;
+  expiresAt: number;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, HitsEntry>();
+  private failures = new Map<string, FailuresEntry>();
+  private lockouts = new Map<string, number>();
+
+  /**
+   * Expired entries are dropped when read and swept every sweepIntervalMs,
+   * so keys that are never seen again don't stay in memory
+   */
+  constructor(sweepIntervalMs = 60 * 1000) {
+    setInterval(() => this.sweep(Date.now()), sweepIntervalMs).unref();
+  }
+
+  public async recordHit(
+    key: string,
+    now: number,
+    windowMs: number
+  ): Promise<number[]> {
+    const timestamps = [...(await this.getHits(key, now, windowMs)), now];
+    this.hits.set(key, { timestamps, expiresAt: now + windowMs });
+    return timestamps;
+  }
+
+  public async getHits(
+    key: string,
+    now: number,
+    windowMs: number
+  ): Promise<number[]> {
+    const entry = this.hits.get(key);
+    const timestamps = (entry?.timestamps ?? []).filter(
+      (timestamp) => timestamp > now - windowMs
+    );
+
+    // Drop keys whose hits have all slid out of the window
+    if (timestamps.length === 0) {
+      this.hits.delete(key);
+    } else if (entry) {
+      entry.timestamps = timestamps;
+    }
+
+    return timestamps;
+  }
+
+  public async incrementFailures(
+    key: string,
+    now: number,
+    windowMs: number
+  ): Promise<number> {
+    const entry = this.failures.get(key);
+    const count = entry && entry.expiresAt > now ? entry.count + 1 : 1;
+
+    this.failures.set(key, { count, expiresAt: now + windowMs });
+    return count;
+  }
+
+  public async resetFailures(key: string): Promise<void> {
+    this.failures.delete(key);
+  }
+
+  public async setLockout(key: string, until: number): Promise<void> {
+    this.lockouts.set(key, until);
+  }
+
+  public async getLockout(
+    key: string,
+    now: number
+  ): Promise<number | undefined> {
+    const until = this.lockouts.get(key);
+
+    if (until !== undefined && until <= now) {
+      this.lockouts.delete(key);
+      return undefined;
+    }
+
+    return until;
+  }
+
+  /**
+   * Remove every expired entry, returning how many were removed
+   */
+  public sweep(now: number): number {
+    let removed = 0;
+
+    for (const entries of [this.hits, this.failures]) {
+      for (const [key, { expiresAt }] of entries) {
+        if (expiresAt <= now) {
+          entries.delete(key);
+          removed++;
+        }
+      }
+    }
+
+    for (const [key, until] of this.lockouts) {
+      if (until <= now) {
+        this.lockouts.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+}
+
+export type RateLimitReason =
+  | "ip_rate_limited"
+  | "username_rate_limited"
+  | "account_locked";
+
+/**
+ * Thrown when a login attempt is refused because of rate limiting or lockout
+ */
+export class LoginRateLimitError extends RateLimitError {
+  constructor(
+    public readonly reason: RateLimitReason,
+    retryAfterSeconds: number
+  ) {
+    // The reason isn't shown so lockouts can't be told apart from throttling
+    super(
+      `Login attempt refused: ${reason}`,
+      retryAfterSeconds,
+      "login_rate_limited",
+      { detail: "Too many login attempts. Please try again later." }
+    );
+    this.name = "LoginRateLimitError";
+  }
+}
+
+export interface LoginRateLimitConfig {
+  windowMs: number;
+  maxAttemptsPerIp: number;
+  maxAttemptsPerUsername: number;
+  lockoutThreshold: number; // Consecutive failures within a window of each other before lockout
+  lockoutMs: number;
+}
+
+export const loadLoginRateLimitConfig = (): LoginRateLimitConfig => ({
+  windowMs: Number(process.env.LOGIN_RATE_LIMIT_WINDOW_SECONDS || 900) * 1000,
+  maxAttemptsPerIp: Number(process.env.LOGIN_RATE_LIMIT_MAX_PER_IP || 20),
+  maxAttemptsPerUsername: Number(
+    process.env.LOGIN_RATE_LIMIT_MAX_PER_USERNAME || 10
+  ),
+  lockoutThreshold: Number(process.env.LOGIN_LOCKOUT_THRESHOLD || 5),
+  lockoutMs: Number(process.env.LOGIN_LOCKOUT_SECONDS || 900) * 1000,
+});
+
+// Shared by every limiter unless a store is injected
+const defaultStore = new InMemoryRateLimitStore();
+
+/**
+ * Sliding-window rate limiting per IP and per username, with a temporary
+ * lockout after too many consecutive failures for a username
+ */
+export class LoginRateLimiter {
+  constructor(
+    private store: RateLimitStore = defaultStore,
+    private config: LoginRateLimitConfig = loadLoginRateLimitConfig()
+  ) {}
+
+  /**
+   * Record a login attempt, throwing LoginRateLimitError if it is not allowed
+   */
+  public async checkAttempt(ip: string, username: string): Promise<void> {
+    const now = Date.now();
+    const userKey = `user:${username.toLowerCase()}`;
+    const ipKey = `ip:${ip}`;
+
+    const lockedUntil = await this.store.getLockout(userKey, now);
+    if (lockedUntil !== undefined) {
+      throw new LoginRateLimitError(
+        "account_locked",
+        this.toSeconds(lockedUntil - now)
+      );
+    }
+
+    await this.checkWindow(
+      ipKey,
+      now,
+      this.config.maxAttemptsPerIp,
+      "ip_rate_limited"
+    );
+    await this.checkWindow(
+      userKey,
+      now,
+      this.config.maxAttemptsPerUsername,
+      "username_rate_limited"
+    );
+
+    await this.store.recordHit(ipKey, now, this.config.windowMs);
+    await this.store.recordHit(userKey, now, this.config.windowMs);
+  }
+
+  /**
+   * Record a failed login, locking the username once the threshold is reached.
+   * Returns the consecutive failure count and whether the account is now locked.
+   */
+  public async recordFailure(
+    username: string
+  ): Promise<{ failures: number; locked: boolean }> {
+    const userKey = `user:${username.toLowerCase()}`;
+    const failures = await this.store.incrementFailures(
+      userKey,
+      Date.now(),
+      this.config.windowMs
+    );
+
+    if (failures < this.config.lockoutThreshold) {
+      return { failures, locked: false };
+    }
+
+    await this.store.setLockout(userKey, Date.now() + this.config.lockoutMs);
+    await this.store.resetFailures(userKey);
+
+    return { failures, locked: true };
+  }
+
+  /**
+   * Record a successful login, clearing the consecutive failure count
+   */
+  public async recordSuccess(username: string): Promise<void> {
+    await this.store.resetFailures(`user:${username.toLowerCase()}`);
+  }
+
+  private async checkWindow(
+    key: string,
+    now: number,
+    maxAttempts: number,
+    reason: RateLimitReason
+  ): Promise<void> {
+    const hits = await this.store.getHits(key, now, this.config.windowMs);
+
+    if (hits.length >= maxAttempts) {
+      // Allowed again once the oldest hit that counts slides out of the window
+      const oldest = hits[hits.length - maxAttempts];
+      throw new LoginRateLimitError(
+        reason,
+        this.toSeconds(oldest + this.config.windowMs - now)
+      );
+    }
+  }
+
+  private toSeconds(ms: number): number {
+    return Math.max(1, Math.ceil(ms / 1000));
+  }
+}
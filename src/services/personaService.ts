@@ -0,0 +1,290 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { log } from "../config/logger";
+import { ConflictError, recordSpanError, ValidationError } from "../errors";
+
+// A named assistant configuration a conversation runs under
+export interface Persona {
+  id: string;
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  model?: string; // Falls back to the service's default model
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * Thrown when a conversation is started with a persona that doesn't exist
+ */
+export class PersonaNotFoundError extends ValidationError {
+  constructor(personaId: string) {
+    super(`Persona ${personaId} does not exist`, undefined, "unknown_persona");
+    this.name = "PersonaNotFoundError";
+  }
+}
+
+/**
+ * Thrown when a change would clash with existing personas
+ */
+export class PersonaConflictError extends ConflictError {
+  constructor(message: string) {
+    super(message);
+    this.name = "PersonaConflictError";
+  }
+}
+
+// Used when no persona file exists yet
+const BUILT_IN_PERSONA: Persona = {
+  id: "retail-assistant",
+  name: "Retail Assistant",
+  description:
+    "Friendly store assistant for product, stock and order questions",
+  systemPrompt:
+    "You are an intelligent assistant for a retail store, helping customers with product information, " +
+    "inventory checks, order status, and general inquiries. Be friendly, helpful, and concise. " +
+    "Use the available tools to check stock levels and order status rather than guessing. " +
+    "If you don't know the answer to a question, say so instead of making up information.",
+  temperature: 0.7,
+  maxTokens: 500,
+};
+
+/**
+ * Manages personas stored in a JSON file. Changes are written back to the
+ * file so they survive restarts.
+ */
+export class PersonaService {
+  private personas?: Promise<Map<string, Persona>>;
+  private changing: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private filePath: string = process.env.PERSONAS_PATH ||
+      "./data/personas.json",
+    private defaultPersonaId: string = process.env.DEFAULT_PERSONA_ID ||
+      BUILT_IN_PERSONA.id
+  ) {}
+
+  /**
+   * List all personas
+   */
+  public async list(): Promise<Persona[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  /**
+   * Get a persona by ID
+   */
+  public async get(personaId: string): Promise<Persona | undefined> {
+    return (await this.load()).get(personaId);
+  }
+
+  /**
+   * Get the persona with an ID, or the default persona when no ID is given.
+   * Throws PersonaNotFoundError for unknown IDs.
+   */
+  public async resolve(personaId?: string): Promise<Persona> {
+    const personas = await this.load();
+    const id = personaId ?? this.defaultPersonaId;
+    const persona = personas.get(id);
+
+    if (persona) {
+      return persona;
+    }
+
+    // Never leave conversations without a persona if the default is missing
+    if (!personaId) {
+      log.warn(`Default persona ${id} does not exist, using built-in persona`);
+      return BUILT_IN_PERSONA;
+    }
+
+    throw new PersonaNotFoundError(id);
+  }
+
+  /**
+   * Add a persona. Throws PersonaConflictError if the ID is taken.
+   */
+  public async create(persona: Persona): Promise<Persona> {
+    const tracer = trace.getTracer("persona-service");
+
+    return tracer.startActiveSpan("create-persona", async (span) => {
+      try {
+        span.setAttribute("persona.id", persona.id);
+
+        await this.change((personas) => {
+          if (personas.has(persona.id)) {
+            throw new PersonaConflictError(
+              `Persona ${persona.id} already exists`
+            );
+          }
+
+          personas.set(persona.id, persona);
+          return true;
+        });
+
+        span.setStatus({ code: SpanStatusCode.OK });
+        log.info(`Persona ${persona.id} created`);
+
+        return persona;
+      } catch (error) {
+        recordSpanError(span, error);
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Replace a persona, returning undefined if it doesn't exist
+   */
+  public async update(persona: Persona): Promise<Persona | undefined> {
+    const tracer = trace.getTracer("persona-service");
+
+    return tracer.startActiveSpan("update-persona", async (span) => {
+      try {
+        span.setAttribute("persona.id", persona.id);
+
+        const found = await this.change((personas) => {
+          if (!personas.has(persona.id)) {
+            return false;
+          }
+
+          personas.set(persona.id, persona);
+          return true;
+        });
+
+        span.setAttribute("persona.found", found);
+
+        if (found) {
+          log.info(`Persona ${persona.id} updated`);
+        }
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return found ? persona : undefined;
+      } catch (error) {
+        recordSpanError(span, error);
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Delete a persona, returning whether it existed. The default persona
+   * can't be deleted.
+   */
+  public async delete(personaId: string): Promise<boolean> {
+    const tracer = trace.getTracer("persona-service");
+
+    return tracer.startActiveSpan("delete-persona", async (span) => {
+      try {
+        span.setAttribute("persona.id", personaId);
+
+        if (personaId === this.defaultPersonaId) {
+          throw new PersonaConflictError(
+            "The default persona cannot be deleted"
+          );
+        }
+
+        const deleted = await this.change((personas) =>
+          personas.delete(personaId)
+        );
+
+        if (deleted) {
+          log.info(`Persona ${personaId} deleted`);
+        }
+
+        span.setAttribute("persona.found", deleted);
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return deleted;
+      } catch (error) {
+        recordSpanError(span, error);
+
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Load personas from the file once, starting with the built-in persona
+   * if the file doesn't exist
+   */
+  private load(): Promise<Map<string, Persona>> {
+    this.personas ??= (async () => {
+      try {
+        const personas: Persona[] = JSON.parse(
+          await fs.readFile(this.filePath, "utf8")
+        );
+
+        return new Map(personas.map((persona) => [persona.id, persona]));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          throw error;
+        }
+
+        log.info(`No personas at ${this.filePath}, using built-in persona`);
+        return new Map([[BUILT_IN_PERSONA.id, BUILT_IN_PERSONA]]);
+      }
+    })().catch((error) => {
+      this.personas = undefined;
+      throw error;
+    });
+
+    return this.personas;
+  }
+
+  /**
+   * Apply a change to a copy of the personas and make it live once it has
+   * been written, so a failed write leaves the personas as they were. The
+   * change returns whether anything changed. Changes are queued so none is
+   * lost and a slow write can't overwrite a later one.
+   */
+  private change(
+    apply: (personas: Map<string, Persona>) => boolean
+  ): Promise<boolean> {
+    const result = this.changing
+      .catch(() => undefined)
+      .then(async () => {
+        const personas = new Map(await this.load());
+
+        if (!apply(personas)) {
+          return false;
+        }
+
+        await this.save(personas);
+        this.personas = Promise.resolve(personas);
+        return true;
+      });
+
+    this.changing = result;
+    return result;
+  }
+
+  /**
+   * Write personas to the file
+   */
+  private async save(personas: Map<string, Persona>): Promise<void> {
+    const content = JSON.stringify(Array.from(personas.values()), null, 2);
+
+    // Write to a temporary file first so readers never see partial data
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, `${content}\n`);
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+// Shared by the chat and admin APIs so persona changes apply immediately
+let sharedPersonaService: PersonaService | undefined;
+
+export const getSharedPersonaService = (): PersonaService =>
+  (sharedPersonaService ??= new PersonaService());
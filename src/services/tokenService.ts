@@ -0,0 +1,153 @@
+import crypto from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { log } from "../config/logger";
+
+interface RefreshTokenRecord {
+  userId: string;
+  familyId: string; // Shared by every token descended from the same login
+  expiresAt: number;
+  rotated: boolean; // Set once the token has been exchanged for a new one
+}
+
+// In-memory token storage for demo
+// In a real application, this would be stored in a shared store such as Redis
+const refreshTokens = new Map<string, RefreshTokenRecord>();
+
+// Revoked access token IDs (jti), kept until the token would have expired
+const revokedAccessTokens = new Map<string, number>();
+
+// Refresh tokens are stored hashed so a leaked store can't be replayed
+const hashToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export class TokenService {
+  private refreshTokenTtlMs: number;
+
+  constructor() {
+    const ttlDays = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 7);
+    this.refreshTokenTtlMs = ttlDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Issue a new refresh token, starting a new token family unless one is given
+   */
+  public issueRefreshToken(
+    userId: string,
+    familyId: string = uuidv4()
+  ): string {
+    this.pruneExpiredRefreshTokens();
+
+    const token = crypto.randomBytes(32).toString("base64url");
+
+    refreshTokens.set(hashToken(token), {
+      userId,
+      familyId,
+      expiresAt: Date.now() + this.refreshTokenTtlMs,
+      rotated: false,
+    });
+
+    return token;
+  }
+
+  /**
+   * Exchange a refresh token for a new one in the same family.
+   * Presenting an already rotated token revokes the whole family, since it
+   * means the token was stolen and used by someone else.
+   */
+  public rotateRefreshToken(
+    token: string
+  ):
+    | { status: "rotated"; userId: string; refreshToken: string }
+    | { status: "invalid" | "expired" | "reused" } {
+    const record = refreshTokens.get(hashToken(token));
+
+    if (!record) {
+      return { status: "invalid" };
+    }
+
+    if (record.expiresAt <= Date.now()) {
+      refreshTokens.delete(hashToken(token));
+      return { status: "expired" };
+    }
+
+    if (record.rotated) {
+      const revoked = this.revokeFamily(record.familyId);
+      log.warn("Refresh token reuse detected, revoking token family", {
+        userId: record.userId,
+        revoked,
+      });
+      return { status: "reused" };
+    }
+
+    record.rotated = true;
+
+    return {
+      status: "rotated",
+      userId: record.userId,
+      refreshToken: this.issueRefreshToken(record.userId, record.familyId),
+    };
+  }
+
+  /**
+   * Revoke a refresh token and every token in its family.
+   * Only tokens belonging to the given user are revoked.
+   */
+  public revokeRefreshToken(token: string, userId: string): boolean {
+    const record = refreshTokens.get(hashToken(token));
+
+    if (!record || record.userId !== userId) {
+      return false;
+    }
+
+    this.revokeFamily(record.familyId);
+    return true;
+  }
+
+  /**
+   * Deny an access token until its expiry time (seconds since epoch)
+   */
+  public revokeAccessToken(jti: string, exp: number): void {
+    this.pruneRevokedAccessTokens();
+    revokedAccessTokens.set(jti, exp * 1000);
+  }
+
+  /**
+   * Check whether an access token has been revoked
+   */
+  public isAccessTokenRevoked(jti: string): boolean {
+    return revokedAccessTokens.has(jti);
+  }
+
+  private revokeFamily(familyId: string): number {
+    let revoked = 0;
+
+    for (const [hash, record] of refreshTokens) {
+      if (record.familyId === familyId) {
+        refreshTokens.delete(hash);
+        revoked++;
+      }
+    }
+
+    return revoked;
+  }
+
+  private pruneExpiredRefreshTokens(): void {
+    const now = Date.now();
+
+    for (const [hash, record] of refreshTokens) {
+      if (record.expiresAt <= now) {
+        refreshTokens.delete(hash);
+      }
+    }
+  }
+
+  private pruneRevokedAccessTokens(): void {
+    const now = Date.now();
+
+    for (const [jti, expiresAt] of revokedAccessTokens) {
+      if (expiresAt <= now) {
+        revokedAccessTokens.delete(jti);
+      }
+    }
+  }
+}
@@ -0,0 +1,212 @@
+import { log } from "../config/logger";
+import { Role } from "../middleware/auth";
+import { RateLimitError } from "../errors";
+
+// Token limits for a period; null means unlimited
+export interface TokenQuota {
+  daily: number | null;
+  monthly: number | null;
+}
+
+export interface TokenQuotaConfig {
+  roles: Record<Role, TokenQuota>;
+  users: Record<string, Partial<TokenQuota>>;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface PeriodUsage {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+  resetsAt: Date;
+}
+
+export interface UsageReport {
+  daily: PeriodUsage;
+  monthly: PeriodUsage;
+}
+
+// The user a quota applies to
+export interface QuotaSubject {
+  userId: string;
+  role?: Role;
+}
+
+type Period = "daily" | "monthly";
+
+/**
+ * Thrown when a user has used up their token budget for a period
+ */
+export class QuotaExceededError extends RateLimitError {
+  constructor(
+    public readonly period: Period,
+    public readonly limit: number,
+    public readonly resetsAt: Date
+  ) {
+    super(
+      `The ${period} token quota of ${limit} tokens has been exceeded`,
+      // Seconds until the quota resets
+      Math.max(1, Math.ceil((resetsAt.getTime() - Date.now()) / 1000)),
+      "quota_exceeded",
+      { extensions: { resetsAt } }
+    );
+    this.name = "QuotaExceededError";
+  }
+}
+
+const DEFAULT_QUOTAS: TokenQuotaConfig = {
+  roles: {
+    user: { daily: 50000, monthly: 1000000 },
+    admin: { daily: null, monthly: null },
+  },
+  users: {},
+};
+
+/**
+ * Load quotas from the TOKEN_QUOTAS environment variable (JSON), e.g.
+ * {"roles":{"user":{"daily":20000}},"users":{"42":{"monthly":null}}}
+ */
+export const loadTokenQuotas = (): TokenQuotaConfig => {
+  if (!process.env.TOKEN_QUOTAS) {
+    return DEFAULT_QUOTAS;
+  }
+
+  try {
+    const config = JSON.parse(process.env.TOKEN_QUOTAS);
+
+    return {
+      roles: {
+        user: { ...DEFAULT_QUOTAS.roles.user, ...config.roles?.user },
+        admin: { ...DEFAULT_QUOTAS.roles.admin, ...config.roles?.admin },
+      },
+      users: config.users ?? {},
+    };
+  } catch (error) {
+    log.error("Invalid TOKEN_QUOTAS configuration, using defaults", { error });
+    return DEFAULT_QUOTAS;
+  }
+};
+
+interface UsageCounter {
+  day: string; // UTC date the daily count applies to, e.g. "2024-01-31"
+  month: string; // UTC month the monthly count applies to, e.g. "2024-01"
+  daily: number;
+  monthly: number;
+}
+
+// In-memory usage counters keyed by user ID
+// In a real application, this would be stored in a shared database
+const usageCounters = new Map<string, UsageCounter>();
+
+export class UsageService {
+  constructor(private quotas: TokenQuotaConfig = loadTokenQuotas()) {}
+
+  /**
+   * Get the quota that applies to a user, with per-user overrides winning
+   */
+  public getQuota(subject: QuotaSubject): TokenQuota {
+    return {
+      ...this.quotas.roles[subject.role ?? "user"],
+      ...this.quotas.users[subject.userId],
+    };
+  }
+
+  /**
+   * Throw QuotaExceededError if the user has no tokens left in any period,
+   * or fewer than a request is estimated to use
+   */
+  public assertWithinQuota(
+    subject: QuotaSubject,
+    estimatedTokens = 0
+  ): UsageReport {
+    const report = this.getUsage(subject);
+
+    for (const period of ["daily", "monthly"] as Period[]) {
+      const { limit, remaining, resetsAt } = report[period];
+
+      if (
+        limit !== null &&
+        remaining !== null &&
+        (remaining === 0 || estimatedTokens > remaining)
+      ) {
+        log.warn(`User ${subject.userId} exceeded the ${period} token quota`, {
+          limit,
+          estimatedTokens,
+        });
+        throw new QuotaExceededError(period, limit, resetsAt);
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Add the tokens used by a completion to the user's counters
+   */
+  public recordUsage(subject: QuotaSubject, usage: TokenUsage): void {
+    const counter = this.getCounter(subject.userId, new Date());
+
+    counter.daily += usage.totalTokens;
+    counter.monthly += usage.totalTokens;
+    usageCounters.set(subject.userId, counter);
+  }
+
+  /**
+   * Report a user's consumption against their quota for each period
+   */
+  public getUsage(subject: QuotaSubject): UsageReport {
+    const now = new Date();
+    const quota = this.getQuota(subject);
+    const counter = this.getCounter(subject.userId, now);
+
+    const periodUsage = (period: Period): PeriodUsage => {
+      const used = counter[period];
+      const limit = quota[period];
+
+      return {
+        used,
+        limit,
+        remaining: limit === null ? null : Math.max(0, limit - used),
+        resetsAt: this.periodEnd(period, now),
+      };
+    };
+
+    return {
+      daily: periodUsage("daily"),
+      monthly: periodUsage("monthly"),
+    };
+  }
+
+  /**
+   * Get a user's counter, starting over when a new day or month has begun
+   */
+  private getCounter(userId: string, now: Date): UsageCounter {
+    const day = now.toISOString().slice(0, 10);
+    const month = day.slice(0, 7);
+    const counter = usageCounters.get(userId);
+
+    return {
+      day,
+      month,
+      daily: counter?.day === day ? counter.daily : 0,
+      monthly: counter?.month === month ? counter.monthly : 0,
+    };
+  }
+
+  private periodEnd(period: Period, now: Date): Date {
+    return period === "daily"
+      ? new Date(
+          Date.UTC(
+            now.getUTCFullYear(),
+            now.getUTCMonth(),
+            now.getUTCDate() + 1
+          )
+        )
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  }
+}
@@ -0,0 +1,214 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  createInventoryTool,
+  createOrderStatusTool,
+  LocalStoreDataSource,
+  Tool,
+  ToolRegistry,
+} from "..";
+
+// Mock OpenTelemetry
+jest.mock("@opentelemetry/api", () => {
+  const mockSpan = {
+    setAttribute: jest.fn(),
+    setStatus: jest.fn(),
+    recordException: jest.fn(),
+    end: jest.fn(),
+  };
+
+  return {
+    trace: {
+      getTracer: jest.fn().mockReturnValue({
+        startActiveSpan: jest.fn().mockImplementation((name, fn) => {
+          return fn(mockSpan);
+        }),
+      }),
+      getActiveSpan: jest.fn(),
+    },
+    SpanStatusCode: {
+      OK: "ok",
+      ERROR: "error",
+    },
+  };
+});
+
+describe("tools", () => {
+  const context = { userId: "1" };
+
+  describe("ToolRegistry", () => {
+    const echoTool: Tool = {
+      name: "echo",
+      description: "Echo the input",
+      parameters: {
+        type: "object",
+        properties: {
+          text: { type: "string" },
+          times: { type: "integer" },
+        },
+        required: ["text"],
+      },
+      execute: jest.fn(async (args) => ({ echoed: args.text })),
+    };
+    const registry = new ToolRegistry([echoTool]);
+
+    it("should describe registered tools as function definitions", () => {
+      expect(registry.getDefinitions()).toEqual([
+        {
+          name: "echo",
+          description: "Echo the input",
+          parameters: echoTool.parameters,
+        },
+      ]);
+    });
+
+    it("should run a tool and return its result as JSON", async () => {
+      const result = await registry.execute(
+        { name: "echo", arguments: '{"text":"hi","times":2}' },
+        context
+      );
+
+      expect(JSON.parse(result)).toEqual({ echoed: "hi" });
+      expect(echoTool.execute).toHaveBeenCalledWith(
+        { text: "hi", times: 2 },
+        context
+      );
+    });
+
+    it.each([
+      ["unknown tools", "missing", "{}", "Unknown tool: missing"],
+      ["malformed JSON", "echo", "{text:", "Arguments are not valid JSON"],
+      ["missing arguments", "echo", "{}", "text is required"],
+      [
+        "mistyped arguments",
+        "echo",
+        '{"text":"hi","times":1.5}',
+        "times must be of type integer",
+      ],
+      [
+        "unexpected arguments",
+        "echo",
+        '{"text":"hi","loud":true}',
+        "loud is not a known parameter",
+      ],
+    ])("should report %s to the model", async (_, name, args, expected) => {
+      const result = await registry.execute({ name, arguments: args }, context);
+
+      expect(JSON.parse(result)).toEqual({ error: expected });
+    });
+
+    it("should report a tool that throws without leaking the error", async () => {
+      const failing = new ToolRegistry([
+        {
+          ...echoTool,
+          execute: jest.fn().mockRejectedValue(new Error("db password wrong")),
+        },
+      ]);
+
+      const result = await failing.execute(
+        { name: "echo", arguments: '{"text":"hi"}' },
+        context
+      );
+
+      expect(JSON.parse(result)).toEqual({ error: "The tool failed to run" });
+    });
+  });
+
+  describe("built-in tools", () => {
+    let directory: string;
+    let data: LocalStoreDataSource;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "store-"));
+      await fs.mkdir(path.join(directory, "catalog"));
+      await fs.writeFile(
+        path.join(directory, "catalog", "products.json"),
+        JSON.stringify([
+          {
+            sku: "BT-100",
+            name: "Ridgeline Hiking Boots",
+            description: "Boots",
+            price: 149.99,
+            stock: 4,
+          },
+          {
+            sku: "BT-210",
+            name: "Trail Running Shoes",
+            description: "Shoes",
+            price: 119,
+            stock: 0,
+          },
+        ])
+      );
+      await fs.writeFile(
+        path.join(directory, "orders.json"),
+        JSON.stringify([
+          {
+            orderId: "ORD-1",
+            userId: "1",
+            status: "shipped",
+            items: [{ sku: "BT-100", quantity: 1 }],
+            placedAt: "2024-05-02T14:12:00Z",
+          },
+          {
+            orderId: "ORD-2",
+            userId: "2",
+            status: "processing",
+            items: [],
+            placedAt: "2024-05-03T10:00:00Z",
+          },
+        ])
+      );
+
+      data = new LocalStoreDataSource(
+        path.join(directory, "catalog"),
+        path.join(directory, "orders.json")
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("should report stock by SKU or product name", async () => {
+      const inventory = createInventoryTool(data);
+
+      expect(await inventory.execute({ product: "bt-210" }, context)).toEqual({
+        found: true,
+        products: [
+          {
+            sku: "BT-210",
+            name: "Trail Running Shoes",
+            price: 119,
+            stock: 0,
+            inStock: false,
+          },
+        ],
+      });
+      expect(
+        await inventory.execute({ product: "hiking boots" }, context)
+      ).toMatchObject({ found: true, products: [{ sku: "BT-100" }] });
+      expect(
+        await inventory.execute({ product: "kayak" }, context)
+      ).toMatchObject({ found: false });
+    });
+
+    it("should only report the user's own orders", async () => {
+      const orderStatus = createOrderStatusTool(data);
+
+      expect(await orderStatus.execute({ orderId: "ORD-1" }, context)).toEqual({
+        found: true,
+        order: {
+          orderId: "ORD-1",
+          status: "shipped",
+          items: [{ sku: "BT-100", quantity: 1 }],
+          placedAt: "2024-05-02T14:12:00Z",
+        },
+      });
+      expect(
+        await orderStatus.execute({ orderId: "ORD-2" }, context)
+      ).toMatchObject({ found: false });
+    });
+  });
+});
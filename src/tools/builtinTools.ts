@@ -0,0 +1,69 @@
+import { StoreDataSource } from "./storeData";
+import { Tool } from "./tool";
+
+/**
+ * Look up stock levels and prices in the catalog
+ */
+export const createInventoryTool = (data: StoreDataSource): Tool => ({
+  name: "check_inventory",
+  description:
+    "Check whether products are in stock and get their price. Accepts a SKU or words from the product name.",
+  parameters: {
+    type: "object",
+    properties: {
+      product: {
+        type: "string",
+        description: "SKU or product name, e.g. BT-100 or hiking boots",
+      },
+    },
+    required: ["product"],
+  },
+  async execute(args) {
+    const products = await data.findProducts(String(args.product));
+
+    if (products.length === 0) {
+      return { found: false, message: "No matching products" };
+    }
+
+    return {
+      found: true,
+      products: products.map((product) => ({
+        sku: product.sku,
+        name: product.name,
+        price: product.price,
+        stock: product.stock ?? 0,
+        inStock: (product.stock ?? 0) > 0,
+      })),
+    };
+  },
+});
+
+/**
+ * Look up the status of one of the current user's orders
+ */
+export const createOrderStatusTool = (data: StoreDataSource): Tool => ({
+  name: "get_order_status",
+  description:
+    "Get the status, items and delivery estimate of one of the customer's orders.",
+  parameters: {
+    type: "object",
+    properties: {
+      orderId: {
+        type: "string",
+        description: "Order number, e.g. ORD-1001",
+      },
+    },
+    required: ["orderId"],
+  },
+  async execute(args, context) {
+    const order = await data.getOrder(String(args.orderId).trim());
+
+    // Other customers' orders are reported as missing so IDs can't be probed
+    if (!order || order.userId !== context.userId) {
+      return { found: false, message: "No order with that number" };
+    }
+
+    const { userId, ...details } = order;
+    return { found: true, order: details };
+  },
+});
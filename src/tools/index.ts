@@ -0,0 +1,29 @@
+import { loadRetrievalConfig } from "../retrieval";
+import { createInventoryTool, createOrderStatusTool } from "./builtinTools";
+import { LocalStoreDataSource } from "./storeData";
+import { ToolRegistry } from "./toolRegistry";
+
+export * from "./tool";
+export { ToolRegistry } from "./toolRegistry";
+export {
+  LocalStoreDataSource,
+  Order,
+  OrderItem,
+  StoreDataSource,
+} from "./storeData";
+export { createInventoryTool, createOrderStatusTool } from "./builtinTools";
+
+/**
+ * Create a registry with the built-in tools backed by local store data
+ */
+export const createDefaultToolRegistry = (): ToolRegistry => {
+  const data = new LocalStoreDataSource(
+    loadRetrievalConfig().catalogPath,
+    process.env.ORDERS_PATH || "./data/orders.json"
+  );
+
+  return new ToolRegistry([
+    createInventoryTool(data),
+    createOrderStatusTool(data),
+  ]);
+};
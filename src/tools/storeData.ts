@@ -0,0 +1,94 @@
+import { promises as fs } from "fs";
+import { CatalogProduct, loadCatalog } from "../retrieval";
+
+export interface OrderItem {
+  sku: string;
+  quantity: number;
+}
+
+export interface Order {
+  orderId: string;
+  userId: string;
+  status: "processing" | "shipped" | "delivered" | "cancelled";
+  items: OrderItem[];
+  placedAt: string;
+  estimatedDelivery?: string;
+  trackingNumber?: string;
+}
+
+/**
+ * Store inventory and order data available to tools
+ */
+export interface StoreDataSource {
+  /**
+   * Find products by SKU or by words in their name
+   */
+  findProducts(query: string): Promise<CatalogProduct[]>;
+
+  /**
+   * Get an order by ID
+   */
+  getOrder(orderId: string): Promise<Order | undefined>;
+}
+
+// Products returned for a single lookup
+const MAX_PRODUCT_MATCHES = 5;
+
+/**
+ * Data source backed by the catalog directory and an orders JSON file,
+ * loaded on first use
+ */
+export class LocalStoreDataSource implements StoreDataSource {
+  private data?: Promise<{ products: CatalogProduct[]; orders: Order[] }>;
+
+  constructor(private catalogPath: string, private ordersPath: string) {}
+
+  public async findProducts(query: string): Promise<CatalogProduct[]> {
+    const { products } = await this.load();
+    const normalized = query.trim().toLowerCase();
+    const words = normalized.split(/\s+/).filter(Boolean);
+
+    const bySku = products.filter(
+      (product) => product.sku.toLowerCase() === normalized
+    );
+    if (bySku.length > 0) {
+      return bySku;
+    }
+
+    return products
+      .filter((product) =>
+        words.every((word) => product.name.toLowerCase().includes(word))
+      )
+      .slice(0, MAX_PRODUCT_MATCHES);
+  }
+
+  public async getOrder(orderId: string): Promise<Order | undefined> {
+    const { orders } = await this.load();
+    return orders.find((order) => order.orderId === orderId);
+  }
+
+  private load(): Promise<{ products: CatalogProduct[]; orders: Order[] }> {
+    this.data ??= (async () => ({
+      products: (await loadCatalog(this.catalogPath)).map(
+        ({ product }) => product
+      ),
+      orders: await this.loadOrders(),
+    }))().catch((error) => {
+      this.data = undefined;
+      throw error;
+    });
+
+    return this.data;
+  }
+
+  private async loadOrders(): Promise<Order[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.ordersPath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
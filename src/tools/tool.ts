@@ -0,0 +1,22 @@
+// Who a tool is being run for
+export interface ToolContext {
+  userId: string;
+}
+
+/**
+ * A function the model can call. Parameters are described by a JSON schema
+ * object and the result is sent back to the model as JSON.
+ */
+export interface Tool {
+  name: string;
+  description: string;
+  parameters: {
+    type: "object";
+    properties: Record<string, { type: string; description?: string }>;
+    required?: string[];
+  };
+  execute(
+    args: Record<string, unknown>,
+    context: ToolContext
+  ): Promise<unknown>;
+}
@@ -0,0 +1,124 @@
+import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { log } from "../config/logger";
+import { recordSpanError } from "../errors";
+import { FunctionCall, FunctionDefinition } from "../providers";
+import { Tool, ToolContext } from "./tool";
+
+/**
+ * Check arguments against a tool's parameter schema, returning any problems
+ */
+const validateArguments = (
+  tool: Tool,
+  args: Record<string, unknown>
+): string[] => {
+  const problems: string[] = [];
+
+  for (const name of tool.parameters.required ?? []) {
+    if (args[name] === undefined) {
+      problems.push(`${name} is required`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const property = tool.parameters.properties[name];
+
+    if (!property) {
+      problems.push(`${name} is not a known parameter`);
+    } else if (
+      property.type === "integer"
+        ? !Number.isInteger(value)
+        : typeof value !== property.type
+    ) {
+      problems.push(`${name} must be of type ${property.type}`);
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * The tools available to the model
+ */
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+
+  constructor(tools: Tool[] = []) {
+    tools.forEach((tool) => this.register(tool));
+  }
+
+  public register(tool: Tool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  /**
+   * Describe the registered tools for function calling
+   */
+  public getDefinitions(): FunctionDefinition[] {
+    return Array.from(this.tools.values(), (tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    }));
+  }
+
+  /**
+   * Run a function call and return its result as JSON text for the model.
+   * Failures are reported to the model rather than thrown.
+   */
+  public async execute(
+    call: FunctionCall,
+    context: ToolContext
+  ): Promise<string> {
+    const tracer = trace.getTracer("chatbot-service");
+
+    return tracer.startActiveSpan("execute-tool", async (span) => {
+      const start = Date.now();
+
+      const fail = (type: string, message: string): string => {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+        span.setAttribute("error.type", type);
+        span.setAttribute("error.message", message);
+
+        log.warn(`Tool call ${call.name} failed: ${message}`);
+        return JSON.stringify({ error: message });
+      };
+
+      try {
+        span.setAttribute("tool.name", call.name);
+        span.setAttribute("tool.arguments", call.arguments);
+
+        const tool = this.tools.get(call.name);
+        if (!tool) {
+          return fail("unknown_tool", `Unknown tool: ${call.name}`);
+        }
+
+        let args: Record<string, unknown>;
+        try {
+          args = JSON.parse(call.arguments || "{}");
+        } catch {
+          return fail("invalid_arguments", "Arguments are not valid JSON");
+        }
+
+        const problems = validateArguments(tool, args);
+        if (problems.length > 0) {
+          return fail("invalid_arguments", problems.join("; "));
+        }
+
+        const result = JSON.stringify(await tool.execute(args, context));
+
+        span.setStatus({ code: SpanStatusCode.OK });
+
+        return result;
+      } catch (error) {
+        recordSpanError(span, error);
+
+        log.error(`Tool ${call.name} failed`, { error });
+
+        return JSON.stringify({ error: "The tool failed to run" });
+      } finally {
+        span.setAttribute("tool.duration_ms", Date.now() - start);
+        span.end();
+      }
+    });
+  }
+}
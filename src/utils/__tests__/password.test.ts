@@ -0,0 +1,64 @@
+import { hashPassword, verifyPassword } from "../password";
+import { validateCredentials } from "../credentialPolicy";
+
+describe("password hashing", () => {
+  it("should verify the original password only", async () => {
+    const hash = await hashPassword("password123");
+
+    expect(hash).not.toContain("password123");
+    expect(await verifyPassword("password123", hash)).toBe(true);
+    expect(await verifyPassword("password124", hash)).toBe(false);
+  });
+
+  it("should salt each hash", async () => {
+    expect(await hashPassword("password123")).not.toBe(
+      await hashPassword("password123")
+    );
+  });
+
+  it("should reject malformed hashes", async () => {
+    expect(await verifyPassword("password123", "password123")).toBe(false);
+  });
+});
+
+describe("validateCredentials", () => {
+  afterEach(() => {
+    delete process.env.PASSWORD_MIN_LENGTH;
+    delete process.env.USERNAME_PATTERN;
+  });
+
+  it("should accept credentials that meet the policy", () => {
+    expect(validateCredentials("alice", "correct-horse")).toEqual([]);
+  });
+
+  it("should report each violation by field", () => {
+    expect(validateCredentials("a!", "short")).toEqual([
+      { field: "username", message: expect.any(String) },
+      {
+        field: "password",
+        message: "Password must be at least 8 characters long",
+      },
+    ]);
+  });
+
+  it("should reject a password equal to the username", () => {
+    expect(validateCredentials("alice1234", "ALICE1234")).toEqual([
+      {
+        field: "password",
+        message: "Password must not be the same as the username",
+      },
+    ]);
+  });
+
+  it("should honor the configured policy", () => {
+    process.env.PASSWORD_MIN_LENGTH = "12";
+    process.env.USERNAME_PATTERN = "^[a-z]+$";
+
+    expect(
+      validateCredentials("Alice", "correct-horse").map((v) => v.field)
+    ).toEqual(["username"]);
+    expect(
+      validateCredentials("alice", "short-pass").map((v) => v.field)
+    ).toEqual(["password"]);
+  });
+});
@@ -0,0 +1,27 @@
+import { redactPII } from "../redaction";
+
+describe("redactPII", () => {
+  it("should redact contact details", () => {
+    expect(redactPII("Email jane.doe@example.com or call (555) 123-4567")).toBe(
+      "Email [EMAIL] or call [PHONE]"
+    );
+    expect(redactPII("My number is +1 555.123.4567")).toBe(
+      "My number is [PHONE]"
+    );
+  });
+
+  it("should redact card numbers, SSNs and IP addresses", () => {
+    expect(redactPII("Card 4111 1111 1111 1111, SSN 123-45-6789")).toBe(
+      "Card [CARD_NUMBER], SSN [SSN]"
+    );
+    expect(redactPII("Requested from 192.168.1.20")).toBe(
+      "Requested from [IP_ADDRESS]"
+    );
+  });
+
+  it("should leave ordinary text untouched", () => {
+    const text = "Is order ORD-1001 for 2 hiking boots shipped yet?";
+
+    expect(redactPII(text)).toBe(text);
+  });
+});
@@ -2,6 +2,7 @@ import { DefaultAzureCredential } from "@azure/identity";
 import { SecretClient } from "@azure/keyvault-secrets";
 import { log } from "../config/logger";
 import { trace, SpanStatusCode } from "@opentelemetry/api";
+import { recordSpanError } from "../errors";
 
 // Use environment variables for configuration
 const keyVaultName = process.env.AZURE_KEY_VAULT_NAME || "";
@@ -29,6 +30,25 @@ export const initializeKeyVault = (): void => {
   }
 };
 
+/**
+ * Report whether Key Vault is configured and its client could be created
+ */
+export const getKeyVaultStatus = (): {
+  name: string;
+  configured: boolean;
+  initialized: boolean;
+} => {
+  if (keyVaultName && !secretClient) {
+    initializeKeyVault();
+  }
+
+  return {
+    name: keyVaultName,
+    configured: Boolean(keyVaultName),
+    initialized: secretClient !== null,
+  };
+};
+
 /**
  * Get a secret from Azure Key Vault
  */
@@ -74,15 +94,7 @@ export const getSecret = async (
 
       return secretValue;
     } catch (error) {
-      span.setStatus({ code: SpanStatusCode.ERROR });
-      span.setAttribute(
-        "error.type",
-        error instanceof Error ? error.name : "unknown"
-      );
-      span.setAttribute(
-        "error.message",
-        error instanceof Error ? error.message : "Unknown error"
-      );
+      recordSpanError(span, error);
 
       log.error(`Failed to retrieve secret '${secretName}'`, { error });
 
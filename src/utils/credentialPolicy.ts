@@ -0,0 +1,49 @@
+export interface PolicyViolation {
+  field: "username" | "password";
+  message: string;
+}
+
+const DEFAULT_USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+
+/**
+ * Check a username and password against the configured credential policy
+ */
+export const validateCredentials = (
+  username: string,
+  password: string
+): PolicyViolation[] => {
+  const minLength = Number(process.env.PASSWORD_MIN_LENGTH || 8);
+  const usernamePattern = process.env.USERNAME_PATTERN;
+  const violations: PolicyViolation[] = [];
+
+  if (usernamePattern) {
+    if (!new RegExp(usernamePattern).test(username)) {
+      violations.push({
+        field: "username",
+        message: `Username must match the pattern ${usernamePattern}`,
+      });
+    }
+  } else if (!DEFAULT_USERNAME_PATTERN.test(username)) {
+    violations.push({
+      field: "username",
+      message:
+        "Username must be 3-32 characters using letters, numbers, '.', '_' or '-'",
+    });
+  }
+
+  if (password.length < minLength) {
+    violations.push({
+      field: "password",
+      message: `Password must be at least ${minLength} characters long`,
+    });
+  }
+
+  if (password.toLowerCase() === username.toLowerCase()) {
+    violations.push({
+      field: "password",
+      message: "Password must not be the same as the username",
+    });
+  }
+
+  return violations;
+};
@@ -0,0 +1,66 @@
+import crypto from "crypto";
+
+// scrypt parameters; N=2^14 keeps hashing around tens of milliseconds
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const scryptOptions: crypto.ScryptOptions = {
+  N: SCRYPT_COST,
+  r: SCRYPT_BLOCK_SIZE,
+  p: SCRYPT_PARALLELIZATION,
+};
+
+const scrypt = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, scryptOptions, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+
+const formatHash = (salt: Buffer, key: Buffer): string =>
+  `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+
+/**
+ * Hash a password with a random salt using scrypt
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await scrypt(password, salt);
+
+  return formatHash(salt, key);
+};
+
+/**
+ * Synchronously hash a password; only intended for seeding at startup
+ */
+export const hashPasswordSync = (password: string): string => {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = crypto.scryptSync(password, salt, KEY_LENGTH, scryptOptions);
+
+  return formatHash(salt, key);
+};
+
+/**
+ * Check a password against a stored hash using a constant-time comparison
+ */
+export const verifyPassword = async (
+  password: string,
+  storedHash: string
+): Promise<boolean> => {
+  const [algorithm, saltHex, keyHex] = storedHash.split("$");
+
+  if (algorithm !== "scrypt" || !saltHex || !keyHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await scrypt(password, Buffer.from(saltHex, "hex"));
+
+  return (
+    actual.length === expected.length &&
+    crypto.timingSafeEqual(actual, expected)
+  );
+};
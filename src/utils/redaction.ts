@@ -0,0 +1,20 @@
+// Personal data that shouldn't leave the service in telemetry, most
+// specific patterns first so they aren't claimed by broader ones
+const PII_PATTERNS: [RegExp, string][] = [
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, "[EMAIL]"],
+  [/\b\d{3}-\d{2}-\d{4}\b/g, "[SSN]"],
+  [/\b(?:\d[ -]?){12,18}\d\b/g, "[CARD_NUMBER]"],
+  [/(?:\+\d{1,3}[ .-]?)?\(?\b\d{3}\)?[ .-]?\d{3}[ .-]?\d{4}\b/g, "[PHONE]"],
+  [/\b(?:\d{1,3}\.){3}\d{1,3}\b/g, "[IP_ADDRESS]"],
+];
+
+/**
+ * Replace email addresses, card numbers, SSNs, phone numbers and IP
+ * addresses with placeholders
+ */
+export const redactPII = (text: string): string =>
+  PII_PATTERNS.reduce(
+    (redacted, [pattern, placeholder]) =>
+      redacted.replace(pattern, placeholder),
+    text
+  );
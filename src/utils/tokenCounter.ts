@@ -0,0 +1,23 @@
+// Rough average for English text with GPT tokenizers
+const CHARS_PER_TOKEN = 4;
+
+// Tokens the chat format adds around every message
+const TOKENS_PER_MESSAGE = 4;
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Estimate the number of prompt tokens a list of chat messages will use
+ */
+export const estimateMessageTokens = (
+  messages: { content: string }[]
+): number =>
+  messages.reduce(
+    (total, message) =>
+      total + TOKENS_PER_MESSAGE + estimateTokens(message.content),
+    0
+  );
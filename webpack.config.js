@@ -35,6 +35,8 @@ module.exports = {
       directory: path.join(__dirname, "dist/public"),
     },
     port: 3000,
+    // Serve the app for client side routes such as /conversations/<id>
+    historyApiFallback: true,
     proxy: {
       "/api": "http://localhost:8080",
     },